@@ -6,15 +6,52 @@ import { Input } from '@/components/ui/input';
 import { AutocompleteInput } from '@/components/ui/autocomplete-input';
 import { Label } from '@/components/ui/label';
 import { Tooltip } from '@/components/ui/tooltip';
-import { FireCalculator, FireCalculationInput } from '@/lib/fire-calculator';
-import FireProjectionChart from '@/components/charts/fire-projection-chart';
+import { FireCalculator, FireCalculationInput, DEFAULT_MAX_WORKING_AGE } from '@/lib/fire-calculator';
+import FireProjectionChart, { ProjectionSeries } from '@/components/charts/fire-projection-chart';
 import FireSummary from '@/components/dashboard/fire-summary';
 import { YearlyDetailTable } from '@/components/dashboard/yearly-detail-table';
-import { ChartDataPoint, FireMetrics, AssetHolding, Loan, PensionPlan, SalaryPlan, SpecialExpense, SpecialIncome, Child, MultiYearEducationExpense } from '@/lib/types';
+import { MonthlyDetailTable } from '@/components/dashboard/monthly-detail-table';
+import { PensionBreakEvenTable } from '@/components/dashboard/pension-break-even-table';
+import { FlexibleSpendingSummary } from '@/components/dashboard/flexible-spending-summary';
+import { SurvivorScenarioSummary } from '@/components/dashboard/survivor-scenario-summary';
+import { GoalSeekSummary } from '@/components/dashboard/goal-seek-summary';
+import { ScenarioComparisonTable } from '@/components/dashboard/scenario-comparison-table';
+import RebalancingForm from '@/components/forms/rebalancing-form';
+import GlidePathForm from '@/components/forms/glide-path-form';
+import SalaryGrowthInput from '@/components/forms/salary-growth-input';
+import PostRetirementInsuranceForm from '@/components/forms/post-retirement-insurance-form';
+import SpouseForm from '@/components/forms/spouse-form';
+import SurvivorScenarioForm from '@/components/forms/survivor-scenario-form';
+import TerminalWealthGoalForm from '@/components/forms/terminal-wealth-goal-form';
+import RetirementSearchForm from '@/components/forms/retirement-search-form';
+import GoalSeekForm from '@/components/forms/goal-seek-form';
+import FireVariantForm from '@/components/forms/fire-variant-form';
+import SensitivityForm from '@/components/forms/sensitivity-form';
+import ScenarioManager from '@/components/forms/scenario-manager';
+import InflationScheduleForm from '@/components/forms/inflation-schedule-form';
+import ExpenseCategoryForm from '@/components/forms/expense-category-form';
+import ExpenseBudgetForm from '@/components/forms/expense-budget-form';
+import FlexibleSpendingForm from '@/components/forms/flexible-spending-form';
+import AllocationTimelineChart from '@/components/charts/allocation-timeline-chart';
+import TornadoChart from '@/components/charts/tornado-chart';
+import { ChartDataPoint, FireMetrics, AssetHolding, Loan, PensionPlan, SalaryPlan, SpecialExpense, SpecialIncome, Child, MultiYearEducationExpense, WithdrawalStrategy, WithdrawalStrategyType, AssetType, RebalancingSettings, GlidePathPoint, SimulationResolution, SalaryGrowthModel, PensionKind, PensionIndexation, PensionIndexationType, IdecoLumpSumSettings, PostRetirementInsuranceSettings, HouseholdMember, LifeInsurancePolicy, SurvivorScenarioSettings, TerminalWealthGoal, RetirementSearchSettings, GoalSeekSettings, FireVariantSettings, SensitivityDriver, SensitivityMetric, Scenario, ValueDisplayMode, ExpenseBudget } from '@/lib/types';
 import { ExpenseTimeline } from '@/components/expense/expense-timeline';
-import { saveToLocalStorage, loadFromLocalStorage, exportToJson, importFromJson } from '@/lib/storage';
+import { createExpenseSegmentsFromBudget, fitExpenseSegments, isBudgetActive } from '@/lib/expense-budget';
+import { analyzeFlexibleSpending } from '@/lib/flexible-spending';
+import { saveToLocalStorage, loadFromLocalStorage, saveScenariosToLocalStorage, loadScenariosFromLocalStorage, exportToJson, importFromJson } from '@/lib/storage';
 import { useToast, ToastProvider } from '@/lib/toast-context';
 import { calculateTotalAssets as calculateTotalAssetsUnified } from '@/lib/asset-calculator';
+import { WITHDRAWAL_STRATEGY_LABELS } from '@/lib/withdrawal-strategy';
+import { calculateRetirementAllowanceTax } from '@/lib/retirement-income';
+import { analyzeSurvivorScenario } from '@/lib/survivor-scenario';
+import { solveGoal } from '@/lib/goal-seek';
+import { calculateFireVariants } from '@/lib/fire-variants';
+import { DEFAULT_SENSITIVITY_DELTAS, runSensitivityAnalysis, toSensitivityOutcome } from '@/lib/sensitivity';
+import { toPresentValue, toPresentValueChartData, toPresentValueMetrics, toPresentValueYearlyDetails, VALUE_DISPLAY_MODE_LABELS } from '@/lib/present-value';
+import { compareScenarios, createScenario, MAX_COMPARED_SCENARIOS, MIN_COMPARED_SCENARIOS } from '@/lib/scenario';
+import { getAfterTaxExpectedReturn, IDECO_CONTRIBUTION_END_AGE, IDECO_WITHDRAWAL_AGE } from '@/lib/investment-account';
+import { analyzePensionClaimingAge, calculateClaimingAdjustmentRate, clampClaimingAge, EARLIEST_CLAIMING_AGE, isPublicPension, LATEST_CLAIMING_AGE, PENSION_INDEXATION_LABELS, PENSION_KIND_LABELS, STANDARD_CLAIMING_AGE, DEFAULT_SLIDE_RATE, DEFAULT_SLIDE_YEARS } from '@/lib/public-pension';
+import { createInflationIndex } from '@/lib/inflation';
 import { generateEducationExpenses, generateEducationMultiYearExpenses, expandAllChildrenMultiYearExpenses, calculateParentAgeFromChildAge } from '@/lib/education-cost';
 
 interface StockSymbol {
@@ -119,6 +156,36 @@ function HomeContent() {
   // 年次詳細データ表示の状態
   const [showYearlyDetails, setShowYearlyDetails] = useState(false);
 
+  // チャートで比較する取り崩し戦略
+  const [comparedStrategies, setComparedStrategies] = useState<WithdrawalStrategyType[]>([]);
+
+  // 遺族シナリオの設定（配偶者がいる場合に、一方が死亡したときの資産の持続を試算、表示したときのみ計算）
+  const [showSurvivorScenario, setShowSurvivorScenario] = useState(false);
+  const [survivorSettings, setSurvivorSettings] = useState<SurvivorScenarioSettings>({ deceased: 'primary', deathAge: 50 });
+
+  // FIREの種類ごとの達成年齢（計算に時間がかかるため表示したときのみ計算）
+  const [showFireVariants, setShowFireVariants] = useState(false);
+
+  // 逆算の設定（目標を固定して月間支出・年収などを求める、計算に時間がかかるため表示したときのみ計算）
+  const [showGoalSeek, setShowGoalSeek] = useState(false);
+  const [goalSeekSettings, setGoalSeekSettings] = useState<GoalSeekSettings>({ targetType: 'fire-age', targetValue: 50, variable: 'monthly-expenses' });
+
+  // 支出の柔軟な調整の効果の分析（モンテカルロシミュレーションを行うため表示したときのみ計算）
+  const [showFlexibleSpending, setShowFlexibleSpending] = useState(false);
+
+  // 感度分析の設定（計算に時間がかかるため表示したときのみ計算）
+  const [showSensitivity, setShowSensitivity] = useState(false);
+  const [sensitivityDeltas, setSensitivityDeltas] = useState<Record<SensitivityDriver, number>>(DEFAULT_SENSITIVITY_DELTAS);
+  const [sensitivityMetric, setSensitivityMetric] = useState<SensitivityMetric>('fire-age');
+
+  // 名前付きシナリオ（編集中のシナリオの入力は input が最新で、scenarios 側は切り替え・保存時に反映）
+  const [scenarios, setScenarios] = useState<Scenario[]>(() => [{ ...createScenario('基本プラン', createDefaultInput()), id: 'default' }]);
+  const [activeScenarioId, setActiveScenarioId] = useState('default');
+  const [comparedScenarioIds, setComparedScenarioIds] = useState<string[]>([]);
+
+  // 金額の表示方法（名目額 / 計画のインフレ率で換算した現在価値）
+  const [valueDisplayMode, setValueDisplayMode] = useState<ValueDisplayMode>('nominal');
+
   // 既存の銘柄IDから次のIDを計算
   const calculateNextAssetId = (assetHoldings: AssetHolding[]): number => {
     if (assetHoldings.length === 0) return 1;
@@ -168,6 +235,17 @@ function HomeContent() {
     return maxId + 1;
   };
 
+  // 入力データから各項目の次のIDを設定
+  const updateNextIds = (data: FireCalculationInput) => {
+    setNextAssetId(calculateNextAssetId(data.assetHoldings));
+    setNextLoanId(calculateNextLoanId(data.loans || []));
+    setNextPensionId(calculateNextPensionId(data.pensionPlans || []));
+    setNextSalaryId(calculateNextSalaryId(data.salaryPlans || []));
+    setNextSpecialExpenseId(calculateNextSpecialExpenseId(data.specialExpenses || []));
+    setNextSpecialIncomeId(calculateNextSpecialIncomeId(data.specialIncomes || []));
+    setNextChildId(calculateNextChildId(data.children || []));
+  };
+
   // 為替レート取得関数
   const fetchExchangeRate = async () => {
     try {
@@ -189,6 +267,12 @@ function HomeContent() {
 
   // ページ読み込み時にlocalStorageからデータを復元
   useEffect(() => {
+    const savedScenarios = loadScenariosFromLocalStorage();
+    if (savedScenarios) {
+      setScenarios(savedScenarios.scenarios);
+      setActiveScenarioId(savedScenarios.activeScenarioId);
+    }
+
     const savedData = loadFromLocalStorage();
     if (savedData) {
       // 古いデータにmultiYearExpensesやmanuallyEditedフィールドがない場合は初期化
@@ -313,6 +397,73 @@ function HomeContent() {
     saveToLocalStorage(input);
   }, [input]);
 
+  // シナリオ一覧も自動保存（編集中のシナリオには現在の入力を反映）
+  useEffect(() => {
+    saveScenariosToLocalStorage({
+      activeScenarioId,
+      scenarios: scenarios.map(scenario => scenario.id === activeScenarioId
+        ? { ...scenario, input, updatedAt: new Date().toISOString() }
+        : scenario
+      ),
+    });
+  }, [scenarios, activeScenarioId, input]);
+
+  // 編集中のシナリオの入力を一覧に反映
+  const syncActiveScenario = (list: Scenario[]): Scenario[] =>
+    list.map(scenario => scenario.id === activeScenarioId
+      ? { ...scenario, input, updatedAt: new Date().toISOString() }
+      : scenario
+    );
+
+  // シナリオの切り替え
+  const switchScenario = (id: string) => {
+    if (id === activeScenarioId) return;
+    const target = scenarios.find(scenario => scenario.id === id);
+    if (!target) return;
+
+    setScenarios(syncActiveScenario(scenarios));
+    setActiveScenarioId(id);
+    setInput(target.input);
+    updateNextIds(target.input);
+  };
+
+  // 編集中のシナリオを複製し、複製したシナリオを編集対象にする
+  const cloneScenario = () => {
+    const active = scenarios.find(scenario => scenario.id === activeScenarioId);
+    const clone = createScenario(`${active?.name || 'シナリオ'}のコピー`, input);
+
+    setScenarios([...syncActiveScenario(scenarios), clone]);
+    setActiveScenarioId(clone.id);
+  };
+
+  // シナリオ名の変更
+  const renameScenario = (id: string, name: string) => {
+    setScenarios(prev => prev.map(scenario => scenario.id === id ? { ...scenario, name } : scenario));
+  };
+
+  // シナリオの削除（最後の1件は削除しない、編集中のシナリオを削除した場合は先頭のシナリオに切り替え）
+  const deleteScenario = (id: string) => {
+    if (scenarios.length <= 1) return;
+    const remaining = scenarios.filter(scenario => scenario.id !== id);
+
+    setScenarios(remaining);
+    setComparedScenarioIds(prev => prev.filter(comparedId => comparedId !== id));
+    if (id === activeScenarioId) {
+      setActiveScenarioId(remaining[0].id);
+      setInput(remaining[0].input);
+      updateNextIds(remaining[0].input);
+    }
+  };
+
+  // 比較対象の切り替え（最大件数まで）
+  const toggleComparedScenario = (id: string) => {
+    setComparedScenarioIds(prev => {
+      if (prev.includes(id)) return prev.filter(comparedId => comparedId !== id);
+      if (prev.length >= MAX_COMPARED_SCENARIOS) return prev;
+      return [...prev, id];
+    });
+  };
+
   // 株価取得関数（共通化）
   const fetchStockPricesForSymbols = async (symbols: string[]) => {
     if (symbols.length === 0) return;
@@ -449,6 +600,40 @@ function HomeContent() {
     }));
   };
 
+  // 年金種別の変更（公的年金は円建てで、受給開始年齢を繰上げ・繰下げ可能な範囲に丸める）
+  const updatePensionKind = (id: string, kind: PensionKind) => {
+    setInput(prev => ({
+      ...prev,
+      pensionPlans: prev.pensionPlans.map(plan => {
+        if (plan.id !== id) return plan;
+        const updated: PensionPlan = { ...plan, kind };
+        if (isPublicPension(updated)) {
+          updated.currency = 'JPY';
+          updated.startAge = clampClaimingAge(plan.startAge);
+          updated.name = plan.name || PENSION_KIND_LABELS[kind];
+        }
+        return updated;
+      })
+    }));
+  };
+
+  const updatePensionIndexation = (id: string, indexation: PensionIndexation) => {
+    setInput(prev => ({
+      ...prev,
+      pensionPlans: prev.pensionPlans.map(plan =>
+        plan.id === id ? { ...plan, indexation } : plan
+      )
+    }));
+  };
+
+  // 米ドル建て年金のCOLA（空欄の場合はインフレ率に連動）
+  const updateUsPensionCola = (value: string) => {
+    setInput(prev => ({
+      ...prev,
+      usPensionCola: value === '' ? undefined : Number(value)
+    }));
+  };
+
   const removePensionPlan = (id: string) => {
     setInput(prev => ({
       ...prev,
@@ -480,6 +665,15 @@ function HomeContent() {
     }));
   };
 
+  const updateSalaryGrowth = (id: string, growth: SalaryGrowthModel) => {
+    setInput(prev => ({
+      ...prev,
+      salaryPlans: prev.salaryPlans.map(plan =>
+        plan.id === id ? { ...plan, growth } : plan
+      )
+    }));
+  };
+
   const removeSalaryPlan = (id: string) => {
     setInput(prev => ({
       ...prev,
@@ -571,6 +765,46 @@ function HomeContent() {
     }));
   };
 
+  // 配偶者の更新（undefinedの場合は本人のみで計算）
+  const updateSpouse = (spouse: HouseholdMember | undefined) => {
+    setInput(prev => ({ ...prev, spouse }));
+  };
+
+  // 想定寿命時点に残す資産の目標の更新（undefinedの場合は資産が尽きないこと）
+  const updateTerminalWealthGoal = (terminalWealthGoal: TerminalWealthGoal | undefined) => {
+    setInput(prev => ({ ...prev, terminalWealthGoal }));
+  };
+
+  // FIRE達成年齢の探索設定の更新（undefinedの場合は本人の最も高い手取り年収の給与プランを60歳まで調整）
+  const updateRetirementSearch = (retirementSearch: RetirementSearchSettings | undefined) => {
+    setInput(prev => ({ ...prev, retirementSearch }));
+  };
+
+  // FIREの種類ごとの設定の更新
+  const updateFireVariants = (fireVariants: FireVariantSettings) => {
+    setInput(prev => ({ ...prev, fireVariants }));
+  };
+
+  // 法定相続人の数の更新（undefinedの場合は相続税を概算しない）
+  const updateHeirs = (heirs: number | undefined) => {
+    setInput(prev => ({ ...prev, heirs }));
+  };
+
+  // 生命保険（遺族シナリオの死亡保険金）の更新
+  const updateLifeInsurancePolicies = (lifeInsurancePolicies: LifeInsurancePolicy[]) => {
+    setInput(prev => ({ ...prev, lifeInsurancePolicies }));
+  };
+
+  // 退職後の社会保険料設定の更新
+  const updatePostRetirementInsurance = (postRetirementInsurance: PostRetirementInsuranceSettings) => {
+    setInput(prev => ({ ...prev, postRetirementInsurance }));
+  };
+
+  // iDeCoの一時金受取設定の更新（undefinedの場合は必要に応じて取り崩す）
+  const updateIdecoLumpSum = (idecoLumpSum: IdecoLumpSumSettings | undefined) => {
+    setInput(prev => ({ ...prev, idecoLumpSum }));
+  };
+
   const removeSpecialIncome = (id: string) => {
     setInput(prev => ({
       ...prev,
@@ -819,6 +1053,47 @@ function HomeContent() {
     }));
   };
 
+  // 取り崩し戦略の更新
+  const updateWithdrawalStrategy = (field: keyof WithdrawalStrategy, value: string | number) => {
+    setInput(prev => ({
+      ...prev,
+      withdrawalStrategy: {
+        type: prev.withdrawalStrategy?.type ?? 'lowest-return-first',
+        ...prev.withdrawalStrategy,
+        [field]: value
+      }
+    }));
+  };
+
+  // 計算単位の更新
+  const updateSimulationResolution = (resolution: SimulationResolution) => {
+    setInput(prev => ({ ...prev, simulationResolution: resolution }));
+  };
+
+  // 目標配分・リバランス設定の更新
+  const updateTargetHoldings = (holdings: AssetHolding[]) => {
+    setInput(prev => ({ ...prev, assetHoldings: holdings }));
+  };
+
+  const updateAssetClassTargets = (targets: Partial<Record<AssetType, number>>) => {
+    setInput(prev => ({ ...prev, assetClassTargets: targets }));
+  };
+
+  const updateRebalancing = (settings: RebalancingSettings) => {
+    setInput(prev => ({ ...prev, rebalancing: settings }));
+  };
+
+  const updateGlidePath = (glidePath: GlidePathPoint[]) => {
+    setInput(prev => ({ ...prev, glidePath }));
+  };
+
+  // 比較する取り崩し戦略の切り替え
+  const toggleComparedStrategy = (type: WithdrawalStrategyType) => {
+    setComparedStrategies(prev =>
+      prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]
+    );
+  };
+
   // 総資産額を計算（統一関数を使用）
   const calculateTotalAssets = useCallback(() => {
     return calculateTotalAssetsUnified(input.assetHoldings, exchangeRate, 'manyen');
@@ -941,10 +1216,40 @@ function HomeContent() {
         );
       }
 
+      // 予算を設定している場合は予算から支出区間を作り直す
+      if ((field === 'currentAge' || field === 'lifeExpectancy') && updated.expenseBudget && isBudgetActive(updated.expenseBudget)) {
+        updated.expenseSegments = createExpenseSegmentsFromBudget(updated.expenseBudget, updated.currentAge, updated.lifeExpectancy);
+      }
+
       return updated;
     });
   };
 
+  // 予算の変更（支出項目がある場合は予算から支出区間を作成）
+  const handleExpenseBudgetChange = (budget: ExpenseBudget | undefined) => {
+    setInput(prev => {
+      // 予算から作成する前に入力していた支出区間
+      const manualSegments = isBudgetActive(prev.expenseBudget)
+        ? prev.expenseBudget?.manualSegments ?? prev.expenseSegments
+        : prev.expenseSegments;
+
+      // 支出項目がない・予算の設定をやめた場合は入力していた支出区間に戻す
+      if (!budget || !isBudgetActive(budget)) {
+        return {
+          ...prev,
+          expenseBudget: budget && { ...budget, manualSegments: undefined },
+          expenseSegments: fitExpenseSegments(manualSegments, prev.currentAge, prev.lifeExpectancy),
+        };
+      }
+
+      return {
+        ...prev,
+        expenseBudget: { ...budget, manualSegments },
+        expenseSegments: createExpenseSegmentsFromBudget(budget, prev.currentAge, prev.lifeExpectancy),
+      };
+    });
+  };
+
 
   // エクスポート機能
   const handleExport = () => {
@@ -975,20 +1280,8 @@ function HomeContent() {
 
       setInput(importedData);
 
-      // nextAssetIdを適切に設定
-      setNextAssetId(calculateNextAssetId(importedData.assetHoldings));
-      // nextLoanIdを適切に設定
-      setNextLoanId(calculateNextLoanId(importedData.loans || []));
-      // nextPensionIdを適切に設定
-      setNextPensionId(calculateNextPensionId(importedData.pensionPlans || []));
-      // nextSalaryIdを適切に設定
-      setNextSalaryId(calculateNextSalaryId(importedData.salaryPlans || []));
-      // nextSpecialExpenseIdを適切に設定
-      setNextSpecialExpenseId(calculateNextSpecialExpenseId(importedData.specialExpenses || []));
-      // nextSpecialIncomeIdを適切に設定
-      setNextSpecialIncomeId(calculateNextSpecialIncomeId(importedData.specialIncomes || []));
-      // nextChildIdを適切に設定
-      setNextChildId(calculateNextChildId(importedData.children || []));
+      // 各項目の次のIDを適切に設定
+      updateNextIds(importedData);
 
 
       showSuccess('データを正常にインポートしました');
@@ -1001,60 +1294,66 @@ function HomeContent() {
     event.target.value = '';
   };
 
+  // 計算用の入力を作成（子供の支出を統合し、為替レートを反映）
+  const buildCalculationInput = useCallback((source: FireCalculationInput): FireCalculationInput => {
+    // 子供の支出を統合し、childAgeをtargetAgeに変換
+    const currentYear = new Date().getFullYear();
+    const allChildExpenses = (source.children || []).flatMap(child =>
+      child.expenses.map(expense => {
+        // childAgeが設定されている場合は親の年齢に変換
+        if (expense.childAge !== undefined && expense.childId) {
+          const parentAge = calculateParentAgeFromChildAge(
+            expense.childAge,
+            child.birthYear,
+            currentYear,
+            source.currentAge
+          );
+          return { ...expense, targetAge: parentAge };
+        }
+        return expense;
+      })
+    );
+
+    // 複数年支出を展開して統合（こちらも同様に変換される）
+    const expandedMultiYearExpenses = expandAllChildrenMultiYearExpenses(
+      source.children || [],
+      currentYear,
+      source.currentAge
+    ).map(expense => {
+      // childAgeが設定されている場合は親の年齢に変換
+      if (expense.childAge !== undefined && expense.childId) {
+        const child = source.children?.find(c => c.id === expense.childId);
+        if (child) {
+          const parentAge = calculateParentAgeFromChildAge(
+            expense.childAge,
+            child.birthYear,
+            currentYear,
+            source.currentAge
+          );
+          return { ...expense, targetAge: parentAge };
+        }
+      }
+      return expense;
+    });
+
+    const combinedExpenses = [...source.specialExpenses, ...allChildExpenses, ...expandedMultiYearExpenses];
+    return {
+      ...source,
+      specialExpenses: combinedExpenses,
+      exchangeRate: exchangeRate
+    };
+  }, [exchangeRate]);
+
   // リアルタイム計算：入力値が変更されたら自動的に再計算
   const results = useMemo(() => {
     // 為替レート読み込み中はnullを返す
     if (exchangeRateLoading) return null;
 
     try {
-      // 子供の支出を統合し、childAgeをtargetAgeに変換
-      const currentYear = new Date().getFullYear();
-      const allChildExpenses = (input.children || []).flatMap(child =>
-        child.expenses.map(expense => {
-          // childAgeが設定されている場合は親の年齢に変換
-          if (expense.childAge !== undefined && expense.childId) {
-            const parentAge = calculateParentAgeFromChildAge(
-              expense.childAge,
-              child.birthYear,
-              currentYear,
-              input.currentAge
-            );
-            return { ...expense, targetAge: parentAge };
-          }
-          return expense;
-        })
-      );
-
-      // 複数年支出を展開して統合（こちらも同様に変換される）
-      const expandedMultiYearExpenses = expandAllChildrenMultiYearExpenses(
-        input.children || [],
-        currentYear,
-        input.currentAge
-      ).map(expense => {
-        // childAgeが設定されている場合は親の年齢に変換
-        if (expense.childAge !== undefined && expense.childId) {
-          const child = input.children?.find(c => c.id === expense.childId);
-          if (child) {
-            const parentAge = calculateParentAgeFromChildAge(
-              expense.childAge,
-              child.birthYear,
-              currentYear,
-              input.currentAge
-            );
-            return { ...expense, targetAge: parentAge };
-          }
-        }
-        return expense;
-      });
-
-      const combinedExpenses = [...input.specialExpenses, ...allChildExpenses, ...expandedMultiYearExpenses];
+      const calculationInput = buildCalculationInput(input);
 
       // FIRE計算実行（為替レートを含む）
-      const fireResult = FireCalculator.calculateFire({
-        ...input,
-        specialExpenses: combinedExpenses,
-        exchangeRate: exchangeRate
-      });
+      const fireResult = FireCalculator.calculateFire(calculationInput);
 
       // チャート用データに変換
       const chartData: ChartDataPoint[] = fireResult.projections.map(projection => ({
@@ -1079,35 +1378,182 @@ function HomeContent() {
         fireProgress,
         yearsToFire: fireResult.yearsToFire,
         monthlyDeficit: fireResult.monthlyShortfall,
+        terminalWealthTarget: input.terminalWealthGoal ? fireResult.terminalWealthTarget : undefined,
+        projectedTerminalWealth: fireResult.projectedAssets,
+        inheritanceTax: input.heirs ? fireResult.inheritanceTax : undefined,
+        maxWorkingAge: input.retirementSearch?.maxWorkingAge ?? DEFAULT_MAX_WORKING_AGE,
+        adjustedRetirementAges: fireResult.adjustedSalaryPlans.map(plan => ({
+          name: `${plan.planName || '未設定'}${plan.owner === 'spouse' ? '（配偶者）' : ''}`,
+          endAge: plan.endAge,
+        })),
+        variants: showFireVariants ? calculateFireVariants(calculationInput, fireResult) : undefined,
       };
 
-      // 年次詳細データを計算
-      const yearlyDetails = FireCalculator.calculateYearlyDetails({
-        ...input,
-        specialExpenses: combinedExpenses,
-        exchangeRate: exchangeRate
-      });
+      // 年次詳細データ・月次詳細データ（月次計算の場合のみ）はFIRE計算の資産推移を再利用
+      const { yearlyDetails, monthlyDetails } = fireResult;
+
+      // 取り崩し戦略の比較系列（現在の戦略の取り崩し率などの設定を引き継ぐ）
+      const strategyComparisons: ProjectionSeries[] = FireCalculator.compareWithdrawalStrategies(
+        calculationInput,
+        comparedStrategies.map(type => ({ ...input.withdrawalStrategy, type }))
+      ).map(({ strategy, details }) => ({
+        name: WITHDRAWAL_STRATEGY_LABELS[strategy.type],
+        data: details.map(detail => ({
+          year: detail.year,
+          age: detail.age,
+          assets: detail.totalAssets,
+          expenses: Math.abs(detail.expenses),
+          netWorth: detail.totalAssets,
+          fireAchieved: false,
+        })),
+      }));
+
+      // 公的年金の受給開始年齢の損益分岐分析（運用利回りは保有資産の税引後の期待年利回りの加重平均）
+      const totalHoldingsValue = calculateTotalAssetsUnified(input.assetHoldings, exchangeRate);
+      const portfolioReturn = totalHoldingsValue > 0
+        ? input.assetHoldings.reduce((sum, holding) =>
+            sum + getAfterTaxExpectedReturn(holding, 5) * calculateTotalAssetsUnified([holding], exchangeRate), 0
+          ) / totalHoldingsValue
+        : 0;
+      const pensionAnalyses = input.pensionPlans
+        .filter(plan => isPublicPension(plan) && plan.annualAmount)
+        .map(plan => analyzePensionClaimingAge(plan, {
+          currentAge: input.currentAge,
+          lifeExpectancy: input.lifeExpectancy,
+          portfolioReturn,
+          inflation: createInflationIndex(calculationInput),
+        }));
+
+      // 遺族シナリオ（配偶者がいる場合のみ）
+      const survivorAnalysis = input.spouse && showSurvivorScenario
+        ? analyzeSurvivorScenario(calculationInput, survivorSettings)
+        : null;
+
+      // 逆算（解を反映した資産推移をチャートに表示）
+      const goalSeekResult = showGoalSeek ? solveGoal(calculationInput, goalSeekSettings) : null;
+      const goalSeekChartData: ChartDataPoint[] = (goalSeekResult?.result.projections ?? []).map(projection => ({
+        year: projection.year + new Date().getFullYear(),
+        age: projection.age,
+        assets: projection.assets,
+        expenses: projection.expenses,
+        netWorth: projection.assets,
+        fireAchieved: projection.fireAchieved,
+      }));
 
       return {
         chartData,
         metrics,
         requiredAssets: fireResult.yearsToFire < 0 ? undefined : fireResult.requiredAssets,
         yearlyDetails,
+        monthlyDetails,
+        strategyComparisons,
+        pensionAnalyses,
+        survivorAnalysis,
+        goalSeekResult,
+        goalSeekChartData,
+        goalSeekRequiredAssets: goalSeekResult && goalSeekResult.result.yearsToFire >= 0 ? goalSeekResult.result.requiredAssets : undefined,
+        sensitivityBase: toSensitivityOutcome(fireResult, calculationInput),
+        sensitivityResults: showSensitivity ? runSensitivityAnalysis(calculationInput, sensitivityDeltas) : [],
+        flexibleSpendingAnalysis: showFlexibleSpending ? analyzeFlexibleSpending(calculationInput, yearlyDetails) : null,
       };
     } catch (error) {
       console.error('Calculation error:', error);
       return null;
     }
-  }, [input, exchangeRate, exchangeRateLoading, calculateTotalAssets]);
+  }, [input, exchangeRate, exchangeRateLoading, buildCalculationInput, calculateTotalAssets, showFireVariants, comparedStrategies, showSurvivorScenario, survivorSettings, showGoalSeek, goalSeekSettings, showSensitivity, sensitivityDeltas, showFlexibleSpending]);
+
+  // 表示用の計算結果（現在価値の表示では名目額を換算）
+  const displayedResults = useMemo(() => {
+    if (!results || valueDisplayMode === 'nominal') return results;
+
+    const goalSeekInput = results.goalSeekResult?.input ?? input;
+    return {
+      ...results,
+      chartData: toPresentValueChartData(results.chartData, input),
+      metrics: toPresentValueMetrics(results.metrics, input),
+      requiredAssets: results.requiredAssets === undefined
+        ? undefined
+        : toPresentValue(results.requiredAssets, input, results.metrics.yearsToFire),
+      yearlyDetails: toPresentValueYearlyDetails(results.yearlyDetails, input),
+      strategyComparisons: results.strategyComparisons.map(series => ({
+        ...series,
+        data: toPresentValueChartData(series.data, input),
+      })),
+      goalSeekChartData: toPresentValueChartData(results.goalSeekChartData, goalSeekInput),
+      goalSeekRequiredAssets: results.goalSeekResult && results.goalSeekRequiredAssets !== undefined
+        ? toPresentValue(results.goalSeekRequiredAssets, goalSeekInput, results.goalSeekResult.result.yearsToFire)
+        : undefined,
+    };
+  }, [results, valueDisplayMode, input]);
+
+  // シナリオ比較（編集中のシナリオは現在の入力で計算）
+  const scenarioComparison = useMemo(() => {
+    if (exchangeRateLoading) return null;
+
+    const compared = scenarios
+      .filter(scenario => comparedScenarioIds.includes(scenario.id))
+      .map(scenario => scenario.id === activeScenarioId ? { ...scenario, input } : scenario);
+    if (compared.length < MIN_COMPARED_SCENARIOS) return null;
+
+    try {
+      const comparison = compareScenarios(compared, compared.map(scenario => buildCalculationInput(scenario.input)));
+      const toChartData = (index: number): ChartDataPoint[] => {
+        const chartData = comparison.results[index].projections.map(projection => ({
+          year: projection.year + new Date().getFullYear(),
+          age: projection.age,
+          assets: projection.assets,
+          expenses: projection.expenses,
+          netWorth: projection.assets,
+          fireAchieved: projection.fireAchieved,
+        }));
+        return valueDisplayMode === 'real' ? toPresentValueChartData(chartData, compared[index].input) : chartData;
+      };
+
+      return {
+        comparison,
+        chartData: toChartData(0),
+        series: compared.slice(1).map((scenario, idx): ProjectionSeries => ({
+          // 同名のシナリオがあっても系列を区別できるように番号を付ける
+          name: compared.some((other, otherIdx) => otherIdx !== idx + 1 && other.name === scenario.name)
+            ? `${scenario.name || '未設定'}（${idx + 2}）`
+            : scenario.name || '未設定',
+          data: toChartData(idx + 1),
+        })),
+      };
+    } catch (error) {
+      console.error('Scenario comparison error:', error);
+      return null;
+    }
+  }, [scenarios, comparedScenarioIds, activeScenarioId, input, exchangeRateLoading, buildCalculationInput, valueDisplayMode]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-green-50">
       {/* ヘッダー */}
       <header className="bg-white shadow-sm">
-        <div className="max-w-8xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+        <div className="max-w-8xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
           <h1 className="text-3xl font-bold text-gray-900">
             🔥 flickercast
           </h1>
+          {/* 金額の表示方法（チャート・FIRE達成状況・年次詳細データに適用） */}
+          <div className="flex items-center gap-2">
+            {(Object.keys(VALUE_DISPLAY_MODE_LABELS) as ValueDisplayMode[]).map(mode => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setValueDisplayMode(mode)}
+                className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                  valueDisplayMode === mode
+                    ? 'bg-blue-100 text-blue-700 border-blue-500'
+                    : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {VALUE_DISPLAY_MODE_LABELS[mode]}
+              </button>
+            ))}
+            <Tooltip content="現在価値では、将来の金額を計画のインフレ率で割り引いて今日の円の価値で表示します。" position="left">
+              <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+            </Tooltip>
+          </div>
         </div>
       </header>
 
@@ -1118,6 +1564,20 @@ function HomeContent() {
             <div className="bg-white rounded-lg shadow-md p-6 sticky top-4">
               
               <div className="space-y-6">
+                {/* シナリオ管理セクション */}
+                <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                  <ScenarioManager
+                    scenarios={scenarios}
+                    activeScenarioId={activeScenarioId}
+                    comparedScenarioIds={comparedScenarioIds}
+                    onSelect={switchScenario}
+                    onClone={cloneScenario}
+                    onRename={renameScenario}
+                    onDelete={deleteScenario}
+                    onToggleCompare={toggleComparedScenario}
+                  />
+                </div>
+
                 {/* 基本設定セクション */}
                 <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
                   <h3 className="text-sm font-semibold text-blue-800 mb-3 flex items-center gap-2">
@@ -1181,6 +1641,97 @@ function HomeContent() {
                         </span>
                       </div>
                     </div>
+                    <div>
+                      <div className="flex items-center gap-2 h-6">
+                        <Label htmlFor="withdrawalStrategy">取り崩し戦略</Label>
+                        <Tooltip content="支出が収入を上回った年に、どの資産からいくら取り崩すかを決めます。定率取り崩し・ガイトン・クリンガー・VPWは資産額に応じて取り崩し額が変わり、不足分は現金のマイナスとして表示されます。" position="right">
+                          <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+                        </Tooltip>
+                      </div>
+                      <select
+                        id="withdrawalStrategy"
+                        value={input.withdrawalStrategy?.type ?? 'lowest-return-first'}
+                        onChange={(e) => updateWithdrawalStrategy('type', e.target.value)}
+                        className="w-full h-10 px-2 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                      >
+                        {(Object.keys(WITHDRAWAL_STRATEGY_LABELS) as WithdrawalStrategyType[]).map(type => (
+                          <option key={type} value={type}>{WITHDRAWAL_STRATEGY_LABELS[type]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {(input.withdrawalStrategy?.type === 'constant-percentage' || input.withdrawalStrategy?.type === 'guyton-klinger') && (
+                      <div>
+                        <Label htmlFor="withdrawalRate">取り崩し率</Label>
+                        <div className="relative">
+                          <Input
+                            id="withdrawalRate"
+                            type="number"
+                            value={input.withdrawalStrategy.withdrawalRate ?? 4}
+                            onChange={(e) => updateWithdrawalStrategy('withdrawalRate', Number(e.target.value))}
+                            min="0"
+                            max="20"
+                            step="0.1"
+                            className="pr-8"
+                          />
+                          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                            %
+                          </span>
+                        </div>
+                      </div>
+                    )}
+                    <div>
+                      <div className="flex items-center gap-2 h-6">
+                        <Label htmlFor="simulationResolution">計算単位</Label>
+                        <Tooltip content="月次では利回り・収入・支出・ローン返済を毎月反映し、誕生月に年齢が上がります。退職や年金受給開始が年の途中になる場合に精度が上がります。" position="left">
+                          <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+                        </Tooltip>
+                      </div>
+                      <select
+                        id="simulationResolution"
+                        value={input.simulationResolution ?? 'yearly'}
+                        onChange={(e) => updateSimulationResolution(e.target.value as SimulationResolution)}
+                        className="w-full h-10 px-2 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                      >
+                        <option value="yearly">年次</option>
+                        <option value="monthly">月次</option>
+                      </select>
+                    </div>
+                    {input.simulationResolution === 'monthly' && (
+                      <div>
+                        <Label htmlFor="birthMonth">誕生月</Label>
+                        <select
+                          id="birthMonth"
+                          value={input.birthMonth ?? new Date().getMonth() + 1}
+                          onChange={(e) => handleInputChange('birthMonth', Number(e.target.value))}
+                          className="w-full h-10 px-2 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                        >
+                          {Array.from({ length: 12 }, (_, i) => i + 1).map(month => (
+                            <option key={month} value={month}>{month}月</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* インフレ率の推移 */}
+                  <div className="mt-4">
+                    <InflationScheduleForm
+                      schedule={input.inflationSchedule}
+                      inflationRate={input.inflationRate}
+                      currentAge={input.currentAge}
+                      lifeExpectancy={input.lifeExpectancy}
+                      onScheduleChange={(schedule) => setInput(prev => ({ ...prev, inflationSchedule: schedule }))}
+                    />
+                  </div>
+
+                  {/* 想定寿命時点に残す資産 */}
+                  <div className="mt-4">
+                    <TerminalWealthGoalForm
+                      goal={input.terminalWealthGoal}
+                      heirs={input.heirs}
+                      onGoalChange={updateTerminalWealthGoal}
+                      onHeirsChange={updateHeirs}
+                    />
                   </div>
 
                   {/* 子供情報 */}
@@ -1350,9 +1901,10 @@ function HomeContent() {
                   <div className="space-y-3">
                     {/* ヘッダー行（給与プランが存在し、削除モードでない場合のみ表示） */}
                     {input.salaryPlans.length > 0 && !isSalaryDeleteMode && (
-                      <div className="grid grid-cols-[2fr_1.2fr_1fr_1fr] gap-3 mb-2">
+                      <div className="grid grid-cols-[2fr_1.2fr_1fr_1fr_1fr] gap-3 mb-2">
                         <Label className="text-sm font-medium">会社名</Label>
-                        <Label className="text-sm font-medium">手取り年収[万円]</Label>
+                        <Label className="text-sm font-medium">年収[万円]</Label>
+                        <Label className="text-sm font-medium"></Label>
                         <Label className="text-sm font-medium">開始年齢</Label>
                         <Label className="text-sm font-medium">退職年齢</Label>
                       </div>
@@ -1375,8 +1927,9 @@ function HomeContent() {
                           </span>
                         </div>
                       ) : (
-                        // 通常モード: すべての入力フィールドを表示（ラベルなし）
-                        <div key={plan.id} className="grid grid-cols-[2fr_1.2fr_1fr_1fr] gap-3">
+                        // 通常モード: すべての入力フィールドを表示（ラベルなし）、2行目に昇給モデル
+                        <div key={plan.id} className="space-y-1">
+                        <div className="grid grid-cols-[2fr_1.2fr_1fr_1fr_1fr] gap-3">
                           <Input
                             placeholder="トヨタ自動車"
                             value={plan.name}
@@ -1391,6 +1944,14 @@ function HomeContent() {
                             step="1"
                             noSpinner
                           />
+                          <select
+                            value={plan.amountType || 'net'}
+                            onChange={(e) => updateSalaryPlan(plan.id, 'amountType', e.target.value)}
+                            className="h-10 px-1 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0"
+                          >
+                            <option value="net">手取り</option>
+                            <option value="gross">額面</option>
+                          </select>
                           <Input
                             type="number"
                             placeholder="38"
@@ -1410,6 +1971,12 @@ function HomeContent() {
                             step="1"
                           />
                         </div>
+                        <SalaryGrowthInput
+                          growth={plan.growth}
+                          baseAge={Math.max(input.currentAge, plan.startAge)}
+                          onGrowthChange={(growth) => updateSalaryGrowth(plan.id, growth)}
+                        />
+                        </div>
                       )
                     )}
                       </div>
@@ -1467,8 +2034,9 @@ function HomeContent() {
                           </span>
                         </div>
                       ) : (
-                        // 通常モード: すべての入力フィールドを表示（ラベルなし）
-                        <div key={plan.id} className="grid grid-cols-[1.5fr_1.5fr_1fr_1fr_1fr] gap-3">
+                        // 通常モード: すべての入力フィールドを表示（ラベルなし）、2行目に年金種別
+                        <div key={plan.id} className="space-y-1">
+                        <div className="grid grid-cols-[1.5fr_1.5fr_1fr_1fr_1fr] gap-3">
                           <Input
                             placeholder="国民年金"
                             value={plan.name}
@@ -1486,6 +2054,7 @@ function HomeContent() {
                           <select
                             value={plan.currency || 'JPY'}
                             onChange={(e) => updatePensionPlan(plan.id, 'currency', e.target.value)}
+                            disabled={isPublicPension(plan)}
                             className="h-10 px-1 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0"
                           >
                             <option value="JPY">JPY</option>
@@ -1496,8 +2065,8 @@ function HomeContent() {
                             placeholder="65"
                             value={plan.startAge}
                             onChange={(e) => updatePensionPlan(plan.id, 'startAge', Number(e.target.value))}
-                            min="0"
-                            max={plan.endAge}
+                            min={isPublicPension(plan) ? EARLIEST_CLAIMING_AGE : 0}
+                            max={isPublicPension(plan) ? Math.min(plan.endAge, LATEST_CLAIMING_AGE) : plan.endAge}
                             step="1"
                           />
                           <Input
@@ -1510,11 +2079,130 @@ function HomeContent() {
                             step="1"
                           />
                         </div>
+                        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                          <span>種別</span>
+                          <select
+                            value={plan.kind ?? 'other'}
+                            onChange={(e) => updatePensionKind(plan.id, e.target.value as PensionKind)}
+                            className="h-8 px-1 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0"
+                          >
+                            {(Object.keys(PENSION_KIND_LABELS) as PensionKind[]).map(kind => (
+                              <option key={kind} value={kind}>{PENSION_KIND_LABELS[kind]}</option>
+                            ))}
+                          </select>
+                          <span>改定</span>
+                          <select
+                            value={plan.indexation?.type ?? 'cpi'}
+                            onChange={(e) => updatePensionIndexation(plan.id, { ...plan.indexation, type: e.target.value as PensionIndexationType })}
+                            className="h-8 px-1 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0"
+                          >
+                            {(Object.keys(PENSION_INDEXATION_LABELS) as PensionIndexationType[]).map(type => (
+                              <option key={type} value={type}>{PENSION_INDEXATION_LABELS[type]}</option>
+                            ))}
+                          </select>
+                          {plan.indexation?.type === 'macro-slide' && (
+                            <>
+                              <div className="relative w-24">
+                                <Input
+                                  type="number"
+                                  value={plan.indexation.slideRate ?? DEFAULT_SLIDE_RATE}
+                                  onChange={(e) => updatePensionIndexation(plan.id, { type: 'macro-slide', ...plan.indexation, slideRate: Number(e.target.value) })}
+                                  min="0"
+                                  step="0.1"
+                                  className="h-8 pr-10"
+                                  noSpinner
+                                />
+                                <span className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-xs">
+                                  %/年
+                                </span>
+                              </div>
+                              <div className="relative w-20">
+                                <Input
+                                  type="number"
+                                  value={plan.indexation.slideYears ?? DEFAULT_SLIDE_YEARS}
+                                  onChange={(e) => updatePensionIndexation(plan.id, { type: 'macro-slide', ...plan.indexation, slideYears: Number(e.target.value) })}
+                                  min="0"
+                                  step="1"
+                                  className="h-8 pr-10"
+                                  noSpinner
+                                />
+                                <span className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-xs">
+                                  年間
+                                </span>
+                              </div>
+                            </>
+                          )}
+                          {isPublicPension(plan) && (
+                            <span className="text-xs text-gray-500">
+                              年受給額は65歳開始時の金額。{plan.startAge}歳開始で
+                              {((calculateClaimingAdjustmentRate(plan.startAge) - 1) * 100).toFixed(1)}%
+                              （年{((plan.annualAmount ?? 0) * calculateClaimingAdjustmentRate(plan.startAge) / 10000).toFixed(1)}万円）
+                            </span>
+                          )}
+                        </div>
+                        </div>
                       )
                     )}
+
+                    {/* 米ドル建て年金がある場合のみCOLAを設定 */}
+                    {input.pensionPlans.some(plan => plan.currency === 'USD') && !isPensionDeleteMode && (
+                      <div className="flex items-center gap-2 text-sm text-gray-600">
+                        <span>米ドル建て年金のCOLA</span>
+                        <div className="relative w-24">
+                          <Input
+                            type="number"
+                            value={input.usPensionCola ?? ''}
+                            placeholder={input.inflationRate.toString()}
+                            onChange={(e) => updateUsPensionCola(e.target.value)}
+                            step="0.1"
+                            className="h-8 pr-10"
+                            noSpinner
+                          />
+                          <span className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-xs">
+                            %/年
+                          </span>
+                        </div>
+                        <span className="text-xs text-gray-500">空欄の場合はインフレ率に連動</span>
+                      </div>
+                    )}
                       </div>
                     </div>
 
+                    <div className="mt-6">
+                      <SpouseForm
+                        spouse={input.spouse}
+                        primaryAge={input.currentAge}
+                        primaryLifeExpectancy={input.lifeExpectancy}
+                        onSpouseChange={updateSpouse}
+                      />
+                    </div>
+
+                    <div className="mt-6">
+                      <RetirementSearchForm
+                        settings={input.retirementSearch}
+                        salaryPlans={input.salaryPlans}
+                        spouseSalaryPlans={input.spouse?.salaryPlans}
+                        onSettingsChange={updateRetirementSearch}
+                      />
+                    </div>
+
+                    <div className="mt-6">
+                      <FireVariantForm
+                        settings={input.fireVariants}
+                        maxWorkingAge={input.retirementSearch?.maxWorkingAge ?? DEFAULT_MAX_WORKING_AGE}
+                        showVariants={showFireVariants}
+                        onSettingsChange={updateFireVariants}
+                        onShowVariantsChange={setShowFireVariants}
+                      />
+                    </div>
+
+                    <div className="mt-6">
+                      <PostRetirementInsuranceForm
+                        settings={input.postRetirementInsurance}
+                        onSettingsChange={updatePostRetirementInsurance}
+                      />
+                    </div>
+
                     <div className="mt-6">
                       <div className="flex justify-between items-center mb-3">
                         <Label>金融資産管理</Label>
@@ -1542,12 +2230,19 @@ function HomeContent() {
                   <div className="space-y-2">
                     {/* ヘッダー行（金融資産が存在し、削除モードでない場合のみ表示） */}
                     {input.assetHoldings.length > 0 && !isDeleteMode && (
-                      <div className="grid grid-cols-[1.5fr_1fr_1fr_1fr_1fr] gap-2 mb-2">
+                      <div className="grid grid-cols-[1.5fr_1fr_1fr_1fr_1fr_1fr_1.2fr] gap-2 mb-2">
                         <Label className="text-sm font-medium">銘柄名</Label>
                         <Label className="text-sm font-medium">数量</Label>
                         <Label className="text-sm font-medium">単価</Label>
+                        <Label className="text-sm font-medium">取得単価</Label>
                         <Label className="text-sm font-medium"></Label>
                         <Label className="text-sm font-medium">利回り</Label>
+                        <div className="flex items-center gap-1">
+                          <Label className="text-sm font-medium">口座</Label>
+                          <Tooltip content="特定口座は売却益に20.315%の税金がかかり、NISAは非課税、iDeCoは60歳まで取り崩せません。口座を選択していない銘柄は、口座種別を導入する前のデータとの互換性のため課税なしで計算します。" position="left">
+                            <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+                          </Tooltip>
+                        </div>
                       </div>
                     )}
                     
@@ -1569,7 +2264,7 @@ function HomeContent() {
                         </div>
                       ) : (
                         // 通常モード: 全ての入力欄を表示
-                        <div key={holding.id} className="grid grid-cols-[1.5fr_1fr_1fr_1fr_1fr] gap-2 items-center">
+                        <div key={holding.id} className="grid grid-cols-[1.5fr_1fr_1fr_1fr_1fr_1fr_1.2fr] gap-2 items-center">
                           <AutocompleteInput
                             placeholder="AAPL"
                             value={holding.name}
@@ -1595,6 +2290,15 @@ function HomeContent() {
                             step="0.1"
                             noSpinner
                           />
+                          <Input
+                            type="number"
+                            placeholder={holding.pricePerUnit ? String(holding.pricePerUnit) : '120'}
+                            value={holding.acquisitionPrice ?? ''}
+                            onChange={(e) => updateAssetHolding(holding.id, 'acquisitionPrice', Number(e.target.value))}
+                            min="0"
+                            step="0.1"
+                            noSpinner
+                          />
                           <select
                             value={holding.currency || 'JPY'}
                             onChange={(e) => updateAssetHolding(holding.id, 'currency', e.target.value)}
@@ -1619,6 +2323,17 @@ function HomeContent() {
                               %
                             </span>
                           </div>
+                          <select
+                            value={holding.accountType ?? ''}
+                            onChange={(e) => updateAssetHolding(holding.id, 'accountType', e.target.value)}
+                            className="h-10 px-1 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0"
+                          >
+                            {!holding.accountType && <option value="" disabled>未選択</option>}
+                            <option value="taxable">特定</option>
+                            <option value="nisa-tsumitate">NISAつみたて</option>
+                            <option value="nisa-growth">NISA成長</option>
+                            <option value="ideco">iDeCo</option>
+                          </select>
                         </div>
                       )
                     ))}
@@ -1641,6 +2356,81 @@ function HomeContent() {
                       )}
                     </span>
                       </div>
+
+                    {/* iDeCoの受取方法（iDeCo口座の資産がある場合のみ表示） */}
+                    {input.assetHoldings.some(holding => holding.accountType === 'ideco') && (
+                      <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                        <span>iDeCoの受取</span>
+                        <select
+                          value={input.idecoLumpSum ? 'lump-sum' : 'withdrawal'}
+                          onChange={(e) => updateIdecoLumpSum(e.target.value === 'lump-sum'
+                            ? { age: IDECO_WITHDRAWAL_AGE, enrollmentAge: input.currentAge }
+                            : undefined
+                          )}
+                          className="h-8 px-1 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0"
+                        >
+                          <option value="withdrawal">必要に応じて取り崩し</option>
+                          <option value="lump-sum">一時金</option>
+                        </select>
+                        {input.idecoLumpSum && (
+                          <>
+                            <div className="relative w-20">
+                              <Input
+                                type="number"
+                                value={input.idecoLumpSum.age}
+                                onChange={(e) => updateIdecoLumpSum({ ...input.idecoLumpSum!, age: Number(e.target.value) })}
+                                min={IDECO_WITHDRAWAL_AGE}
+                                max="75"
+                                className="h-8 pr-10"
+                                noSpinner
+                              />
+                              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-xs">
+                                歳
+                              </span>
+                            </div>
+                            <span>加入年齢</span>
+                            <div className="relative w-20">
+                              <Input
+                                type="number"
+                                value={input.idecoLumpSum.enrollmentAge}
+                                onChange={(e) => updateIdecoLumpSum({ ...input.idecoLumpSum!, enrollmentAge: Number(e.target.value) })}
+                                min="20"
+                                max={IDECO_CONTRIBUTION_END_AGE}
+                                className="h-8 pr-10"
+                                noSpinner
+                              />
+                              <span className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-xs">
+                                歳
+                              </span>
+                            </div>
+                            <span className="text-xs text-gray-500">退職金と合わせて退職所得控除を計算</span>
+                          </>
+                        )}
+                      </div>
+                    )}
+                    </div>
+
+                    <div className="mt-6">
+                      <div className="mb-3">
+                        <Label>目標配分・リバランス</Label>
+                      </div>
+                      <RebalancingForm
+                        holdings={input.assetHoldings}
+                        assetClassTargets={input.assetClassTargets}
+                        rebalancing={input.rebalancing}
+                        exchangeRate={exchangeRate}
+                        onHoldingsChange={updateTargetHoldings}
+                        onAssetClassTargetsChange={updateAssetClassTargets}
+                        onRebalancingChange={updateRebalancing}
+                      />
+                      <div className="mt-4">
+                        <GlidePathForm
+                          glidePath={input.glidePath ?? []}
+                          holdings={input.assetHoldings}
+                          currentAge={input.currentAge}
+                          onGlidePathChange={updateGlidePath}
+                        />
+                      </div>
                     </div>
 
 
@@ -1695,8 +2485,9 @@ function HomeContent() {
                           </span>
                         </div>
                       ) : (
-                        // 通常モード: 全ての入力欄を表示
-                        <div key={income.id} className="grid grid-cols-3 gap-2 items-center">
+                        // 通常モード: 全ての入力欄を表示、2行目に種別（退職金の場合は勤続年数）
+                        <div key={income.id} className="space-y-1">
+                        <div className="grid grid-cols-3 gap-2 items-center">
                           <Input
                             placeholder="退職金"
                             value={income.name}
@@ -1727,6 +2518,41 @@ function HomeContent() {
                             </span>
                           </div>
                         </div>
+                        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                          <span>種別</span>
+                          <select
+                            value={income.kind ?? 'other'}
+                            onChange={(e) => updateSpecialIncome(income.id, 'kind', e.target.value)}
+                            className="h-8 px-1 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0"
+                          >
+                            <option value="other">その他</option>
+                            <option value="retirement-allowance">退職金</option>
+                          </select>
+                          {income.kind === 'retirement-allowance' && (
+                            <>
+                              <span>勤続</span>
+                              <div className="relative w-20">
+                                <Input
+                                  type="number"
+                                  value={income.yearsOfService ?? ''}
+                                  placeholder="20"
+                                  onChange={(e) => updateSpecialIncome(income.id, 'yearsOfService', Number(e.target.value))}
+                                  min="0"
+                                  step="1"
+                                  className="h-8 pr-8"
+                                  noSpinner
+                                />
+                                <span className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-xs">
+                                  年
+                                </span>
+                              </div>
+                              <span className="text-xs text-gray-500">
+                                手取り概算 {((income.amount - calculateRetirementAllowanceTax(income.amount, income.yearsOfService ?? 0)) / 10000).toFixed(1)}万円
+                              </span>
+                            </>
+                          )}
+                        </div>
+                        </div>
                       )
                     ))}
                   </div>
@@ -1740,12 +2566,33 @@ function HomeContent() {
                     💸 支出・負債
                   </h3>
                   <div className="space-y-4">
+                    <div>
+                      <ExpenseBudgetForm
+                        budget={input.expenseBudget}
+                        currentAge={input.currentAge}
+                        lifeExpectancy={input.lifeExpectancy}
+                        fireAge={results && results.metrics.yearsToFire >= 0 ? input.currentAge + results.metrics.yearsToFire : undefined}
+                        onBudgetChange={handleExpenseBudgetChange}
+                      />
+                    </div>
+
                     <div>
                       <ExpenseTimeline
                         segments={input.expenseSegments}
                         currentAge={input.currentAge}
                         lifeExpectancy={input.lifeExpectancy}
+                        readOnly={isBudgetActive(input.expenseBudget)}
+                        onSegmentsChange={(segments) => setInput(prev => ({ ...prev, expenseSegments: segments }))}
+                      />
+                    </div>
+
+                    <div>
+                      <ExpenseCategoryForm
+                        segments={input.expenseSegments}
+                        readOnly={isBudgetActive(input.expenseBudget)}
+                        differentials={input.expenseInflationDifferentials}
                         onSegmentsChange={(segments) => setInput(prev => ({ ...prev, expenseSegments: segments }))}
+                        onDifferentialsChange={(differentials) => setInput(prev => ({ ...prev, expenseInflationDifferentials: differentials }))}
                       />
                     </div>
 
@@ -2226,10 +3073,10 @@ function HomeContent() {
 
           {/* 結果表示 */}
           <div className="lg:col-span-2 space-y-8">
-            {results ? (
+            {displayedResults ? (
               <>
                 {/* サマリー */}
-                <FireSummary metrics={results.metrics} />
+                <FireSummary metrics={displayedResults.metrics} valueDisplayMode={valueDisplayMode} />
 
                 {/* チャート */}
                 <div className="bg-white rounded-lg shadow-md p-6">
@@ -2237,12 +3084,217 @@ function HomeContent() {
                     資産推移予測
                   </h2>
                   <FireProjectionChart
-                    data={results.chartData}
-                    targetAmount={results.requiredAssets}
+                    data={displayedResults.chartData}
+                    targetAmount={displayedResults.requiredAssets}
+                    comparisons={displayedResults.strategyComparisons}
                     className="w-full h-96"
                   />
+
+                  {/* 資産配分の推移 */}
+                  {displayedResults.yearlyDetails && (
+                    <div className="mt-6">
+                      <div className="text-sm font-medium text-gray-700 mb-2">資産配分の推移</div>
+                      <AllocationTimelineChart data={displayedResults.yearlyDetails} className="w-full h-64" />
+                    </div>
+                  )}
+
+                  {/* 取り崩し戦略の比較 */}
+                  <div className="mt-4">
+                    <div className="text-sm font-medium text-gray-700 mb-2">取り崩し戦略を比較</div>
+                    <div className="flex flex-wrap gap-2">
+                      {(Object.keys(WITHDRAWAL_STRATEGY_LABELS) as WithdrawalStrategyType[]).map(type => (
+                        <button
+                          key={type}
+                          type="button"
+                          onClick={() => toggleComparedStrategy(type)}
+                          className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                            comparedStrategies.includes(type)
+                              ? 'bg-blue-100 text-blue-700 border-blue-500'
+                              : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+                          }`}
+                        >
+                          {WITHDRAWAL_STRATEGY_LABELS[type]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
+                {/* 年金受給開始年齢の損益分岐 */}
+                {displayedResults.pensionAnalyses.length > 0 && (
+                  <div className="bg-white rounded-lg shadow-md p-6">
+                    <div className="flex items-center gap-2 mb-6">
+                      <h2 className="text-xl font-semibold text-gray-900">
+                        年金受給開始年齢の比較
+                      </h2>
+                      <Tooltip content="割引に使う運用利回りは、現在の保有資産の期待年利回りを評価額で加重平均した値です。特定口座の資産は譲渡益課税を差し引いた利回りを使います。グライドパスやリバランスによる将来の配分の変化は反映していません。" position="left">
+                        <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+                      </Tooltip>
+                    </div>
+                    <div className="space-y-8">
+                      {displayedResults.pensionAnalyses.map(analysis => (
+                        <PensionBreakEvenTable
+                          key={analysis.planId}
+                          analysis={analysis}
+                          currentClaimingAge={input.pensionPlans.find(plan => plan.id === analysis.planId)?.startAge ?? STANDARD_CLAIMING_AGE}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* 逆算 */}
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-xl font-semibold text-gray-900">
+                      逆算
+                    </h2>
+                    <Button
+                      onClick={() => setShowGoalSeek(!showGoalSeek)}
+                      variant="outline"
+                      size="sm"
+                    >
+                      {showGoalSeek ? '🎯 逆算を非表示' : '🎯 逆算を表示'}
+                    </Button>
+                  </div>
+
+                  {showGoalSeek && (
+                    <div className="space-y-6">
+                      <GoalSeekForm
+                        settings={goalSeekSettings}
+                        expenseSegments={input.expenseSegments}
+                        salaryPlans={input.salaryPlans}
+                        onSettingsChange={setGoalSeekSettings}
+                      />
+                      <GoalSeekSummary settings={goalSeekSettings} result={displayedResults.goalSeekResult} />
+                      {displayedResults.goalSeekResult && (
+                        <FireProjectionChart
+                          data={displayedResults.goalSeekChartData}
+                          targetAmount={displayedResults.goalSeekRequiredAssets}
+                          comparisons={[{ name: '現在の計画', data: displayedResults.chartData }]}
+                          className="w-full h-96"
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {/* 支出の柔軟な調整 */}
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-xl font-semibold text-gray-900">
+                      支出の柔軟な調整
+                    </h2>
+                    {input.flexibleSpending && (
+                      <Button
+                        onClick={() => setShowFlexibleSpending(!showFlexibleSpending)}
+                        variant="outline"
+                        size="sm"
+                      >
+                        {showFlexibleSpending ? '📊 効果を非表示' : '📊 効果を表示'}
+                      </Button>
+                    )}
+                  </div>
+                  <div className="space-y-6">
+                    <FlexibleSpendingForm
+                      settings={input.flexibleSpending}
+                      expenseSegments={input.expenseSegments}
+                      onSettingsChange={(settings) => setInput(prev => ({ ...prev, flexibleSpending: settings }))}
+                    />
+                    {displayedResults.flexibleSpendingAnalysis && (
+                      <FlexibleSpendingSummary analysis={displayedResults.flexibleSpendingAnalysis} />
+                    )}
+                  </div>
+                </div>
+
+                {/* シナリオ比較 */}
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <h2 className="text-xl font-semibold text-gray-900 mb-6">
+                    シナリオ比較
+                  </h2>
+                  {scenarioComparison ? (
+                    <div className="space-y-6">
+                      <FireProjectionChart
+                        data={scenarioComparison.chartData}
+                        name={scenarioComparison.comparison.scenarios[0].name || '未設定'}
+                        comparisons={scenarioComparison.series}
+                        className="w-full h-96"
+                      />
+                      <ScenarioComparisonTable comparison={scenarioComparison.comparison} />
+                    </div>
+                  ) : (
+                    <div className="text-sm text-gray-500">
+                      シナリオ欄の「比較」で{MIN_COMPARED_SCENARIOS}〜{MAX_COMPARED_SCENARIOS}件のシナリオを選択すると、資産推移とサマリーを並べて比較できます
+                    </div>
+                  )}
+                </div>
+
+                {/* 感度分析 */}
+                <div className="bg-white rounded-lg shadow-md p-6">
+                  <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-xl font-semibold text-gray-900">
+                      感度分析
+                    </h2>
+                    <Button
+                      onClick={() => setShowSensitivity(!showSensitivity)}
+                      variant="outline"
+                      size="sm"
+                    >
+                      {showSensitivity ? '📊 分析を非表示' : '📊 分析を表示'}
+                    </Button>
+                  </div>
+
+                  {showSensitivity && (
+                    <div className="space-y-6">
+                      <SensitivityForm
+                        deltas={sensitivityDeltas}
+                        metric={sensitivityMetric}
+                        onDeltasChange={setSensitivityDeltas}
+                        onMetricChange={setSensitivityMetric}
+                      />
+                      <TornadoChart
+                        results={displayedResults.sensitivityResults}
+                        base={displayedResults.sensitivityBase}
+                        metric={sensitivityMetric}
+                        maxWorkingAge={displayedResults.metrics.maxWorkingAge ?? DEFAULT_MAX_WORKING_AGE}
+                        className="w-full h-80"
+                      />
+                    </div>
+                  )}
                 </div>
 
+                {/* 遺族シナリオ */}
+                {input.spouse && (
+                  <div className="bg-white rounded-lg shadow-md p-6">
+                    <div className="flex items-center justify-between mb-6">
+                      <h2 className="text-xl font-semibold text-gray-900">
+                        遺族シナリオ
+                      </h2>
+                      <Button
+                        onClick={() => setShowSurvivorScenario(!showSurvivorScenario)}
+                        variant="outline"
+                        size="sm"
+                      >
+                        {showSurvivorScenario ? '📊 試算を非表示' : '📊 試算を表示'}
+                      </Button>
+                    </div>
+
+                    {showSurvivorScenario && (
+                      <div className="space-y-6">
+                        <SurvivorScenarioForm
+                          settings={survivorSettings}
+                          policies={input.lifeInsurancePolicies ?? []}
+                          onSettingsChange={setSurvivorSettings}
+                          onPoliciesChange={updateLifeInsurancePolicies}
+                        />
+                        {displayedResults.survivorAnalysis && (
+                          <SurvivorScenarioSummary analysis={displayedResults.survivorAnalysis} />
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* 年次詳細データ */}
                 <div className="bg-white rounded-lg shadow-md p-6">
                   <div className="flex items-center justify-between mb-6">
@@ -2258,8 +3310,17 @@ function HomeContent() {
                     </Button>
                   </div>
 
-                  {showYearlyDetails && results.yearlyDetails && (
-                    <YearlyDetailTable data={results.yearlyDetails} />
+                  {showYearlyDetails && displayedResults.yearlyDetails && (
+                    <YearlyDetailTable data={displayedResults.yearlyDetails} />
+                  )}
+
+                  {showYearlyDetails && displayedResults.monthlyDetails && (
+                    <div className="mt-8">
+                      <h3 className="text-lg font-semibold text-gray-900 mb-4">
+                        月次詳細データ（最初の3年間）
+                      </h3>
+                      <MonthlyDetailTable data={displayedResults.monthlyDetails} />
+                    </div>
                   )}
 
                   {!showYearlyDetails && (
@@ -0,0 +1,105 @@
+'use client';
+
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { YearlyDetailData } from '@/lib/fire-calculator';
+import { AssetType } from '@/lib/types';
+import { ASSET_CLASS_LABELS } from '@/lib/rebalancing';
+import { ASSET_TYPE_COLORS } from '@/components/charts/asset-allocation-chart';
+import { useIsMobile } from '@/hooks/use-media-query';
+
+interface AllocationTimelineChartProps {
+  data: YearlyDetailData[];
+  className?: string;
+}
+
+export default function AllocationTimelineChart({
+  data,
+  className = "w-full h-64"
+}: AllocationTimelineChartProps) {
+  const isMobile = useIsMobile();
+
+  // 評価額のある資産クラスのみ表示
+  const assetClasses = (Object.keys(ASSET_CLASS_LABELS) as AssetType[]).filter(assetClass =>
+    data.some(row => (row.assetClassBalances[assetClass] ?? 0) > 0)
+  );
+
+  // 各年の資産クラス別構成比（%）
+  const chartData = data.map(row => {
+    const total = assetClasses.reduce((sum, assetClass) => sum + (row.assetClassBalances[assetClass] ?? 0), 0);
+    const point: { year: number; age: number } & Partial<Record<AssetType, number>> = {
+      year: row.year,
+      age: row.age,
+    };
+    assetClasses.forEach(assetClass => {
+      point[assetClass] = total > 0 ? (row.assetClassBalances[assetClass] ?? 0) / total * 100 : 0;
+    });
+    return point;
+  });
+
+  if (assetClasses.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={className}>
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart
+          data={chartData}
+          margin={{
+            top: 5,
+            right: isMobile ? 5 : 10,
+            left: 0,
+            bottom: 5,
+          }}
+        >
+          <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+          <XAxis
+            dataKey="year"
+            type="number"
+            scale="linear"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={(value) => `${value}年`}
+            tick={{ fontSize: isMobile ? 11 : 12 }}
+          />
+          <YAxis
+            domain={[0, 100]}
+            tickFormatter={(value) => `${value}%`}
+            tick={{ fontSize: isMobile ? 11 : 12 }}
+            width={isMobile ? 45 : 55}
+          />
+          <Tooltip
+            formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name]}
+            labelFormatter={(value) => `${value}年 (${chartData.find(d => d.year === value)?.age || 0}歳)`}
+            contentStyle={{
+              backgroundColor: 'rgba(255, 255, 255, 0.95)',
+              border: '1px solid #ccc',
+              borderRadius: '8px'
+            }}
+          />
+          {assetClasses.map(assetClass => (
+            <Area
+              key={assetClass}
+              type="monotone"
+              dataKey={assetClass}
+              stackId="allocation"
+              stroke={ASSET_TYPE_COLORS[assetClass]}
+              fill={ASSET_TYPE_COLORS[assetClass]}
+              fillOpacity={0.6}
+              name={ASSET_CLASS_LABELS[assetClass]}
+            />
+          ))}
+          <Legend wrapperStyle={{ fontSize: isMobile ? 11 : 12 }} />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
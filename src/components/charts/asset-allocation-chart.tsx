@@ -16,7 +16,7 @@ interface AssetAllocationChartProps {
   className?: string;
 }
 
-const ASSET_TYPE_COLORS = {
+export const ASSET_TYPE_COLORS = {
   STOCK: '#3b82f6',
   BOND: '#10b981',
   REAL_ESTATE: '#f59e0b',
@@ -9,29 +9,46 @@ import {
   Tooltip,
   ResponsiveContainer,
   ReferenceLine,
+  Legend,
 } from 'recharts';
 import { ChartDataPoint } from '@/lib/types';
 import { formatCurrency } from '@/lib/utils';
 import { useIsMobile } from '@/hooks/use-media-query';
 
+// 比較用の資産推移系列
+export interface ProjectionSeries {
+  name: string;
+  data: ChartDataPoint[];
+}
+
 interface FireProjectionChartProps {
   data: ChartDataPoint[];
   targetAmount?: number;
+  name?: string; // 主系列の名前（凡例・ツールチップに表示）
+  comparisons?: ProjectionSeries[]; // 比較用に重ねて表示する系列
   className?: string;
 }
 
+// 比較系列の線の色
+const COMPARISON_COLORS = ['#10b981', '#ef4444', '#8b5cf6', '#f97316', '#0ea5e9', '#84cc16', '#ec4899'];
+
 export default function FireProjectionChart({
   data,
   targetAmount,
+  name = '資産',
+  comparisons = [],
   className = "w-full h-96"
 }: FireProjectionChartProps) {
   const isMobile = useIsMobile();
 
-  const formatTooltip = (value: number, name: string) => {
-    if (name === '資産') {
-      return [formatCurrency(value), name];
+  // 比較系列の名前（ツールチップで金額表示するため）
+  const comparisonNames = comparisons.map(series => series.name);
+
+  const formatTooltip = (value: number, seriesName: string) => {
+    if (seriesName === name || comparisonNames.includes(seriesName)) {
+      return [formatCurrency(value), seriesName];
     }
-    return [value, name];
+    return [value, seriesName];
   };
 
   const formatYAxis = (tickItem: number) => {
@@ -102,11 +119,30 @@ export default function FireProjectionChart({
             dataKey="assets"
             stroke="#2563eb"
             strokeWidth={3}
-            name="資産"
+            name={name}
             dot={false}
             activeDot={{ r: 6 }}
           />
-          
+
+          {/* 比較系列 */}
+          {comparisons.map((series, index) => (
+            <Line
+              key={series.name}
+              data={series.data}
+              type="monotone"
+              dataKey="assets"
+              stroke={COMPARISON_COLORS[index % COMPARISON_COLORS.length]}
+              strokeWidth={2}
+              strokeDasharray="6 3"
+              name={series.name}
+              dot={false}
+            />
+          ))}
+
+          {comparisons.length > 0 && (
+            <Legend wrapperStyle={{ fontSize: isMobile ? 11 : 12 }} />
+          )}
+
 
           {/* FIRE目標額のライン */}
           {targetAmount && (
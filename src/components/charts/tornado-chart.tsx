@@ -0,0 +1,77 @@
+'use client';
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+  Legend,
+} from 'recharts';
+import { SensitivityMetric, SensitivityOutcome, SensitivityResult } from '@/lib/types';
+import { getSensitivityMetricValue, rankSensitivityResults, SENSITIVITY_DELTA_UNITS, SENSITIVITY_DRIVER_LABELS } from '@/lib/sensitivity';
+import { formatCurrency } from '@/lib/utils';
+import { useIsMobile } from '@/hooks/use-media-query';
+
+interface TornadoChartProps {
+  results: SensitivityResult[];
+  base: SensitivityOutcome; // 変化させない場合の結果
+  metric: SensitivityMetric;
+  maxWorkingAge: number; // FIRE達成できない場合を上限年齢の翌年として扱う
+  className?: string;
+}
+
+export default function TornadoChart({
+  results,
+  base,
+  metric,
+  maxWorkingAge,
+  className = "w-full h-80"
+}: TornadoChartProps) {
+  const isMobile = useIsMobile();
+  const baseValue = getSensitivityMetricValue(base, metric, maxWorkingAge);
+
+  // 影響の大きい順に、基準からの差分を要因ごとの行にする
+  const data = rankSensitivityResults(results, metric, maxWorkingAge).map(result => ({
+    name: `${SENSITIVITY_DRIVER_LABELS[result.driver]} ±${result.delta}${SENSITIVITY_DELTA_UNITS[result.driver]}`,
+    low: getSensitivityMetricValue(result.low, metric, maxWorkingAge) - baseValue,
+    high: getSensitivityMetricValue(result.high, metric, maxWorkingAge) - baseValue,
+  }));
+
+  const formatValue = (value: number) => {
+    if (metric === 'fire-age') {
+      return `${value > 0 ? '+' : ''}${value}年`;
+    }
+    return `${value > 0 ? '+' : ''}${formatCurrency(value)}`;
+  };
+
+  const formatXAxis = (tickItem: number) => {
+    if (metric === 'fire-age') return `${tickItem}年`;
+    return `${(tickItem / 10000).toFixed(0)}万`;
+  };
+
+  return (
+    <div className={className}>
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart
+          data={data}
+          layout="vertical"
+          stackOffset="sign"
+          margin={{ top: 5, right: isMobile ? 5 : 20, left: 0, bottom: 5 }}
+        >
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis type="number" tickFormatter={formatXAxis} fontSize={isMobile ? 10 : 12} />
+          <YAxis type="category" dataKey="name" width={isMobile ? 100 : 150} fontSize={isMobile ? 10 : 12} />
+          <Tooltip formatter={(value: number, name: string) => [formatValue(value), name]} />
+          <Legend />
+          <ReferenceLine x={0} stroke="#374151" />
+          <Bar dataKey="low" name="下げた場合" stackId="swing" fill="#3b82f6" />
+          <Bar dataKey="high" name="上げた場合" stackId="swing" fill="#f97316" />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
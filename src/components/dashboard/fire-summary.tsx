@@ -1,23 +1,34 @@
 'use client';
 
-import { FireMetrics } from '@/lib/types';
+import { FireMetrics, ValueDisplayMode } from '@/lib/types';
 import { formatCurrency } from '@/lib/utils';
+import { DEFAULT_MAX_WORKING_AGE } from '@/lib/fire-calculator';
+import { FIRE_VARIANT_LABELS } from '@/lib/fire-variants';
+import { VALUE_DISPLAY_MODE_LABELS } from '@/lib/present-value';
 
 interface FireSummaryProps {
   metrics: FireMetrics;
+  valueDisplayMode?: ValueDisplayMode; // 金額の表示方法（metricsは表示方法に合わせて換算済み）
   className?: string;
 }
 
-export default function FireSummary({ metrics, className = "" }: FireSummaryProps) {
+export default function FireSummary({ metrics, valueDisplayMode = 'nominal', className = "" }: FireSummaryProps) {
   const {
     currentAssets,
     requiredAssets,
     fireProgress,
     yearsToFire,
+    terminalWealthTarget,
+    projectedTerminalWealth,
+    inheritanceTax,
+    maxWorkingAge,
+    adjustedRetirementAges,
+    variants,
   } = metrics;
 
   const progressBarWidth = Math.min(fireProgress, 100);
   const remainingAmount = Math.max(0, requiredAssets - currentAssets);
+  const unachievableMessage = `${maxWorkingAge ?? DEFAULT_MAX_WORKING_AGE}歳まで働いても資産が不足`;
 
   return (
     <div className={`bg-white rounded-lg shadow-md p-6 ${className}`}>
@@ -31,7 +42,7 @@ export default function FireSummary({ metrics, className = "" }: FireSummaryProp
           </div>
           <div className="text-sm text-gray-600 mt-1">FIRE達成率</div>
           <div className="text-xs text-gray-500">
-            {yearsToFire < 0 ? '60歳まで働いても資産が不足' : '目標額に対する現在資産の割合'}
+            {yearsToFire < 0 ? unachievableMessage : '目標額に対する現在資産の割合'}
           </div>
         </div>
 
@@ -41,7 +52,7 @@ export default function FireSummary({ metrics, className = "" }: FireSummaryProp
           </div>
           <div className="text-sm text-gray-600 mt-1">FIRE目標額まで</div>
           <div className="text-xs text-gray-500">
-            {yearsToFire < 0 ? '60歳まで働いても資産が不足' : (remainingAmount === 0 ? '達成済み！' : 'あと必要な金額')}
+            {yearsToFire < 0 ? unachievableMessage : (remainingAmount === 0 ? '達成済み！' : 'あと必要な金額')}
           </div>
         </div>
 
@@ -51,7 +62,7 @@ export default function FireSummary({ metrics, className = "" }: FireSummaryProp
           </div>
           <div className="text-sm text-gray-600 mt-1">FIRE達成まで</div>
           <div className="text-xs text-gray-500">
-            {yearsToFire < 0 ? '60歳まで働いても資産が不足' : '現在のペースで継続した場合'}
+            {yearsToFire < 0 ? unachievableMessage : '現在のペースで継続した場合'}
           </div>
         </div>
       </div>
@@ -75,6 +86,73 @@ export default function FireSummary({ metrics, className = "" }: FireSummaryProp
           <span>100%</span>
         </div>
       </div>
+
+      {/* FIRE達成年齢の探索で調整した給与プランの退職年齢 */}
+      {yearsToFire >= 0 && adjustedRetirementAges && adjustedRetirementAges.length > 0 && (
+        <div className="mb-6 text-sm text-gray-700">
+          <span className="font-medium">退職年齢: </span>
+          {adjustedRetirementAges.map(plan => `${plan.name} ${plan.endAge}歳`).join(' ／ ')}
+        </div>
+      )}
+
+      {/* FIREの種類ごとの達成目標 */}
+      {variants && variants.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+          {variants.map(variant => (
+            <div
+              key={variant.type}
+              className={`rounded-md border p-3 text-center ${
+                variant.age === null ? 'bg-gray-50 border-gray-200' : 'bg-blue-50 border-blue-200'
+              }`}
+            >
+              <div className="text-sm font-medium text-gray-700">{FIRE_VARIANT_LABELS[variant.type]}</div>
+              <div className="text-lg font-bold text-gray-900 mt-1">
+                {variant.age === null ? '達成不可能' : `${variant.age}歳`}
+              </div>
+              <div className="text-xs text-gray-500">
+                {variant.targetAssets === null ? unachievableMessage : formatCurrency(Math.round(variant.targetAssets / 10000) * 10000)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* 想定寿命時点の資産（目標額・相続税を設定した場合） */}
+      {projectedTerminalWealth !== undefined && (terminalWealthTarget !== undefined || inheritanceTax !== undefined) && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 pt-6 border-t border-gray-200">
+          <div className="text-center">
+            <div className="text-xl font-bold text-gray-900">
+              {formatCurrency(Math.round(projectedTerminalWealth / 10000) * 10000)}
+            </div>
+            <div className="text-sm text-gray-600 mt-1">想定寿命時点の資産</div>
+            <div className="text-xs text-gray-500">{VALUE_DISPLAY_MODE_LABELS[valueDisplayMode]}</div>
+          </div>
+
+          {terminalWealthTarget !== undefined && (
+            <div className="text-center">
+              <div className={`text-xl font-bold ${projectedTerminalWealth >= terminalWealthTarget ? 'text-green-600' : 'text-red-600'}`}>
+                {formatCurrency(Math.round(terminalWealthTarget / 10000) * 10000)}
+              </div>
+              <div className="text-sm text-gray-600 mt-1">残す資産の目標額</div>
+              <div className="text-xs text-gray-500">
+                {projectedTerminalWealth >= terminalWealthTarget ? '目標を達成' : '目標に不足'}
+              </div>
+            </div>
+          )}
+
+          {inheritanceTax !== undefined && (
+            <div className="text-center">
+              <div className="text-xl font-bold text-red-600">
+                {formatCurrency(Math.round(inheritanceTax / 10000) * 10000)}
+              </div>
+              <div className="text-sm text-gray-600 mt-1">相続税（概算）</div>
+              <div className="text-xs text-gray-500">
+                相続後の遺産 {formatCurrency(Math.round((projectedTerminalWealth - inheritanceTax) / 10000) * 10000)}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
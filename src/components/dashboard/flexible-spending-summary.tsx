@@ -0,0 +1,51 @@
+import { FlexibleSpendingAnalysis } from '@/lib/types';
+
+interface FlexibleSpendingSummaryProps {
+  analysis: FlexibleSpendingAnalysis;
+}
+
+export function FlexibleSpendingSummary({ analysis }: FlexibleSpendingSummaryProps) {
+  const formatCurrency = (value: number) => {
+    const manyen = value / 10000;
+    return manyen.toFixed(1);
+  };
+
+  const improvement = analysis.successProbability - analysis.successProbabilityWithoutCuts;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="rounded-md border border-gray-200 p-4">
+          <div className="text-sm text-gray-600">削減した年数（年次計算）</div>
+          <div className="text-2xl font-bold text-gray-900">{analysis.cutYears}年</div>
+          <div className="text-xs text-gray-500">
+            {analysis.cutYears > 0
+              ? `合計 ${formatCurrency(analysis.totalCut)}万円 ／ 最大 ${formatCurrency(analysis.maxCut)}万円/年`
+              : '削減する年はありません'}
+          </div>
+        </div>
+        <div className="rounded-md border border-gray-200 p-4">
+          <div className="text-sm text-gray-600">成功確率</div>
+          <div className="text-2xl font-bold text-gray-900">{analysis.successProbability.toFixed(1)}%</div>
+          <div className="text-xs text-gray-500">
+            削減しない場合 {analysis.successProbabilityWithoutCuts.toFixed(1)}%
+          </div>
+        </div>
+        <div className={`rounded-md border p-4 ${improvement > 0 ? 'bg-green-50 border-green-200' : 'border-gray-200'}`}>
+          <div className="text-sm text-gray-600">成功確率の改善</div>
+          <div className={`text-2xl font-bold ${improvement > 0 ? 'text-green-700' : 'text-gray-900'}`}>
+            {improvement >= 0 ? '+' : ''}{improvement.toFixed(1)}pt
+          </div>
+          <div className="text-xs text-gray-500">
+            削減した年数の平均 {analysis.averageCutYears.toFixed(1)}年（シミュレーション）
+          </div>
+        </div>
+      </div>
+
+      <div className="text-xs text-gray-500">
+        ※ 削減額は万円単位の現在価値です。成功確率はリターンの変動率15%・インフレ率の変動率1%のモンテカルロシミュレーション（200回）で、
+        削減する場合としない場合を同じ乱数で比較しています。運用リターンの値動きは年次計算では期待リターンどおりのため、年次計算では主に取り崩し率で削減を判定します
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { GoalSeekResult, GOAL_SEEK_VARIABLE_LABELS } from '@/lib/goal-seek';
+import { GoalSeekSettings } from '@/lib/types';
+
+interface GoalSeekSummaryProps {
+  settings: GoalSeekSettings;
+  result: GoalSeekResult | null;
+}
+
+export function GoalSeekSummary({ settings, result }: GoalSeekSummaryProps) {
+  const formatCurrency = (value: number) => {
+    const manyen = value / 10000;
+    return manyen.toFixed(1);
+  };
+
+  const variableLabel = GOAL_SEEK_VARIABLE_LABELS[settings.variable];
+
+  if (!result) {
+    return (
+      <div className="rounded-md border p-4 bg-red-50 border-red-200">
+        <div className="text-lg font-semibold text-red-800">
+          探索範囲内では目標を達成できる{variableLabel}が見つかりません
+        </div>
+      </div>
+    );
+  }
+
+  // 求めた値の表示（期待リターンは%、それ以外は万円）
+  const formattedValue = settings.variable === 'expected-return'
+    ? `${result.value.toFixed(2)}%`
+    : `${formatCurrency(result.value)}万円${settings.variable === 'salary' ? '/年' : '/月'}`;
+  const answerSuffix = settings.variable === 'monthly-expenses' ? 'まで' : '以上';
+  const finalProjection = result.result.projections[result.result.projections.length - 1];
+
+  return (
+    <div className="rounded-md border p-4 bg-green-50 border-green-200">
+      <div className="text-lg font-semibold text-green-800">
+        {variableLabel}: {formattedValue}{answerSuffix}
+      </div>
+      <div className="mt-1 text-sm text-gray-700">
+        FIRE達成年齢: {result.result.yearsToFire < 0 ? '達成不可能' : `${result.result.fireAge}歳`}
+        {finalProjection && ` ／ ${finalProjection.age}歳時点の資産: ${formatCurrency(finalProjection.assets)}万円`}
+      </div>
+    </div>
+  );
+}
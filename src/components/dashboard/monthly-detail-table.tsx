@@ -0,0 +1,111 @@
+import { MonthlyDetailData } from '@/lib/fire-calculator';
+
+interface MonthlyDetailTableProps {
+  data: MonthlyDetailData[];
+}
+
+// 金額列の定義（負数の列は赤字で表示）
+const AMOUNT_COLUMNS: Array<{
+  key: 'income' | 'deductions' | 'expenses' | 'loanPayments' | 'specialExpenses' | 'portfolioWithdrawal' | 'capitalGainsTax';
+  label: string;
+  negative: boolean;
+}> = [
+  { key: 'income', label: '収入', negative: false },
+  { key: 'deductions', label: '税金・社会保険料', negative: true },
+  { key: 'expenses', label: '生活費', negative: true },
+  { key: 'loanPayments', label: 'ローン返済', negative: true },
+  { key: 'specialExpenses', label: '特別支出', negative: true },
+  { key: 'portfolioWithdrawal', label: '取り崩し', negative: false },
+  { key: 'capitalGainsTax', label: '譲渡益税', negative: true },
+];
+
+export function MonthlyDetailTable({ data }: MonthlyDetailTableProps) {
+  if (data.length === 0) {
+    return (
+      <div className="text-center text-gray-500 py-8">
+        データがありません
+      </div>
+    );
+  }
+
+  // 値のある列のみ表示
+  const amountColumns = AMOUNT_COLUMNS.filter(col => data.some(row => row[col.key] !== 0));
+
+  // 配偶者がいる場合は本人と配偶者の年齢を並べて表示
+  const hasSpouse = data.some(row => row.spouseAge !== undefined);
+
+  const formatCurrency = (value: number) => {
+    const manyen = value / 10000;
+    return manyen.toFixed(1);
+  };
+
+  return (
+    <div className="overflow-auto max-h-[600px]">
+      <table className="min-w-full border-collapse text-sm">
+        <thead>
+          <tr className="bg-gray-100 border-b-2 border-gray-300">
+            <th className="sticky top-0 left-0 z-20 bg-gray-100 px-3 py-2 text-left font-semibold border-r border-gray-300">
+              年月
+            </th>
+            <th className="sticky top-0 z-10 bg-gray-100 px-3 py-2 text-left font-semibold border-r border-gray-300">
+              {hasSpouse ? <>年齢<br />本人 / 配偶者</> : '年齢'}
+            </th>
+            {amountColumns.map(col => (
+              <th
+                key={col.key}
+                className={`sticky top-0 z-10 px-3 py-2 text-right font-semibold border-r border-gray-200 ${col.negative ? 'bg-red-50' : 'bg-gray-100'}`}
+              >
+                {col.label}
+              </th>
+            ))}
+            <th className="sticky top-0 z-10 bg-yellow-50 px-3 py-2 text-right font-semibold border-r border-gray-200">
+              月間収支
+            </th>
+            <th className="sticky top-0 z-10 bg-green-50 px-3 py-2 text-right font-semibold border-r border-gray-200">
+              現金累計
+            </th>
+            <th className="sticky top-0 z-10 bg-blue-50 px-3 py-2 text-right font-semibold">
+              合計資産
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {data.map((row, idx) => (
+            <tr
+              key={`${row.year}-${row.month}`}
+              className={idx % 2 === 0 ? 'bg-white' : 'bg-gray-50'}
+            >
+              <td className="sticky left-0 z-10 px-3 py-2 font-medium border-r border-gray-300 bg-inherit">
+                {row.year}/{row.month}
+              </td>
+              <td className="px-3 py-2 border-r border-gray-300 whitespace-nowrap">
+                {hasSpouse ? `${row.age} / ${row.spouseAge}` : row.age}
+              </td>
+              {amountColumns.map(col => (
+                <td
+                  key={col.key}
+                  className={`px-3 py-2 text-right border-r border-gray-200 ${col.negative ? 'text-red-600' : ''}`}
+                >
+                  {row[col.key] !== 0 ? formatCurrency(row[col.key]) : ''}
+                </td>
+              ))}
+              <td className={`px-3 py-2 text-right border-r border-gray-200 bg-yellow-50 font-semibold ${row.netCashFlow < 0 ? 'text-red-600' : ''}`}>
+                {formatCurrency(row.netCashFlow)}
+              </td>
+              <td className={`px-3 py-2 text-right border-r border-gray-200 bg-green-50 font-semibold ${row.cash < 0 ? 'text-red-600' : ''}`}>
+                {formatCurrency(row.cash)}
+              </td>
+              <td className="px-3 py-2 text-right font-semibold bg-blue-50">
+                {formatCurrency(row.totalAssets)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="mt-4 text-xs text-gray-500">
+        ※ 金額は万円単位で表示されています
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { PensionBreakEvenAnalysis } from '@/lib/public-pension';
+
+interface PensionBreakEvenTableProps {
+  analysis: PensionBreakEvenAnalysis;
+  currentClaimingAge: number; // 現在設定している受給開始年齢
+}
+
+export function PensionBreakEvenTable({ analysis, currentClaimingAge }: PensionBreakEvenTableProps) {
+  const formatCurrency = (value: number) => {
+    const manyen = value / 10000;
+    return manyen.toFixed(1);
+  };
+
+  const formatRate = (rate: number) => {
+    const percent = (rate - 1) * 100;
+    return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1">
+        <h3 className="text-lg font-semibold text-gray-900">{analysis.planName}</h3>
+        <span className="text-sm text-gray-600">
+          推奨受給開始年齢: <span className="font-semibold text-blue-700">{analysis.recommendedClaimingAge}歳</span>
+          （{analysis.lifeExpectancy}歳まで受給、実質利回り 年平均{(analysis.discountRate * 100).toFixed(1)}%で割引）
+        </span>
+      </div>
+
+      <div className="overflow-auto max-h-[400px]">
+        <table className="min-w-full border-collapse text-sm">
+          <thead>
+            <tr className="bg-gray-100 border-b-2 border-gray-300">
+              <th className="sticky top-0 bg-gray-100 px-3 py-2 text-left font-semibold border-r border-gray-300">開始年齢</th>
+              <th className="sticky top-0 bg-gray-100 px-3 py-2 text-right font-semibold border-r border-gray-200">増減率</th>
+              <th className="sticky top-0 bg-gray-100 px-3 py-2 text-right font-semibold border-r border-gray-200">年額</th>
+              <th className="sticky top-0 bg-gray-100 px-3 py-2 text-right font-semibold border-r border-gray-200">受給総額</th>
+              <th className="sticky top-0 bg-gray-100 px-3 py-2 text-right font-semibold border-r border-gray-200">現在価値</th>
+              <th className="sticky top-0 bg-gray-100 px-3 py-2 text-right font-semibold">65歳開始との損益分岐</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.scenarios.map((scenario, idx) => {
+              const isRecommended = scenario.claimingAge === analysis.recommendedClaimingAge;
+              const isCurrent = scenario.claimingAge === currentClaimingAge;
+              return (
+                <tr
+                  key={scenario.claimingAge}
+                  className={isRecommended ? 'bg-blue-50 font-semibold' : idx % 2 === 0 ? 'bg-white' : 'bg-gray-50'}
+                >
+                  <td className="px-3 py-2 border-r border-gray-300">
+                    {scenario.claimingAge}歳
+                    {isCurrent && <span className="ml-2 text-xs text-gray-500">（設定中）</span>}
+                  </td>
+                  <td className={`px-3 py-2 text-right border-r border-gray-200 ${scenario.adjustmentRate < 1 ? 'text-red-600' : ''}`}>
+                    {formatRate(scenario.adjustmentRate)}
+                  </td>
+                  <td className="px-3 py-2 text-right border-r border-gray-200">{formatCurrency(scenario.annualAmount)}</td>
+                  <td className="px-3 py-2 text-right border-r border-gray-200">{formatCurrency(scenario.totalReceived)}</td>
+                  <td className="px-3 py-2 text-right border-r border-gray-200">{formatCurrency(scenario.presentValue)}</td>
+                  <td className="px-3 py-2 text-right">
+                    {scenario.breakEvenAge !== null ? `${scenario.breakEvenAge}歳` : '-'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="text-xs text-gray-500">
+        ※ 金額は万円単位（現在価値）で表示されています。損益分岐は繰上げの場合は65歳開始に追い抜かれる年齢、繰下げの場合は65歳開始を追い抜く年齢です
+      </div>
+    </div>
+  );
+}
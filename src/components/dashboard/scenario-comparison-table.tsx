@@ -0,0 +1,100 @@
+import { FireCalculationInput, FireCalculationResult } from '@/lib/fire-calculator';
+import { getInflationFactor } from '@/lib/inflation';
+import { ScenarioComparison } from '@/lib/types';
+
+interface ScenarioComparisonTableProps {
+  comparison: ScenarioComparison;
+}
+
+// 比較する指標
+interface ComparisonMetric {
+  label: string;
+  value: (result: FireCalculationResult, input: FireCalculationInput) => number | null;
+  unit: 'age' | 'years' | 'currency';
+}
+
+const METRICS: ComparisonMetric[] = [
+  { label: 'FIRE達成年齢', value: result => result.yearsToFire < 0 ? null : result.fireAge, unit: 'age' },
+  { label: 'FIRE達成まで', value: result => result.yearsToFire < 0 ? null : result.yearsToFire, unit: 'years' },
+  { label: 'FIRE目標額', value: result => result.yearsToFire < 0 ? null : result.requiredAssets, unit: 'currency' },
+  {
+    label: '想定寿命時点の資産（現在価値）',
+    value: (result, input) =>
+      result.projectedAssets / getInflationFactor(input, result.projections.length - 1),
+    unit: 'currency',
+  },
+  { label: '毎月の不足額', value: result => result.monthlyShortfall, unit: 'currency' },
+  { label: '相続税の概算', value: result => result.inheritanceTax, unit: 'currency' },
+];
+
+export function ScenarioComparisonTable({ comparison }: ScenarioComparisonTableProps) {
+  const formatCurrency = (value: number) => {
+    const manyen = value / 10000;
+    return manyen.toFixed(1);
+  };
+
+  const formatValue = (value: number | null, unit: ComparisonMetric['unit']) => {
+    if (value === null) return '達成不可能';
+    if (unit === 'age') return `${value}歳`;
+    if (unit === 'years') return `${value}年`;
+    return formatCurrency(value);
+  };
+
+  // 最初のシナリオとの差
+  const formatDiff = (value: number | null, baseValue: number | null, unit: ComparisonMetric['unit']) => {
+    if (value === null || baseValue === null) return '';
+    const diff = value - baseValue;
+    if (Math.abs(diff) < (unit === 'currency' ? 1000 : 1)) return '±0';
+    const sign = diff > 0 ? '+' : '−';
+    if (unit === 'currency') return `${sign}${formatCurrency(Math.abs(diff))}`;
+    return `${sign}${Math.abs(diff)}${unit === 'age' ? '歳' : '年'}`;
+  };
+
+  const [baseResult] = comparison.results;
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-auto">
+        <table className="min-w-full border-collapse text-sm">
+          <thead>
+            <tr className="bg-gray-100 border-b-2 border-gray-300">
+              <th className="px-3 py-2 text-left font-semibold border-r border-gray-300">指標</th>
+              {comparison.scenarios.map((scenario, idx) => (
+                <th key={scenario.id} className="px-3 py-2 text-right font-semibold border-r border-gray-200">
+                  {scenario.name || '未設定'}
+                  {comparison.results[idx] === comparison.bestCase && (
+                    <span className="ml-1 text-xs text-green-700">最良</span>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {METRICS.map((metric, rowIdx) => {
+              const baseValue = metric.value(baseResult, comparison.scenarios[0].input);
+              return (
+                <tr key={metric.label} className={rowIdx % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                  <td className="px-3 py-2 border-r border-gray-300">{metric.label}</td>
+                  {comparison.results.map((result, idx) => {
+                    const value = metric.value(result, comparison.scenarios[idx].input);
+                    return (
+                      <td key={comparison.scenarios[idx].id} className="px-3 py-2 text-right border-r border-gray-200">
+                        <div>{formatValue(value, metric.unit)}</div>
+                        {idx > 0 && (
+                          <div className="text-xs text-gray-500">{formatDiff(value, baseValue, metric.unit)}</div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="text-xs text-gray-500">
+        ※ 金額は万円単位で表示されています。2列目以降の下段は、最初のシナリオとの差です
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { SurvivorScenarioAnalysis } from '@/lib/survivor-scenario';
+
+interface SurvivorScenarioSummaryProps {
+  analysis: SurvivorScenarioAnalysis;
+}
+
+export function SurvivorScenarioSummary({ analysis }: SurvivorScenarioSummaryProps) {
+  const formatCurrency = (value: number) => {
+    const manyen = value / 10000;
+    return manyen.toFixed(1);
+  };
+
+  const survivorLabel = analysis.survivor === 'spouse' ? '配偶者' : '本人';
+
+  return (
+    <div className="space-y-4">
+      <div
+        className={`rounded-md border p-4 ${
+          analysis.lastsToLifeExpectancy ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+        }`}
+      >
+        <div className={`text-lg font-semibold ${analysis.lastsToLifeExpectancy ? 'text-green-800' : 'text-red-800'}`}>
+          {analysis.lastsToLifeExpectancy
+            ? `${survivorLabel}の想定寿命（${analysis.survivorLifeExpectancy}歳）まで資産が持続します`
+            : `${survivorLabel}が${analysis.depletionAge}歳のときに資産が枯渇します`}
+        </div>
+        <div className="mt-1 text-sm text-gray-700">
+          {analysis.survivorLifeExpectancy}歳時点の資産: {formatCurrency(analysis.finalAssets)}万円
+          {analysis.lifeInsurancePayout > 0 && ` ／ 死亡保険金: ${formatCurrency(analysis.lifeInsurancePayout)}万円`}
+        </div>
+      </div>
+
+      <div className="overflow-auto">
+        <table className="min-w-full border-collapse text-sm">
+          <thead>
+            <tr className="bg-gray-100 border-b-2 border-gray-300">
+              <th className="px-3 py-2 text-left font-semibold border-r border-gray-300">遺族年金</th>
+              <th className="px-3 py-2 text-right font-semibold border-r border-gray-200">受給期間（{survivorLabel}の年齢）</th>
+              <th className="px-3 py-2 text-right font-semibold">年額</th>
+            </tr>
+          </thead>
+          <tbody>
+            {analysis.survivorPensionPlans.length === 0 ? (
+              <tr>
+                <td colSpan={3} className="px-3 py-2 text-center text-gray-500">
+                  受給できる遺族年金はありません
+                </td>
+              </tr>
+            ) : (
+              analysis.survivorPensionPlans.map((plan, idx) => (
+                <tr key={plan.id} className={idx % 2 === 0 ? 'bg-white' : 'bg-gray-50'}>
+                  <td className="px-3 py-2 border-r border-gray-300">{plan.name}</td>
+                  <td className="px-3 py-2 text-right border-r border-gray-200">{plan.startAge}〜{plan.endAge}歳</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(plan.annualAmount ?? 0)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="text-xs text-gray-500">
+        ※ 金額は万円単位（遺族年金は現在価値）で表示されています。遺族厚生年金は報酬比例部分
+        {formatCurrency(analysis.remunerationProportion)}万円の3/4で、遺族自身の老齢厚生年金を受け取る間はその分を差し引いています。
+        中高齢寡婦加算・受給者の年齢要件・死亡保険金にかかる相続税は考慮していません
+      </div>
+    </div>
+  );
+}
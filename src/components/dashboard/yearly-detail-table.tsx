@@ -1,10 +1,28 @@
+import { useState } from 'react';
 import { YearlyDetailData } from '@/lib/fire-calculator';
+import { EXPENSE_CATEGORY_LABELS } from '@/lib/expense-category';
+import { ExpenseCategory } from '@/lib/types';
 
 interface YearlyDetailTableProps {
   data: YearlyDetailData[];
 }
 
+// 税金・社会保険料列の定義
+const DEDUCTION_COLUMNS: Array<{
+  key: 'incomeTax' | 'residentTax' | 'healthInsurance' | 'pensionInsurance' | 'employmentInsurance';
+  label: string;
+}> = [
+  { key: 'incomeTax', label: '所得税' },
+  { key: 'residentTax', label: '住民税' },
+  { key: 'healthInsurance', label: '健康保険' },
+  { key: 'pensionInsurance', label: '年金保険料' },
+  { key: 'employmentInsurance', label: '雇用保険' },
+];
+
 export function YearlyDetailTable({ data }: YearlyDetailTableProps) {
+  // 生活費列を費目別に展開するか
+  const [isExpensesExpanded, setIsExpensesExpanded] = useState(false);
+
   if (data.length === 0) {
     return (
       <div className="text-center text-gray-500 py-8">
@@ -37,6 +55,27 @@ export function YearlyDetailTable({ data }: YearlyDetailTableProps) {
   const specialExpenseColumns = Array.from(allSpecialExpenseKeys);
   const loanBalanceColumns = Array.from(allLoanBalanceKeys);
 
+  // 額面入力の給与がない場合は税金・社会保険料列を表示しない
+  const deductionColumns = DEDUCTION_COLUMNS.filter(col =>
+    data.some(row => row[col.key] !== 0)
+  );
+
+  // 生活費の費目（内訳を設定した場合のみ展開できる）
+  const expenseCategoryColumns = (Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[]).filter(category =>
+    data.some(row => row.expensesByCategory[category])
+  );
+  const canExpandExpenses = expenseCategoryColumns.some(category => category !== ExpenseCategory.OTHER);
+  const showExpenseCategories = canExpandExpenses && isExpensesExpanded;
+
+  // 支出の柔軟な調整で削減した年がない場合は削減列を表示しない
+  const hasSpendingCut = data.some(row => row.spendingCut > 0);
+
+  // 特定口座からの取り崩しがない場合は譲渡益税列を表示しない
+  const hasCapitalGainsTax = data.some(row => row.capitalGainsTax !== 0);
+
+  // 配偶者がいる場合は本人と配偶者の年齢を並べて表示
+  const hasSpouse = data.some(row => row.spouseAge !== undefined);
+
   const formatCurrency = (value: number) => {
     const manyen = value / 10000;
     return manyen.toFixed(1);
@@ -48,7 +87,7 @@ export function YearlyDetailTable({ data }: YearlyDetailTableProps) {
         <thead>
           <tr className="bg-gray-100 border-b-2 border-gray-300">
             <th className="sticky top-0 left-0 z-20 bg-gray-100 px-3 py-2 text-left font-semibold border-r border-gray-300">
-              年齢
+              {hasSpouse ? <>年齢<br />本人 / 配偶者</> : '年齢'}
             </th>
             <th className="sticky top-0 z-10 bg-gray-100 px-3 py-2 text-left font-semibold border-r border-gray-300">
               西暦
@@ -75,11 +114,40 @@ export function YearlyDetailTable({ data }: YearlyDetailTableProps) {
               </th>
             ))}
 
+            {/* 税金・社会保険料列 */}
+            {deductionColumns.map(col => (
+              <th key={`deduction-${col.key}`} className="sticky top-0 z-10 bg-red-50 px-3 py-2 text-right font-semibold border-r border-gray-200">
+                {col.label}
+              </th>
+            ))}
+
             {/* 支出列 */}
             <th className="sticky top-0 z-10 bg-red-50 px-3 py-2 text-right font-semibold border-r border-gray-200">
-              生活費
+              {canExpandExpenses ? (
+                <button
+                  type="button"
+                  onClick={() => setIsExpensesExpanded(!isExpensesExpanded)}
+                  className="font-semibold hover:text-blue-600"
+                >
+                  {isExpensesExpanded ? '▾' : '▸'} 生活費
+                </button>
+              ) : '生活費'}
             </th>
 
+            {/* 生活費の費目別列 */}
+            {showExpenseCategories && expenseCategoryColumns.map(category => (
+              <th key={`expense-category-${category}`} className="sticky top-0 z-10 bg-red-50 px-3 py-2 text-right font-normal border-r border-gray-200">
+                生活費<br />{EXPENSE_CATEGORY_LABELS[category]}
+              </th>
+            ))}
+
+            {/* 裁量的な支出の削減列 */}
+            {hasSpendingCut && (
+              <th className="sticky top-0 z-10 bg-green-50 px-3 py-2 text-right font-semibold border-r border-gray-200">
+                支出削減
+              </th>
+            )}
+
             {/* ローン残高列 */}
             {loanBalanceColumns.map(col => (
               <th key={`loan-balance-${col}`} className="sticky top-0 z-10 bg-orange-50 px-3 py-2 text-right font-semibold border-r border-gray-200">
@@ -104,6 +172,13 @@ export function YearlyDetailTable({ data }: YearlyDetailTableProps) {
               年間収支
             </th>
 
+            {/* 譲渡益税列 */}
+            {hasCapitalGainsTax && (
+              <th className="sticky top-0 z-10 bg-red-50 px-3 py-2 text-right font-semibold border-r border-gray-200">
+                譲渡益税
+              </th>
+            )}
+
             {/* 現金列 */}
             <th className="sticky top-0 z-10 bg-green-50 px-3 py-2 text-right font-semibold border-r border-gray-200">
               現金資産
@@ -128,8 +203,8 @@ export function YearlyDetailTable({ data }: YearlyDetailTableProps) {
               key={`${row.year}-${row.age}`}
               className={idx % 2 === 0 ? 'bg-white' : 'bg-gray-50'}
             >
-              <td className="sticky left-0 z-10 px-3 py-2 font-medium border-r border-gray-300 bg-inherit">
-                {row.age}
+              <td className="sticky left-0 z-10 px-3 py-2 font-medium border-r border-gray-300 bg-inherit whitespace-nowrap">
+                {hasSpouse ? `${row.age} / ${row.spouseAge}` : row.age}
               </td>
               <td className="px-3 py-2 border-r border-gray-300">
                 {row.year}
@@ -156,11 +231,32 @@ export function YearlyDetailTable({ data }: YearlyDetailTableProps) {
                 </td>
               ))}
 
+              {/* 税金・社会保険料データ（負数） */}
+              {deductionColumns.map(col => (
+                <td key={`deduction-${col.key}-${idx}`} className="px-3 py-2 text-right border-r border-gray-200 text-red-600">
+                  {row[col.key] !== 0 ? formatCurrency(row[col.key]) : ''}
+                </td>
+              ))}
+
               {/* 生活費（負数） */}
               <td className="px-3 py-2 text-right border-r border-gray-200 text-red-600">
                 {formatCurrency(row.expenses)}
               </td>
 
+              {/* 生活費の費目別データ（負数） */}
+              {showExpenseCategories && expenseCategoryColumns.map(category => (
+                <td key={`expense-category-${category}-${idx}`} className="px-3 py-2 text-right border-r border-gray-200 text-red-400">
+                  {row.expensesByCategory[category] ? formatCurrency(row.expensesByCategory[category] ?? 0) : ''}
+                </td>
+              ))}
+
+              {/* 裁量的な支出の削減額（生活費から差し引き済み） */}
+              {hasSpendingCut && (
+                <td className="px-3 py-2 text-right border-r border-gray-200 text-green-600">
+                  {row.spendingCut > 0 ? formatCurrency(row.spendingCut) : ''}
+                </td>
+              )}
+
               {/* ローン残高データ */}
               {loanBalanceColumns.map(col => (
                 <td key={`loan-balance-${col}-${idx}`} className="px-3 py-2 text-right border-r border-gray-200 bg-orange-50">
@@ -185,6 +281,13 @@ export function YearlyDetailTable({ data }: YearlyDetailTableProps) {
                 {formatCurrency(row.annualNetCashFlow)}
               </td>
 
+              {/* 譲渡益税（負数） */}
+              {hasCapitalGainsTax && (
+                <td className="px-3 py-2 text-right border-r border-gray-200 text-red-600">
+                  {row.capitalGainsTax !== 0 ? formatCurrency(row.capitalGainsTax) : ''}
+                </td>
+              )}
+
               {/* 現金累計 */}
               <td className={`px-3 py-2 text-right border-r border-gray-200 bg-green-50 font-semibold ${row.cash < 0 ? 'text-red-600' : ''}`}>
                 {formatCurrency(row.cash)}
@@ -200,6 +303,11 @@ export function YearlyDetailTable({ data }: YearlyDetailTableProps) {
                   }`}
                 >
                   {row.assets[col] ? formatCurrency(row.assets[col]) : ''}
+                  {row.rebalanceTrades[col] ? (
+                    <div className={`text-xs ${row.rebalanceTrades[col] < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      リバランス {row.rebalanceTrades[col] > 0 ? '+' : ''}{formatCurrency(row.rebalanceTrades[col])}
+                    </div>
+                  ) : null}
                 </td>
               ))}
 
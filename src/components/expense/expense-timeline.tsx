@@ -2,6 +2,7 @@
 
 import { useState, useRef, useEffect } from 'react';
 import { ExpenseSegment } from '@/lib/types';
+import { scaleExpenseSegment } from '@/lib/expense-category';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 
@@ -9,6 +10,7 @@ interface ExpenseTimelineProps {
   segments: ExpenseSegment[];
   currentAge: number;
   lifeExpectancy: number;
+  readOnly?: boolean; // 予算から作成した支出区間など、編集できない場合
   onSegmentsChange: (segments: ExpenseSegment[]) => void;
 }
 
@@ -16,6 +18,7 @@ export function ExpenseTimeline({
   segments,
   currentAge,
   lifeExpectancy,
+  readOnly = false,
   onSegmentsChange,
 }: ExpenseTimelineProps) {
   const [draggedDividerIndex, setDraggedDividerIndex] = useState<number | null>(null);
@@ -65,6 +68,7 @@ export function ExpenseTimeline({
 
   // 区切り線のドラッグ開始
   const handleDividerPointerDown = (index: number) => {
+    if (readOnly) return;
     setDraggedDividerIndex(index);
   };
 
@@ -98,17 +102,21 @@ export function ExpenseTimeline({
 
   // 区間の支出額編集
   const handleSegmentClick = (segment: ExpenseSegment) => {
+    if (readOnly) return;
     setEditingSegmentId(segment.id);
     setEditValue((segment.monthlyExpenses / 10000).toString());
   };
 
   const handleEditComplete = () => {
     if (editingSegmentId) {
-      const updatedSegments = segments.map(seg =>
-        seg.id === editingSegmentId
-          ? { ...seg, monthlyExpenses: parseFloat(editValue) * 10000 }
-          : seg
-      );
+      const monthlyExpenses = parseFloat(editValue) * 10000;
+      const updatedSegments = segments.map(seg => {
+        if (seg.id !== editingSegmentId) return seg;
+        // 費目別の内訳・裁量的な支出は現在の構成比のまま変更
+        return seg.monthlyExpenses > 0
+          ? scaleExpenseSegment(seg, monthlyExpenses / seg.monthlyExpenses)
+          : { ...seg, monthlyExpenses, components: undefined, discretionaryExpenses: undefined };
+      });
       onSegmentsChange(updatedSegments);
     }
     setEditingSegmentId(null);
@@ -146,6 +154,8 @@ export function ExpenseTimeline({
       startAge: midAge + 1,
       endAge: targetSegment.endAge,
       monthlyExpenses: targetSegment.monthlyExpenses,
+      components: targetSegment.components,
+      discretionaryExpenses: targetSegment.discretionaryExpenses,
     };
 
     newSegments[longestSegmentIndex] = {
@@ -183,13 +193,15 @@ export function ExpenseTimeline({
     <div className="space-y-3">
       <div className="flex justify-between items-center">
         <span className="text-sm font-medium text-gray-700">月間支出管理</span>
-        <Button
-          onClick={handleAddDivider}
-          size="sm"
-          variant="outline"
-        >
-          区切り追加
-        </Button>
+        {!readOnly && (
+          <Button
+            onClick={handleAddDivider}
+            size="sm"
+            variant="outline"
+          >
+            区切り追加
+          </Button>
+        )}
       </div>
 
       <svg
@@ -230,7 +242,7 @@ export function ExpenseTimeline({
                 fill={color}
                 stroke="#999"
                 strokeWidth="1"
-                className="cursor-pointer hover:opacity-80 transition"
+                className={readOnly ? '' : 'cursor-pointer hover:opacity-80 transition'}
                 onClick={() => handleSegmentClick(segment)}
               />
 
@@ -263,7 +275,7 @@ export function ExpenseTimeline({
         })}
 
         {/* 区切り線ハンドル */}
-        {segments.slice(0, -1).map((segment, index) => {
+        {!readOnly && segments.slice(0, -1).map((segment, index) => {
           // 区切り線を次の区間のstartAge位置に配置（区間のstrokeと重なる）
           const x = ageToX(segments[index + 1].startAge);
 
@@ -350,10 +362,16 @@ export function ExpenseTimeline({
         </div>
       )}
 
-      <div className="text-xs text-gray-500">
-        <div>▲をドラッグして年齢境界を調整</div>
-        <div>区間をクリックして支出額を編集</div>
-      </div>
+      {readOnly ? (
+        <div className="text-xs text-gray-500">
+          予算から作成した支出区間です。支出額・区間は予算の支出項目と退職後の支出に切り替える年齢で変更してください
+        </div>
+      ) : (
+        <div className="text-xs text-gray-500">
+          <div>▲をドラッグして年齢境界を調整</div>
+          <div>区間をクリックして支出額を編集</div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tooltip } from '@/components/ui/tooltip';
+import ExpenseForm from '@/components/forms/expense-form';
+import { EXPENSE_CATEGORY_LABELS } from '@/lib/expense-category';
+import { FREQUENCY_LABELS, summarizeBudget, toMonthlyAmount } from '@/lib/expense-budget';
+import { ExpenseBudget, ExpenseFormData } from '@/lib/types';
+
+interface ExpenseBudgetFormProps {
+  budget?: ExpenseBudget;
+  currentAge: number;
+  lifeExpectancy: number;
+  fireAge?: number; // FIRE達成年齢（退職年齢の初期値）
+  onBudgetChange: (budget: ExpenseBudget | undefined) => void;
+}
+
+export default function ExpenseBudgetForm({
+  budget,
+  currentAge,
+  lifeExpectancy,
+  fireAge,
+  onBudgetChange,
+}: ExpenseBudgetFormProps) {
+  // 編集中の支出項目（'new' は追加）
+  const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null);
+
+  const enabled = !!budget;
+  const items = budget?.items ?? [];
+  const editingExpense = items.find(expense => expense.id === editingExpenseId);
+
+  // 予算の設定を切り替え（退職年齢はFIRE達成年齢から開始）
+  const handleToggle = (checked: boolean) => {
+    onBudgetChange(checked
+      ? { items: [], retirementAge: fireAge ?? lifeExpectancy }
+      : undefined
+    );
+    setEditingExpenseId(null);
+  };
+
+  // 支出項目の保存（追加または更新、金額は万円で入力して円に換算）
+  const handleSubmit = async (formData: ExpenseFormData) => {
+    if (!budget) return;
+    const data = { ...formData, amount: formData.amount * 10000 };
+    const now = new Date();
+    const updatedItems = editingExpense
+      ? items.map(expense => expense.id === editingExpense.id ? { ...expense, ...data, updatedAt: now } : expense)
+      : [...items, { ...data, id: Date.now().toString(), createdAt: now, updatedAt: now }];
+    onBudgetChange({ ...budget, items: updatedItems });
+    setEditingExpenseId(null);
+  };
+
+  const handleRemove = (id: string) => {
+    if (!budget) return;
+    onBudgetChange({ ...budget, items: items.filter(expense => expense.id !== id) });
+  };
+
+  const handleRetirementAgeChange = (retirementAge: number) => {
+    if (!budget) return;
+    onBudgetChange({
+      ...budget,
+      retirementAge: Math.max(currentAge, Math.min(lifeExpectancy, retirementAge)),
+    });
+  };
+
+  const workingTotals = summarizeBudget(items);
+  const retiredTotals = summarizeBudget(items, true);
+  const totalRows = [
+    { label: '必需', working: workingTotals.essential, retired: retiredTotals.essential },
+    { label: '裁量', working: workingTotals.discretionary, retired: retiredTotals.discretionary },
+    { label: '合計', working: workingTotals.total, retired: retiredTotals.total },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2 h-6">
+          <Label>予算</Label>
+          <Tooltip content="支出項目を月次・四半期・年次の金額で入力すると、月額に換算して支出区間を作成します。退職年齢以降は項目ごとの退職後の支出倍率を適用した区間になります。予算の設定をやめると、設定前の支出区間に戻ります。" position="right">
+            <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+          </Tooltip>
+        </div>
+        {enabled && editingExpenseId === null && (
+          <Button
+            type="button"
+            onClick={() => setEditingExpenseId('new')}
+            size="sm"
+            variant="outline"
+          >
+            追加
+          </Button>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="rounded border-gray-300"
+        />
+        支出項目の予算から支出区間を作成する
+      </label>
+
+      {budget && (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-700">退職後の支出に切り替える年齢</span>
+            <div className="relative w-24">
+              <Input
+                type="number"
+                value={budget.retirementAge}
+                onChange={(e) => handleRetirementAgeChange(Number(e.target.value))}
+                min={currentAge}
+                max={lifeExpectancy}
+                className="pr-8"
+                noSpinner
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                歳
+              </span>
+            </div>
+            {fireAge !== undefined && fireAge !== budget.retirementAge && (
+              <Button
+                type="button"
+                onClick={() => handleRetirementAgeChange(fireAge)}
+                size="sm"
+                variant="outline"
+              >
+                FIRE達成年齢（{fireAge}歳）に合わせる
+              </Button>
+            )}
+          </div>
+
+          {editingExpenseId !== null && (
+            <ExpenseForm
+              key={editingExpenseId}
+              onSubmit={handleSubmit}
+              onCancel={() => setEditingExpenseId(null)}
+              initialData={editingExpense && { ...editingExpense, amount: editingExpense.amount / 10000 }}
+            />
+          )}
+
+          {items.length > 0 ? (
+            <div className="space-y-2">
+              {items.map(expense => (
+                <div key={expense.id} className="flex items-center gap-2 p-2 bg-white rounded border border-gray-200 text-sm">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-800 truncate">{expense.name}</span>
+                      <span className="text-xs text-gray-500">{EXPENSE_CATEGORY_LABELS[expense.category]}</span>
+                      <span className={`text-xs px-1.5 rounded ${expense.isEssential ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-600'}`}>
+                        {expense.isEssential ? '必需' : '裁量'}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {FREQUENCY_LABELS[expense.frequency]} {(expense.amount / 10000).toFixed(1)}万円
+                      （月額 {(toMonthlyAmount(expense) / 10000).toFixed(1)}万円、退職後 ×{expense.retirementMultiplier}）
+                    </div>
+                  </div>
+                  <Button
+                    type="button"
+                    onClick={() => setEditingExpenseId(expense.id)}
+                    size="sm"
+                    variant="outline"
+                  >
+                    編集
+                  </Button>
+                  <Button
+                    type="button"
+                    onClick={() => handleRemove(expense.id)}
+                    size="sm"
+                    variant="outline"
+                  >
+                    削除
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-xs text-gray-500">
+              支出項目を追加すると、支出区間を予算から作成します
+            </div>
+          )}
+
+          {/* 必需・裁量の月額の集計 */}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500">
+                <th className="text-left font-normal">月額</th>
+                <th className="text-right font-normal">現役時（〜{budget.retirementAge - 1}歳）</th>
+                <th className="text-right font-normal">退職後（{budget.retirementAge}歳〜）</th>
+              </tr>
+            </thead>
+            <tbody>
+              {totalRows.map(row => (
+                <tr key={row.label} className={row.label === '合計' ? 'border-t border-gray-200 font-semibold' : ''}>
+                  <td className="py-0.5 text-gray-700">{row.label}</td>
+                  <td className="py-0.5 text-right">{(row.working / 10000).toFixed(1)}万円</td>
+                  <td className="py-0.5 text-right">{(row.retired / 10000).toFixed(1)}万円</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tooltip } from '@/components/ui/tooltip';
+import { EXPENSE_CATEGORY_LABELS, sumExpenseComponents } from '@/lib/expense-category';
+import { ExpenseCategory, ExpenseComponent, ExpenseSegment } from '@/lib/types';
+
+interface ExpenseCategoryFormProps {
+  segments: ExpenseSegment[];
+  differentials?: Partial<Record<ExpenseCategory, number>>;
+  readOnly?: boolean; // 予算から作成した支出区間など、内訳を編集できない場合（インフレ率の上乗せは変更できる）
+  onSegmentsChange: (segments: ExpenseSegment[]) => void;
+  onDifferentialsChange: (differentials: Partial<Record<ExpenseCategory, number>> | undefined) => void;
+}
+
+export default function ExpenseCategoryForm({
+  segments,
+  differentials,
+  readOnly = false,
+  onSegmentsChange,
+  onDifferentialsChange,
+}: ExpenseCategoryFormProps) {
+  const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(null);
+  const selectedSegment = segments.find(segment => segment.id === selectedSegmentId) ?? segments[0];
+
+  const updateSegment = (updated: ExpenseSegment) => {
+    onSegmentsChange(segments.map(segment => segment.id === updated.id ? updated : segment));
+  };
+
+  // 内訳の設定を開始（現在の月間支出額を「その他」として設定）
+  const startBreakdown = () => {
+    if (!selectedSegment) return;
+    updateSegment({
+      ...selectedSegment,
+      components: [{ category: ExpenseCategory.OTHER, monthlyAmount: selectedSegment.monthlyExpenses }],
+    });
+  };
+
+  // 内訳の解除（月間支出額は内訳の合計のまま）
+  const clearBreakdown = () => {
+    if (!selectedSegment) return;
+    updateSegment({ ...selectedSegment, components: undefined });
+  };
+
+  // 費目の月額を変更し、月間支出額を内訳の合計に合わせる
+  const updateComponent = (category: ExpenseCategory, monthlyAmount: number) => {
+    if (!selectedSegment) return;
+    const others = (selectedSegment.components ?? []).filter(component => component.category !== category);
+    const components: ExpenseComponent[] = monthlyAmount > 0 ? [...others, { category, monthlyAmount }] : others;
+    const ordered = (Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[])
+      .map(key => components.find(component => component.category === key))
+      .filter((component): component is ExpenseComponent => component !== undefined);
+    updateSegment({
+      ...selectedSegment,
+      monthlyExpenses: sumExpenseComponents(ordered),
+      components: ordered,
+    });
+  };
+
+  // 費目別のインフレ率の上乗せを変更（すべて0の場合は未設定）
+  const updateDifferential = (category: ExpenseCategory, value: number) => {
+    const next = { ...differentials, [category]: value };
+    const isAllZero = Object.values(next).every(differential => !differential);
+    onDifferentialsChange(isAllZero ? undefined : next);
+  };
+
+  const hasBreakdown = !!selectedSegment?.components && selectedSegment.components.length > 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2 h-6">
+          <Label>費目別の内訳</Label>
+          <Tooltip content="支出区間の月間支出を費目に分けると、費目ごとに一般的なインフレ率への上乗せ（教育費・医療費など）を反映して計算します。内訳のない支出区間は「その他」として計算します。" position="right">
+            <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+          </Tooltip>
+        </div>
+        {selectedSegment && !readOnly && (
+          <Button
+            type="button"
+            onClick={hasBreakdown ? clearBreakdown : startBreakdown}
+            size="sm"
+            variant="outline"
+          >
+            {hasBreakdown ? '内訳を解除' : '内訳を設定'}
+          </Button>
+        )}
+      </div>
+
+      {/* 支出区間の選択 */}
+      <div className="flex flex-wrap gap-2">
+        {segments.map(segment => (
+          <button
+            key={segment.id}
+            type="button"
+            onClick={() => setSelectedSegmentId(segment.id)}
+            className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+              segment.id === selectedSegment?.id
+                ? 'bg-blue-100 text-blue-700 border-blue-500'
+                : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {segment.startAge}-{segment.endAge}歳
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-[1fr_1fr_1fr] gap-2 items-center">
+        <span className="text-xs text-gray-500">費目</span>
+        <span className="text-xs text-gray-500">月額</span>
+        <span className="text-xs text-gray-500">インフレ率の上乗せ</span>
+        {(Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[]).map(category => {
+          const component = selectedSegment?.components?.find(c => c.category === category);
+          return (
+            <div key={category} className="contents">
+              <span className="text-sm text-gray-700">{EXPENSE_CATEGORY_LABELS[category]}</span>
+              <div className="relative">
+                <Input
+                  type="number"
+                  value={component ? component.monthlyAmount / 10000 : ''}
+                  onChange={(e) => updateComponent(category, Number(e.target.value) * 10000)}
+                  min="0"
+                  step="0.1"
+                  placeholder="0"
+                  disabled={readOnly || !hasBreakdown}
+                  className="pr-10"
+                  noSpinner
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                  万円
+                </span>
+              </div>
+              <div className="relative">
+                <Input
+                  type="number"
+                  value={differentials?.[category] ?? 0}
+                  onChange={(e) => updateDifferential(category, Number(e.target.value))}
+                  step="0.1"
+                  className="pr-8"
+                  noSpinner
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                  %
+                </span>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {selectedSegment && !hasBreakdown && (
+        <div className="text-xs text-gray-500">
+          内訳なし（月間支出額 {(selectedSegment.monthlyExpenses / 10000).toFixed(1)}万円を「その他」として計算）
+        </div>
+      )}
+    </div>
+  );
+}
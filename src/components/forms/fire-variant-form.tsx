@@ -0,0 +1,84 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tooltip } from '@/components/ui/tooltip';
+import { DEFAULT_FIRE_VARIANT_SETTINGS } from '@/lib/fire-variants';
+import { FireVariantSettings } from '@/lib/types';
+
+interface FireVariantFormProps {
+  settings?: FireVariantSettings;
+  maxWorkingAge: number; // 働ける上限年齢（コーストFIREの完全退職年齢の上限）
+  showVariants: boolean; // 達成年齢を計算して表示するか（計算に時間がかかるため）
+  onSettingsChange: (settings: FireVariantSettings) => void;
+  onShowVariantsChange: (showVariants: boolean) => void;
+}
+
+// 入力欄の定義（金額は万円単位で入力）
+const FIELDS: Array<{ key: keyof FireVariantSettings; label: string; unit: string; step: string }> = [
+  { key: 'leanExpenseMultiplier', label: 'リーンFIREの生活費', unit: '倍', step: '0.1' },
+  { key: 'fatExpenseMultiplier', label: 'ファットFIREの生活費', unit: '倍', step: '0.1' },
+  { key: 'baristaIncome', label: 'バリスタFIREのパート収入', unit: '万円/年', step: '10' },
+  { key: 'baristaEndAge', label: 'パート収入を得る年齢', unit: '歳まで', step: '1' },
+  { key: 'coastRetirementAge', label: 'コーストFIREの完全退職', unit: '歳', step: '1' },
+];
+
+export default function FireVariantForm({
+  settings = DEFAULT_FIRE_VARIANT_SETTINGS,
+  maxWorkingAge,
+  showVariants,
+  onSettingsChange,
+  onShowVariantsChange,
+}: FireVariantFormProps) {
+  const toDisplayValue = (key: keyof FireVariantSettings) =>
+    key === 'baristaIncome' ? settings[key] / 10000 : settings[key];
+
+  const updateField = (key: keyof FireVariantSettings, value: number) => {
+    if (key === 'coastRetirementAge') {
+      // 給与は働ける上限年齢で打ち切られるため、完全に退職する年齢は上限年齢までとする
+      onSettingsChange({ ...settings, coastRetirementAge: Math.min(value, maxWorkingAge) });
+      return;
+    }
+    onSettingsChange({ ...settings, [key]: key === 'baristaIncome' ? value * 10000 : value });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 h-6">
+        <Label>FIREの種類</Label>
+        <Tooltip content="リーン・ファットFIREは退職後の生活費に倍率をかけ、バリスタFIREは退職後にパート収入を得る場合、コーストFIREは積立をやめて完全に退職するまで生活費・税金・社会保険料などの支出を収入で賄う場合の達成年齢を計算します。" position="right">
+          <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+        </Tooltip>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={showVariants}
+          onChange={(e) => onShowVariantsChange(e.target.checked)}
+          className="rounded border-gray-300"
+        />
+        FIREの種類ごとの達成年齢を計算する
+      </label>
+      {showVariants && FIELDS.map(field => (
+        <div key={field.key} className="grid grid-cols-[2fr_1fr] gap-3 items-center">
+          <Label className="text-sm font-medium">{field.label}</Label>
+          <div className="relative">
+            <Input
+              type="number"
+              value={toDisplayValue(field.key)}
+              onChange={(e) => updateField(field.key, Number(e.target.value))}
+              min="0"
+              max={field.key === 'coastRetirementAge' ? maxWorkingAge : undefined}
+              step={field.step}
+              className="pr-16"
+              noSpinner
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+              {field.unit}
+            </span>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tooltip } from '@/components/ui/tooltip';
+import { ExpenseSegment, FlexibleSpendingSettings } from '@/lib/types';
+
+interface FlexibleSpendingFormProps {
+  settings?: FlexibleSpendingSettings;
+  expenseSegments: ExpenseSegment[];
+  onSettingsChange: (settings: FlexibleSpendingSettings | undefined) => void;
+}
+
+// 設定を始めるときの既定値
+const DEFAULT_SETTINGS: FlexibleSpendingSettings = {
+  drawdownThreshold: 20,
+  withdrawalRateThreshold: 5,
+  cutRate: 50,
+};
+
+export default function FlexibleSpendingForm({
+  settings,
+  expenseSegments,
+  onSettingsChange,
+}: FlexibleSpendingFormProps) {
+  const hasDiscretionaryExpenses = expenseSegments.some(segment => (segment.discretionaryExpenses ?? 0) > 0);
+
+  // 空欄は判定しない（undefined）
+  const parseOptional = (value: string): number | undefined => value === '' ? undefined : Number(value);
+
+  const fields: Array<{ key: keyof FlexibleSpendingSettings; label: string; placeholder: string }> = [
+    { key: 'drawdownThreshold', label: '下落率', placeholder: '判定しない' },
+    { key: 'withdrawalRateThreshold', label: '取り崩し率', placeholder: '判定しない' },
+    { key: 'cutRate', label: '削減率', placeholder: '50' },
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 h-6">
+        <Label>裁量的な支出の削減</Label>
+        <Tooltip content="運用リターンがピークから下落率以上下がった場合はピークまで回復するまで、前年の取り崩し率が上限を超えた場合はその翌年、裁量的な支出を削減率だけ減らします。年次計算とモンテカルロシミュレーションの両方に反映します。" position="right">
+          <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+        </Tooltip>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!settings}
+          onChange={(e) => onSettingsChange(e.target.checked ? DEFAULT_SETTINGS : undefined)}
+          className="rounded border-gray-300"
+        />
+        相場が悪い年に裁量的な支出を削減する
+      </label>
+
+      {settings && (
+        <div className="grid grid-cols-3 gap-3">
+          {fields.map(field => (
+            <div key={field.key}>
+              <span className="text-xs text-gray-500">{field.label}</span>
+              <div className="relative">
+                <Input
+                  type="number"
+                  value={settings[field.key] ?? ''}
+                  placeholder={field.placeholder}
+                  onChange={(e) => onSettingsChange({
+                    ...settings,
+                    [field.key]: field.key === 'cutRate' ? Number(e.target.value) : parseOptional(e.target.value),
+                  })}
+                  min="0"
+                  max="100"
+                  step="1"
+                  className="pr-8"
+                  noSpinner
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                  %
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {settings && !hasDiscretionaryExpenses && (
+        <div className="text-xs text-gray-500">
+          裁量的な支出がありません。支出・負債欄の予算で「必需品の支出」のチェックを外した支出項目が削減の対象になります
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tooltip } from '@/components/ui/tooltip';
+import { AssetHolding, AssetType, GlidePathPoint } from '@/lib/types';
+import { ASSET_CLASS_LABELS, getAssetClass } from '@/lib/rebalancing';
+
+interface GlidePathFormProps {
+  glidePath: GlidePathPoint[];
+  holdings: AssetHolding[];
+  currentAge: number;
+  onGlidePathChange: (glidePath: GlidePathPoint[]) => void;
+}
+
+// 節目を追加する際の年齢の間隔
+const DEFAULT_AGE_STEP = 10;
+
+export default function GlidePathForm({
+  glidePath,
+  holdings,
+  currentAge,
+  onGlidePathChange,
+}: GlidePathFormProps) {
+  // 保有銘柄またはグライドパスに含まれる資産クラスを列として表示
+  const assetClasses = (Object.keys(ASSET_CLASS_LABELS) as AssetType[]).filter(assetClass =>
+    holdings.some(holding => getAssetClass(holding) === assetClass) ||
+    glidePath.some(point => point.allocations[assetClass] !== undefined)
+  );
+  const columns = assetClasses.length > 0 ? assetClasses : [AssetType.STOCK];
+  const gridTemplate = { gridTemplateColumns: `1fr repeat(${columns.length}, 1fr) auto` };
+
+  const sortedPoints = glidePath.slice().sort((a, b) => a.age - b.age);
+
+  const addPoint = () => {
+    const last = sortedPoints[sortedPoints.length - 1];
+    const nextId = glidePath.reduce((max, point) => Math.max(max, Number(point.id) || 0), 0) + 1;
+    const newPoint: GlidePathPoint = {
+      id: nextId.toString(),
+      age: last ? last.age + DEFAULT_AGE_STEP : currentAge,
+      allocations: last
+        ? { ...last.allocations }
+        : Object.fromEntries(columns.map((assetClass, index) => [assetClass, index === 0 ? 100 : 0])),
+    };
+    onGlidePathChange([...glidePath, newPoint]);
+  };
+
+  const removePoint = (id: string) => {
+    onGlidePathChange(glidePath.filter(point => point.id !== id));
+  };
+
+  const updateAge = (id: string, age: number) => {
+    onGlidePathChange(glidePath.map(point =>
+      point.id === id ? { ...point, age } : point
+    ));
+  };
+
+  const updateAllocation = (id: string, assetClass: AssetType, value: number) => {
+    onGlidePathChange(glidePath.map(point =>
+      point.id === id ? { ...point, allocations: { ...point.allocations, [assetClass]: value } } : point
+    ));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2 h-6">
+          <Label>グライドパス</Label>
+          <Tooltip content="年齢ごとの資産クラス別目標配分です。節目の間は年齢に応じて配分が徐々に変わり、黒字分の投資とリバランスはこの配分に従います。設定すると他の目標配分より優先されます。" position="right">
+            <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+          </Tooltip>
+        </div>
+        <Button
+          type="button"
+          onClick={addPoint}
+          size="sm"
+          variant="outline"
+        >
+          追加
+        </Button>
+      </div>
+
+      {sortedPoints.length > 0 && (
+        <>
+          <div className="grid gap-2" style={gridTemplate}>
+            <Label className="text-sm font-medium">年齢</Label>
+            {columns.map(assetClass => (
+              <Label key={assetClass} className="text-sm font-medium">{ASSET_CLASS_LABELS[assetClass]}</Label>
+            ))}
+            <span className="w-5" />
+          </div>
+          {sortedPoints.map(point => (
+            <div key={point.id} className="grid gap-2 items-center" style={gridTemplate}>
+              <div className="relative">
+                <Input
+                  type="number"
+                  value={point.age}
+                  onChange={(e) => updateAge(point.id, Number(e.target.value))}
+                  min="0"
+                  max="120"
+                  className="pr-8"
+                  noSpinner
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                  歳
+                </span>
+              </div>
+              {columns.map(assetClass => (
+                <div key={assetClass} className="relative">
+                  <Input
+                    type="number"
+                    value={point.allocations[assetClass] ?? ''}
+                    onChange={(e) => updateAllocation(point.id, assetClass, Number(e.target.value))}
+                    min="0"
+                    max="100"
+                    className="pr-8"
+                    noSpinner
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                    %
+                  </span>
+                </div>
+              ))}
+              <Button
+                type="button"
+                onClick={() => removePoint(point.id)}
+                size="sm"
+                className="w-5 h-5 p-0 rounded-full bg-red-500 hover:bg-red-600 text-white flex-shrink-0"
+              >
+                <span className="text-sm font-bold">−</span>
+              </Button>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { GOAL_SEEK_TARGET_LABELS, GOAL_SEEK_VARIABLE_LABELS } from '@/lib/goal-seek';
+import { ExpenseSegment, GoalSeekSettings, GoalSeekTargetType, GoalSeekVariable, SalaryPlan } from '@/lib/types';
+
+interface GoalSeekFormProps {
+  settings: GoalSeekSettings;
+  expenseSegments: ExpenseSegment[];
+  salaryPlans: SalaryPlan[];
+  onSettingsChange: (settings: GoalSeekSettings) => void;
+}
+
+// 目標の既定値（目標の種類を切り替えたときに使用）
+const DEFAULT_TARGET_VALUES: Record<GoalSeekTargetType, number> = {
+  'fire-age': 50,
+  'terminal-wealth': 0,
+  'success-probability': 90,
+};
+
+const selectClassName = 'h-10 px-1 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0';
+
+export default function GoalSeekForm({
+  settings,
+  expenseSegments,
+  salaryPlans,
+  onSettingsChange,
+}: GoalSeekFormProps) {
+  // 想定寿命時点の資産は万円単位で入力
+  const isAmountTarget = settings.targetType === 'terminal-wealth';
+  const targetUnit = settings.targetType === 'fire-age' ? '歳' : isAmountTarget ? '万円' : '%';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-sm font-medium">目標</Label>
+          <select
+            value={settings.targetType}
+            onChange={(e) => {
+              const targetType = e.target.value as GoalSeekTargetType;
+              onSettingsChange({ ...settings, targetType, targetValue: DEFAULT_TARGET_VALUES[targetType] });
+            }}
+            className={`${selectClassName} w-full`}
+          >
+            {(Object.keys(GOAL_SEEK_TARGET_LABELS) as GoalSeekTargetType[]).map(type => (
+              <option key={type} value={type}>{GOAL_SEEK_TARGET_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-sm font-medium">目標値</Label>
+          <div className="relative">
+            <Input
+              type="number"
+              value={isAmountTarget ? settings.targetValue / 10000 : settings.targetValue}
+              onChange={(e) => onSettingsChange({
+                ...settings,
+                targetValue: Number(e.target.value) * (isAmountTarget ? 10000 : 1),
+              })}
+              min="0"
+              step="1"
+              className="pr-10"
+              noSpinner
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+              {targetUnit}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-sm font-medium">求める値</Label>
+          <select
+            value={settings.variable}
+            onChange={(e) => onSettingsChange({ ...settings, variable: e.target.value as GoalSeekVariable })}
+            className={`${selectClassName} w-full`}
+          >
+            {(Object.keys(GOAL_SEEK_VARIABLE_LABELS) as GoalSeekVariable[]).map(variable => (
+              <option key={variable} value={variable}>{GOAL_SEEK_VARIABLE_LABELS[variable]}</option>
+            ))}
+          </select>
+        </div>
+        {settings.variable === 'monthly-expenses' && (
+          <div className="space-y-1">
+            <Label className="text-sm font-medium">支出区間</Label>
+            <select
+              value={settings.expenseSegmentId ?? ''}
+              onChange={(e) => onSettingsChange({ ...settings, expenseSegmentId: e.target.value || undefined })}
+              className={`${selectClassName} w-full`}
+            >
+              <option value="">現在の年齢の区間</option>
+              {expenseSegments.map(segment => (
+                <option key={segment.id} value={segment.id}>{segment.startAge}〜{segment.endAge}歳</option>
+              ))}
+            </select>
+          </div>
+        )}
+        {settings.variable === 'salary' && (
+          <div className="space-y-1">
+            <Label className="text-sm font-medium">給与プラン</Label>
+            <select
+              value={settings.salaryPlanId ?? ''}
+              onChange={(e) => onSettingsChange({ ...settings, salaryPlanId: e.target.value || undefined })}
+              className={`${selectClassName} w-full`}
+            >
+              <option value="">最初の給与プラン</option>
+              {salaryPlans.map(plan => (
+                <option key={plan.id} value={plan.id}>{plan.name || '未設定'}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tooltip } from '@/components/ui/tooltip';
+import { InflationSegment } from '@/lib/types';
+
+interface InflationScheduleFormProps {
+  schedule?: InflationSegment[];
+  inflationRate: number; // 既定のインフレ率（推移を設定しない年齢に適用）
+  currentAge: number;
+  lifeExpectancy: number;
+  onScheduleChange: (schedule: InflationSegment[] | undefined) => void;
+}
+
+export default function InflationScheduleForm({
+  schedule,
+  inflationRate,
+  currentAge,
+  lifeExpectancy,
+  onScheduleChange,
+}: InflationScheduleFormProps) {
+  const [draggedDividerIndex, setDraggedDividerIndex] = useState<number | null>(null);
+  const [editingSegmentId, setEditingSegmentId] = useState<string | null>(null);
+  const [editValue, setEditValue] = useState<string>('');
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [svgWidth, setSvgWidth] = useState(0);
+
+  const segments = schedule ?? [];
+  const enabled = segments.length > 0;
+
+  // SVG幅の取得と更新
+  useEffect(() => {
+    const updateWidth = () => {
+      if (svgRef.current) {
+        setSvgWidth(svgRef.current.clientWidth);
+      }
+    };
+    updateWidth();
+    window.addEventListener('resize', updateWidth);
+    return () => window.removeEventListener('resize', updateWidth);
+  }, [enabled]);
+
+  const totalYears = Math.max(1, lifeExpectancy - currentAge);
+  const height = 120;
+  const barHeight = 60;
+  const margin = { left: 5, right: 5, top: 20, bottom: 40 };
+  const timelineWidth = svgWidth - margin.left - margin.right;
+  const baselineY = margin.top + barHeight;
+
+  // 年齢からX座標への変換
+  const ageToX = (age: number): number => {
+    return margin.left + ((age - currentAge) / totalYears) * timelineWidth;
+  };
+
+  // X座標から年齢への変換
+  const xToAge = (x: number): number => {
+    const relativeX = x - margin.left;
+    const age = currentAge + (relativeX / timelineWidth) * totalYears;
+    return Math.round(Math.max(currentAge, Math.min(lifeExpectancy, age)));
+  };
+
+  // インフレ率に応じた棒の高さ（マイナスは高さ0）
+  const maxRate = Math.max(...segments.map(s => s.rate), 1);
+  const rateToHeight = (rate: number): number => Math.max(0, rate) / maxRate * (barHeight - 16);
+
+  // 推移の設定を切り替え（設定時は既定のインフレ率の1区間から開始）
+  const handleToggle = (checked: boolean) => {
+    onScheduleChange(checked
+      ? [{ id: Date.now().toString(), startAge: currentAge, endAge: lifeExpectancy, rate: inflationRate }]
+      : undefined
+    );
+    setEditingSegmentId(null);
+  };
+
+  // 区切り線のドラッグ開始
+  const handleDividerPointerDown = (index: number) => {
+    setDraggedDividerIndex(index);
+  };
+
+  // ドラッグ中の処理
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (draggedDividerIndex === null || !svgRef.current) return;
+
+    const rect = svgRef.current.getBoundingClientRect();
+    const newAge = xToAge(e.clientX - rect.left);
+    const prevSegment = segments[draggedDividerIndex];
+    const nextSegment = segments[draggedDividerIndex + 1];
+
+    // 境界制約：隣接区間の最低1歳幅を保証
+    const constrainedAge = Math.max(prevSegment.startAge + 1, Math.min(nextSegment.endAge - 1, newAge));
+
+    onScheduleChange(segments.map((segment, index) => {
+      if (index === draggedDividerIndex) return { ...segment, endAge: constrainedAge };
+      if (index === draggedDividerIndex + 1) return { ...segment, startAge: constrainedAge + 1 };
+      return segment;
+    }));
+  };
+
+  // ドラッグ終了
+  const handlePointerUp = () => {
+    setDraggedDividerIndex(null);
+  };
+
+  // 区間のインフレ率編集
+  const handleSegmentClick = (segment: InflationSegment) => {
+    setEditingSegmentId(segment.id);
+    setEditValue(segment.rate.toString());
+  };
+
+  const handleEditComplete = () => {
+    const rate = parseFloat(editValue);
+    if (editingSegmentId && !isNaN(rate)) {
+      onScheduleChange(segments.map(seg =>
+        seg.id === editingSegmentId ? { ...seg, rate } : seg
+      ));
+    }
+    setEditingSegmentId(null);
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      handleEditComplete();
+    } else if (e.key === 'Escape') {
+      setEditingSegmentId(null);
+    }
+  };
+
+  // 区切り追加（最も長い区間を分割）
+  const handleAddDivider = () => {
+    if (segments.length === 0) return;
+
+    let longestSegmentIndex = 0;
+    segments.forEach((seg, index) => {
+      const longest = segments[longestSegmentIndex];
+      if (seg.endAge - seg.startAge > longest.endAge - longest.startAge) {
+        longestSegmentIndex = index;
+      }
+    });
+
+    const targetSegment = segments[longestSegmentIndex];
+    if (targetSegment.endAge <= targetSegment.startAge) return;
+    const midAge = Math.floor((targetSegment.startAge + targetSegment.endAge) / 2);
+
+    const newSegments = [...segments];
+    newSegments[longestSegmentIndex] = { ...targetSegment, endAge: midAge };
+    newSegments.splice(longestSegmentIndex + 1, 0, {
+      id: Date.now().toString(),
+      startAge: midAge + 1,
+      endAge: targetSegment.endAge,
+      rate: targetSegment.rate,
+    });
+
+    onScheduleChange(newSegments);
+  };
+
+  // 区切り削除（右側の区間を左側の区間に統合）
+  const handleRemoveDivider = (index: number) => {
+    const prevSegment = segments[index];
+    const nextSegment = segments[index + 1];
+    if (!prevSegment || !nextSegment) return;
+
+    const newSegments = [...segments];
+    newSegments.splice(index, 2, { ...prevSegment, endAge: nextSegment.endAge });
+    onScheduleChange(newSegments);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2 h-6">
+          <Label>インフレ率の推移</Label>
+          <Tooltip content="年齢ごとにインフレ率を変えて、給与・年金・生活費・特別支出・臨時収入の物価上昇を計算します。区間の外の年齢には上のインフレ率を使います。" position="right">
+            <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+          </Tooltip>
+        </div>
+        {enabled && (
+          <Button
+            onClick={handleAddDivider}
+            size="sm"
+            variant="outline"
+          >
+            区切り追加
+          </Button>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="rounded border-gray-300"
+        />
+        年齢ごとにインフレ率を設定する
+      </label>
+
+      {enabled && (
+        <>
+          <svg
+            ref={svgRef}
+            width="100%"
+            height={height}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            className="select-none"
+            style={{ touchAction: 'none' }}
+          >
+            {/* 年齢軸ラベル */}
+            <text x={margin.left} y={height - 10} fontSize="12" fill="#666">
+              {currentAge}歳
+            </text>
+            <text x={svgWidth - margin.right} y={height - 10} fontSize="12" fill="#666" textAnchor="end">
+              {lifeExpectancy}歳
+            </text>
+
+            {/* 基準線 */}
+            <line
+              x1={margin.left}
+              y1={baselineY}
+              x2={svgWidth - margin.right}
+              y2={baselineY}
+              stroke="#999"
+              strokeWidth="1"
+            />
+
+            {/* 区間表示（インフレ率に応じた高さの棒） */}
+            {segments.map((segment, index) => {
+              const x1 = ageToX(segment.startAge);
+              // 次の区間の開始位置まで描画して空白をなくす
+              const x2 = index < segments.length - 1
+                ? ageToX(segments[index + 1].startAge)
+                : ageToX(segment.endAge + 1);
+              const width = Math.max(0, x2 - x1);
+              const barTop = baselineY - rateToHeight(segment.rate);
+
+              return (
+                <g key={segment.id}>
+                  {/* クリック領域 */}
+                  <rect
+                    x={x1}
+                    y={margin.top}
+                    width={width}
+                    height={barHeight}
+                    fill="transparent"
+                    className="cursor-pointer"
+                    onClick={() => handleSegmentClick(segment)}
+                  />
+
+                  {/* インフレ率の棒 */}
+                  <rect
+                    x={x1}
+                    y={barTop}
+                    width={width}
+                    height={baselineY - barTop}
+                    fill={segment.rate < 0 ? '#93c5fd' : '#fdba74'}
+                    stroke="#999"
+                    strokeWidth="1"
+                    pointerEvents="none"
+                  />
+
+                  {/* インフレ率表示 */}
+                  <text
+                    x={x1 + width / 2}
+                    y={Math.min(barTop, baselineY) - 4}
+                    fontSize="13"
+                    fontWeight="600"
+                    fill="#333"
+                    textAnchor="middle"
+                    pointerEvents="none"
+                  >
+                    {segment.rate}%
+                  </text>
+
+                  {/* 年齢表示 */}
+                  <text
+                    x={x1 + width / 2}
+                    y={baselineY + 14}
+                    fontSize="11"
+                    fill="#555"
+                    textAnchor="middle"
+                    pointerEvents="none"
+                  >
+                    {segment.startAge}-{segment.endAge}歳
+                  </text>
+                </g>
+              );
+            })}
+
+            {/* 区切り線ハンドル */}
+            {segments.slice(0, -1).map((_, index) => {
+              const x = ageToX(segments[index + 1].startAge);
+
+              return (
+                <g key={`divider-${index}`}>
+                  {/* 区切り線 */}
+                  <line
+                    x1={x}
+                    y1={margin.top}
+                    x2={x}
+                    y2={baselineY}
+                    stroke="#333"
+                    strokeWidth="2"
+                    onPointerDown={() => handleDividerPointerDown(index)}
+                    className="cursor-ew-resize"
+                    style={{ touchAction: 'none' }}
+                  />
+
+                  {/* 削除ボタン（ホバーで表示） */}
+                  <g
+                    onClick={() => handleRemoveDivider(index)}
+                    className="cursor-pointer transition opacity-0 hover:opacity-100"
+                  >
+                    <circle cx={x} cy={margin.top - 5} r="6" fill="#ef4444" />
+                    <text
+                      x={x}
+                      y={margin.top - 2}
+                      fontSize="10"
+                      fill="#fff"
+                      textAnchor="middle"
+                      fontWeight="bold"
+                      pointerEvents="none"
+                    >
+                      ×
+                    </text>
+                  </g>
+                </g>
+              );
+            })}
+          </svg>
+
+          {/* 編集欄（インライン） */}
+          {editingSegmentId && (
+            <div className="flex items-center gap-2 p-2 bg-blue-50 rounded border border-blue-200">
+              <span className="text-sm">インフレ率 [%]</span>
+              <div className="flex items-center gap-2 ml-auto">
+                <Input
+                  type="number"
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  onBlur={handleEditComplete}
+                  onKeyDown={handleEditKeyDown}
+                  step="0.1"
+                  className="w-24"
+                  autoFocus
+                />
+                <div className="text-xs text-gray-500">
+                  <div>Enter: 確定</div>
+                  <div>Esc: キャンセル</div>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="text-xs text-gray-500">
+            <div>区切り線をドラッグして年齢境界を調整</div>
+            <div>区間をクリックしてインフレ率を編集</div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tooltip } from '@/components/ui/tooltip';
+import { NationalHealthInsuranceRates, PostRetirementHealthInsurance, PostRetirementInsuranceSettings } from '@/lib/types';
+import { DEFAULT_NHI_RATES, POST_RETIREMENT_HEALTH_INSURANCE_LABELS } from '@/lib/post-retirement-insurance';
+
+interface PostRetirementInsuranceFormProps {
+  settings?: PostRetirementInsuranceSettings;
+  onSettingsChange: (settings: PostRetirementInsuranceSettings) => void;
+}
+
+// 国民健康保険料の料率の入力欄
+const RATE_FIELDS: Array<{ key: keyof NationalHealthInsuranceRates; label: string; unit: string }> = [
+  { key: 'incomeRate', label: '所得割', unit: '%' },
+  { key: 'perCapitaAmount', label: '均等割', unit: '円' },
+  { key: 'annualLimit', label: '限度額', unit: '円' },
+  { key: 'nursingCareIncomeRate', label: '介護分 所得割', unit: '%' },
+  { key: 'nursingCarePerCapitaAmount', label: '介護分 均等割', unit: '円' },
+  { key: 'nursingCareAnnualLimit', label: '介護分 限度額', unit: '円' },
+];
+
+const selectClassName = 'h-10 px-1 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0';
+
+export default function PostRetirementInsuranceForm({
+  settings,
+  onSettingsChange,
+}: PostRetirementInsuranceFormProps) {
+  const current: PostRetirementInsuranceSettings = settings ?? { enabled: false, healthInsurance: 'nhi' };
+  const rates = current.nhiRates ?? DEFAULT_NHI_RATES;
+
+  const updateRate = (key: keyof NationalHealthInsuranceRates, value: number) => {
+    onSettingsChange({ ...current, nhiRates: { ...rates, [key]: value } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 h-6">
+        <Label>退職後の社会保険料</Label>
+        <Tooltip content="最後の給与プランが終わった翌年から、前年の所得に基づく国民健康保険料と60歳までの国民年金保険料を計上します。料率はお住まいの市区町村の値に変更できます。手取りで入力した給与は、額面に換算した概算額から所得を計算します。" position="right">
+          <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+        </Tooltip>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={current.enabled}
+          onChange={(e) => onSettingsChange({ ...current, enabled: e.target.checked })}
+          className="rounded border-gray-300"
+        />
+        国民健康保険料・国民年金保険料を計上する
+      </label>
+
+      {current.enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-sm font-medium">退職後2年間の健康保険</Label>
+              <select
+                value={current.healthInsurance}
+                onChange={(e) => onSettingsChange({ ...current, healthInsurance: e.target.value as PostRetirementHealthInsurance })}
+                className={`${selectClassName} w-full`}
+              >
+                {(Object.keys(POST_RETIREMENT_HEALTH_INSURANCE_LABELS) as PostRetirementHealthInsurance[]).map(option => (
+                  <option key={option} value={option}>{POST_RETIREMENT_HEALTH_INSURANCE_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm font-medium">国保の加入人数</Label>
+              <div className="relative">
+                <Input
+                  type="number"
+                  value={current.householdMembers ?? 1}
+                  onChange={(e) => onSettingsChange({ ...current, householdMembers: Number(e.target.value) })}
+                  min="1"
+                  step="1"
+                  className="pr-8"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                  人
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {RATE_FIELDS.map(field => (
+              <div key={field.key} className="space-y-1">
+                <Label className="text-xs font-medium text-gray-600">{field.label}</Label>
+                <div className="relative">
+                  <Input
+                    type="number"
+                    value={rates[field.key]}
+                    onChange={(e) => updateRate(field.key, Number(e.target.value))}
+                    min="0"
+                    step={field.unit === '%' ? '0.01' : '100'}
+                    className="pr-8"
+                    noSpinner
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                    {field.unit}
+                  </span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tooltip } from '@/components/ui/tooltip';
+import { AssetHolding, AssetType, RebalancingMethod, RebalancingSettings } from '@/lib/types';
+import { ASSET_CLASS_LABELS, getAssetClass } from '@/lib/rebalancing';
+
+interface RebalancingFormProps {
+  holdings: AssetHolding[];
+  assetClassTargets?: Partial<Record<AssetType, number>>;
+  rebalancing?: RebalancingSettings;
+  exchangeRate: number | null;
+  onHoldingsChange: (holdings: AssetHolding[]) => void;
+  onAssetClassTargetsChange: (targets: Partial<Record<AssetType, number>>) => void;
+  onRebalancingChange: (settings: RebalancingSettings) => void;
+}
+
+const rebalancingMethodOptions: { value: RebalancingMethod; label: string }[] = [
+  { value: 'none', label: 'しない' },
+  { value: 'periodic', label: '定期' },
+  { value: 'threshold', label: '乖離幅' },
+];
+
+const selectClassName = 'h-10 px-1 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0';
+
+export default function RebalancingForm({
+  holdings,
+  assetClassTargets,
+  rebalancing,
+  exchangeRate,
+  onHoldingsChange,
+  onAssetClassTargetsChange,
+  onRebalancingChange,
+}: RebalancingFormProps) {
+  // 銘柄ごとの目標配分が1つでもあれば銘柄ごとの指定とみなす（エンジンと同じ判定）
+  const targetMode = holdings.some(holding => holding.targetAllocation !== undefined) ? 'holding' : 'class';
+  const method = rebalancing?.method ?? 'none';
+
+  // 現在の構成比（%）
+  const currentShares = (() => {
+    const values = holdings.map(holding => {
+      const value = holding.quantity * holding.pricePerUnit;
+      return holding.currency === 'USD' ? value * (exchangeRate ?? 150) : value;
+    });
+    const total = values.reduce((sum, value) => sum + value, 0);
+    return values.map(value => total > 0 ? value / total * 100 : 0);
+  })();
+
+  // 目標配分を指定している資産クラス（保有銘柄のある資産クラスを含む）
+  const assetClasses = (Object.keys(ASSET_CLASS_LABELS) as AssetType[]).filter(assetClass =>
+    holdings.some(holding => getAssetClass(holding) === assetClass) ||
+    (assetClassTargets?.[assetClass] ?? 0) > 0
+  );
+
+  const targetTotal = targetMode === 'holding'
+    ? holdings.reduce((sum, holding) => sum + (holding.targetAllocation ?? 0), 0)
+    : assetClasses.reduce((sum, assetClass) => sum + (assetClassTargets?.[assetClass] ?? 0), 0);
+
+  const handleTargetModeChange = (mode: string) => {
+    if (mode === 'holding') {
+      // 現在の構成比を初期値にする
+      onHoldingsChange(holdings.map((holding, index) => ({
+        ...holding,
+        targetAllocation: Math.round(currentShares[index]),
+      })));
+    } else {
+      onHoldingsChange(holdings.map(holding => ({ ...holding, targetAllocation: undefined })));
+    }
+  };
+
+  const updateHolding = (id: string, changes: Partial<AssetHolding>) => {
+    onHoldingsChange(holdings.map(holding =>
+      holding.id === id ? { ...holding, ...changes } : holding
+    ));
+  };
+
+  const updateClassTarget = (assetClass: AssetType, value: number) => {
+    onAssetClassTargetsChange({
+      ...assetClassTargets,
+      [assetClass]: value,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <div className="flex items-center gap-2 h-6">
+            <Label htmlFor="rebalancingMethod">リバランス</Label>
+            <Tooltip content="定期リバランスは指定した間隔で、乖離幅リバランスは目標配分からのずれが許容幅を超えた年に、目標配分に戻るよう売買します。特定口座の売却益には譲渡益税がかかり、iDeCoは対象外です。" position="right">
+              <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+            </Tooltip>
+          </div>
+          <select
+            id="rebalancingMethod"
+            value={method}
+            onChange={(e) => onRebalancingChange({ ...rebalancing, method: e.target.value as RebalancingMethod })}
+            className={`w-full ${selectClassName}`}
+          >
+            {rebalancingMethodOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        {method === 'periodic' && (
+          <div>
+            <Label htmlFor="rebalancingInterval">間隔</Label>
+            <div className="relative">
+              <Input
+                id="rebalancingInterval"
+                type="number"
+                value={rebalancing?.intervalYears ?? 1}
+                onChange={(e) => onRebalancingChange({ ...rebalancing, method, intervalYears: Number(e.target.value) })}
+                min="1"
+                max="10"
+                className="pr-8"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                年
+              </span>
+            </div>
+          </div>
+        )}
+        {method === 'threshold' && (
+          <div>
+            <Label htmlFor="rebalancingBand">許容幅</Label>
+            <div className="relative">
+              <Input
+                id="rebalancingBand"
+                type="number"
+                value={rebalancing?.toleranceBand ?? 5}
+                onChange={(e) => onRebalancingChange({ ...rebalancing, method, toleranceBand: Number(e.target.value) })}
+                min="1"
+                max="50"
+                className="pr-8"
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                %
+              </span>
+            </div>
+          </div>
+        )}
+        <div>
+          <Label htmlFor="targetMode">目標配分の指定</Label>
+          <select
+            id="targetMode"
+            value={targetMode}
+            onChange={(e) => handleTargetModeChange(e.target.value)}
+            className={`w-full ${selectClassName}`}
+          >
+            <option value="holding">銘柄ごと</option>
+            <option value="class">資産クラスごと</option>
+          </select>
+        </div>
+      </div>
+
+      {holdings.length > 0 && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[2fr_1fr_1fr_1fr] gap-2">
+            <Label className="text-sm font-medium">銘柄名</Label>
+            <Label className="text-sm font-medium">資産クラス</Label>
+            <Label className="text-sm font-medium">現在</Label>
+            <Label className="text-sm font-medium">{targetMode === 'holding' ? '目標' : ''}</Label>
+          </div>
+          {holdings.map((holding, index) => (
+            <div key={holding.id} className="grid grid-cols-[2fr_1fr_1fr_1fr] gap-2 items-center">
+              <span className="text-sm text-gray-900 truncate">{holding.name || '未設定'}</span>
+              <select
+                value={getAssetClass(holding)}
+                onChange={(e) => updateHolding(holding.id, { assetClass: e.target.value as AssetType })}
+                className={selectClassName}
+              >
+                {(Object.keys(ASSET_CLASS_LABELS) as AssetType[]).map(assetClass => (
+                  <option key={assetClass} value={assetClass}>{ASSET_CLASS_LABELS[assetClass]}</option>
+                ))}
+              </select>
+              <span className="text-sm text-gray-500 text-right">{currentShares[index].toFixed(1)}%</span>
+              {targetMode === 'holding' ? (
+                <div className="relative">
+                  <Input
+                    type="number"
+                    value={holding.targetAllocation ?? ''}
+                    onChange={(e) => updateHolding(holding.id, { targetAllocation: Number(e.target.value) })}
+                    min="0"
+                    max="100"
+                    className="pr-8"
+                    noSpinner
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                    %
+                  </span>
+                </div>
+              ) : (
+                <span />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {targetMode === 'class' && (
+        <div className="grid grid-cols-4 gap-2">
+          {assetClasses.map(assetClass => (
+            <div key={assetClass}>
+              <Label className="text-sm font-medium">{ASSET_CLASS_LABELS[assetClass]}</Label>
+              <div className="relative">
+                <Input
+                  type="number"
+                  value={assetClassTargets?.[assetClass] ?? ''}
+                  onChange={(e) => updateClassTarget(assetClass, Number(e.target.value))}
+                  min="0"
+                  max="100"
+                  className="pr-8"
+                  noSpinner
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                  %
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="text-xs text-gray-500">
+        目標配分の合計: {targetTotal.toFixed(0)}%
+        {targetTotal > 0 && Math.abs(targetTotal - 100) > 0.5 && '（合計が100%になるよう比率で換算します）'}
+        {targetTotal === 0 && '（未設定の場合は初期構成比で黒字分を投資します）'}
+      </div>
+    </div>
+  );
+}
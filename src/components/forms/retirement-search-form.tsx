@@ -0,0 +1,82 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tooltip } from '@/components/ui/tooltip';
+import { DEFAULT_MAX_WORKING_AGE } from '@/lib/fire-calculator';
+import { HouseholdRole, RetirementSearchPlan, RetirementSearchSettings, SalaryPlan } from '@/lib/types';
+
+interface RetirementSearchFormProps {
+  settings?: RetirementSearchSettings;
+  salaryPlans: SalaryPlan[]; // 本人の給与プラン
+  spouseSalaryPlans?: SalaryPlan[]; // 配偶者の給与プラン（配偶者を設定した場合）
+  onSettingsChange: (settings: RetirementSearchSettings | undefined) => void;
+}
+
+export default function RetirementSearchForm({
+  settings,
+  salaryPlans,
+  spouseSalaryPlans,
+  onSettingsChange,
+}: RetirementSearchFormProps) {
+  const maxWorkingAge = settings?.maxWorkingAge ?? DEFAULT_MAX_WORKING_AGE;
+  const selectedPlans = settings?.plans ?? [];
+
+  const candidates: Array<RetirementSearchPlan & { name: string }> = [
+    ...salaryPlans.map(plan => ({ owner: 'primary' as HouseholdRole, planId: plan.id, name: plan.name || '未設定' })),
+    ...(spouseSalaryPlans ?? []).map(plan => ({ owner: 'spouse' as HouseholdRole, planId: plan.id, name: `${plan.name || '未設定'}（配偶者）` })),
+  ];
+
+  const isSelected = (candidate: RetirementSearchPlan) =>
+    selectedPlans.some(p => p.owner === candidate.owner && p.planId === candidate.planId);
+
+  // 選択がなくなった場合は既定（本人の最も高い手取り年収の給与プラン）に戻す
+  const togglePlan = (candidate: RetirementSearchPlan, checked: boolean) => {
+    const plans = checked
+      ? [...selectedPlans, { owner: candidate.owner, planId: candidate.planId }]
+      : selectedPlans.filter(p => !(p.owner === candidate.owner && p.planId === candidate.planId));
+    onSettingsChange({ maxWorkingAge, plans: plans.length > 0 ? plans : undefined });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 h-6">
+        <Label>FIRE達成年齢の探索</Label>
+        <Tooltip content="選択した給与プランの退職年齢を同じ年に揃えて動かし、想定寿命まで資産が持続する最も早い退職年齢を探します。選択しない場合は本人の最も高い手取り年収の給与プランを調整します。" position="right">
+          <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+        </Tooltip>
+      </div>
+      <div className="grid grid-cols-[2fr_1fr] gap-3 items-center">
+        <Label className="text-sm font-medium">働ける上限年齢</Label>
+        <div className="relative">
+          <Input
+            type="number"
+            value={maxWorkingAge}
+            onChange={(e) => onSettingsChange({ ...settings, maxWorkingAge: Number(e.target.value) })}
+            min="0"
+            step="1"
+            className="pr-8"
+          />
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+            歳
+          </span>
+        </div>
+      </div>
+      {candidates.length > 0 && (
+        <div className="space-y-1">
+          <Label className="text-sm font-medium">退職年齢を調整する給与プラン</Label>
+          {candidates.map(candidate => (
+            <label key={`${candidate.owner}-${candidate.planId}`} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={isSelected(candidate)}
+                onChange={(e) => togglePlan(candidate, e.target.checked)}
+              />
+              {candidate.name}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
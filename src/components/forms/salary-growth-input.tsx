@@ -0,0 +1,140 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { SalaryGrowthModel, SalaryGrowthType, WageCensusProfile } from '@/lib/types';
+import { SALARY_GROWTH_LABELS, WAGE_CENSUS_PROFILE_LABELS } from '@/lib/salary-growth';
+
+interface SalaryGrowthInputProps {
+  growth?: SalaryGrowthModel;
+  baseAge: number; // 年収を入力した時点の年齢
+  onGrowthChange: (growth: SalaryGrowthModel) => void;
+}
+
+const selectClassName = 'h-8 px-1 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0';
+
+export default function SalaryGrowthInput({
+  growth,
+  baseAge,
+  onGrowthChange,
+}: SalaryGrowthInputProps) {
+  const type = growth?.type ?? 'none';
+
+  const handleTypeChange = (newType: SalaryGrowthType) => {
+    if (newType === 'table' && !growth?.table?.length) {
+      // 基準年齢を100とした初期テーブル
+      onGrowthChange({ ...growth, type: newType, table: [{ age: baseAge, index: 100 }] });
+      return;
+    }
+    onGrowthChange({ ...growth, type: newType });
+  };
+
+  const table = growth?.table ?? [];
+
+  const updateTablePoint = (index: number, field: 'age' | 'index', value: number) => {
+    onGrowthChange({
+      type,
+      ...growth,
+      table: table.map((point, i) => i === index ? { ...point, [field]: value } : point),
+    });
+  };
+
+  const addTablePoint = () => {
+    const last = table[table.length - 1];
+    onGrowthChange({
+      type,
+      ...growth,
+      table: [...table, { age: (last?.age ?? baseAge) + 10, index: last?.index ?? 100 }],
+    });
+  };
+
+  const removeTablePoint = (index: number) => {
+    onGrowthChange({
+      type,
+      ...growth,
+      table: table.filter((_, i) => i !== index),
+    });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+      <span>昇給</span>
+      <select
+        value={type}
+        onChange={(e) => handleTypeChange(e.target.value as SalaryGrowthType)}
+        className={selectClassName}
+      >
+        {(Object.keys(SALARY_GROWTH_LABELS) as SalaryGrowthType[]).map(option => (
+          <option key={option} value={option}>{SALARY_GROWTH_LABELS[option]}</option>
+        ))}
+      </select>
+
+      {type === 'fixed' && (
+        <div className="relative w-24">
+          <Input
+            type="number"
+            value={growth?.annualRaise ?? ''}
+            placeholder="1.5"
+            onChange={(e) => onGrowthChange({ type, ...growth, annualRaise: Number(e.target.value) })}
+            step="0.1"
+            className="h-8 pr-10"
+            noSpinner
+          />
+          <span className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-xs">
+            %/年
+          </span>
+        </div>
+      )}
+
+      {type === 'wage-census' && (
+        <select
+          value={growth?.wageCensusProfile ?? 'all'}
+          onChange={(e) => onGrowthChange({ type, ...growth, wageCensusProfile: e.target.value as WageCensusProfile })}
+          className={selectClassName}
+        >
+          {(Object.keys(WAGE_CENSUS_PROFILE_LABELS) as WageCensusProfile[]).map(profile => (
+            <option key={profile} value={profile}>{WAGE_CENSUS_PROFILE_LABELS[profile]}</option>
+          ))}
+        </select>
+      )}
+
+      {type === 'table' && (
+        <>
+          {table.map((point, index) => (
+            <div key={index} className="flex items-center gap-1">
+              <Input
+                type="number"
+                value={point.age}
+                onChange={(e) => updateTablePoint(index, 'age', Number(e.target.value))}
+                min="0"
+                max="120"
+                className="h-8 w-14"
+                noSpinner
+              />
+              <span>歳:</span>
+              <Input
+                type="number"
+                value={point.index}
+                onChange={(e) => updateTablePoint(index, 'index', Number(e.target.value))}
+                min="0"
+                className="h-8 w-16"
+                noSpinner
+              />
+              <Button
+                type="button"
+                onClick={() => removeTablePoint(index)}
+                size="sm"
+                className="w-4 h-4 p-0 rounded-full bg-red-500 hover:bg-red-600 text-white flex-shrink-0"
+              >
+                <span className="text-xs font-bold">−</span>
+              </Button>
+            </div>
+          ))}
+          <Button type="button" onClick={addTablePoint} size="sm" variant="outline" className="h-8">
+            追加
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tooltip } from '@/components/ui/tooltip';
+import { MAX_COMPARED_SCENARIOS } from '@/lib/scenario';
+import { Scenario } from '@/lib/types';
+
+interface ScenarioManagerProps {
+  scenarios: Scenario[];
+  activeScenarioId: string;
+  comparedScenarioIds: string[];
+  onSelect: (id: string) => void;
+  onClone: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onToggleCompare: (id: string) => void;
+}
+
+export default function ScenarioManager({
+  scenarios,
+  activeScenarioId,
+  comparedScenarioIds,
+  onSelect,
+  onClone,
+  onRename,
+  onDelete,
+  onToggleCompare,
+}: ScenarioManagerProps) {
+  const isCompareFull = comparedScenarioIds.length >= MAX_COMPARED_SCENARIOS;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2 h-6">
+          <Label>シナリオ</Label>
+          <Tooltip content="編集中の計画を複製して名前付きのシナリオを作り、それぞれ個別に編集できます。比較にチェックした2〜4件のシナリオは資産推移とサマリーを並べて表示します。" position="right">
+            <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+          </Tooltip>
+        </div>
+        <Button type="button" onClick={onClone} size="sm" variant="outline">
+          複製
+        </Button>
+      </div>
+      <div className="grid grid-cols-[auto_2fr_auto_auto] gap-3 items-center">
+        <span className="text-xs text-gray-500">編集</span>
+        <span className="text-xs text-gray-500">シナリオ名</span>
+        <span className="text-xs text-gray-500">比較</span>
+        <span className="w-5" />
+        {scenarios.map(scenario => (
+          <div key={scenario.id} className="contents">
+            <input
+              type="radio"
+              name="active-scenario"
+              checked={scenario.id === activeScenarioId}
+              onChange={() => onSelect(scenario.id)}
+            />
+            <Input
+              value={scenario.name}
+              placeholder="シナリオ名"
+              onChange={(e) => onRename(scenario.id, e.target.value)}
+            />
+            <input
+              type="checkbox"
+              checked={comparedScenarioIds.includes(scenario.id)}
+              disabled={!comparedScenarioIds.includes(scenario.id) && isCompareFull}
+              onChange={() => onToggleCompare(scenario.id)}
+            />
+            <Button
+              type="button"
+              onClick={() => onDelete(scenario.id)}
+              size="sm"
+              disabled={scenarios.length <= 1}
+              className="w-5 h-5 p-0 rounded-full bg-red-500 hover:bg-red-600 text-white flex-shrink-0"
+            >
+              <span className="text-sm font-bold">−</span>
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { SENSITIVITY_DELTA_UNITS, SENSITIVITY_DRIVER_LABELS } from '@/lib/sensitivity';
+import { SensitivityDriver, SensitivityMetric } from '@/lib/types';
+
+interface SensitivityFormProps {
+  deltas: Record<SensitivityDriver, number>;
+  metric: SensitivityMetric;
+  onDeltasChange: (deltas: Record<SensitivityDriver, number>) => void;
+  onMetricChange: (metric: SensitivityMetric) => void;
+}
+
+// 評価指標の表示名
+const METRIC_LABELS: Record<SensitivityMetric, string> = {
+  'fire-age': 'FIRE達成年齢',
+  'terminal-assets': '想定寿命時点の資産',
+};
+
+export default function SensitivityForm({
+  deltas,
+  metric,
+  onDeltasChange,
+  onMetricChange,
+}: SensitivityFormProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(METRIC_LABELS) as SensitivityMetric[]).map(key => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => onMetricChange(key)}
+            className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+              metric === key
+                ? 'bg-blue-100 text-blue-700 border-blue-500'
+                : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {METRIC_LABELS[key]}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {(Object.keys(SENSITIVITY_DRIVER_LABELS) as SensitivityDriver[]).map(driver => (
+          <div key={driver} className="space-y-1">
+            <Label className="text-sm font-medium">{SENSITIVITY_DRIVER_LABELS[driver]}</Label>
+            <div className="relative">
+              <Input
+                type="number"
+                value={deltas[driver]}
+                onChange={(e) => onDeltasChange({ ...deltas, [driver]: Number(e.target.value) })}
+                min="0"
+                step={driver === 'return' || driver === 'inflation' ? '0.5' : '1'}
+                className="pr-12"
+                noSpinner
+              />
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                ±{SENSITIVITY_DELTA_UNITS[driver]}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
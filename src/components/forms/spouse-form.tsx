@@ -0,0 +1,294 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tooltip } from '@/components/ui/tooltip';
+import { HouseholdMember, PensionKind, PensionPlan, SalaryAmountType, SalaryPlan } from '@/lib/types';
+import { clampClaimingAge, isPublicPension, PENSION_KIND_LABELS } from '@/lib/public-pension';
+
+interface SpouseFormProps {
+  spouse?: HouseholdMember;
+  primaryAge: number; // 本人の年齢（配偶者を追加したときの初期値）
+  primaryLifeExpectancy: number; // 本人の想定寿命（配偶者を追加したときの初期値）
+  onSpouseChange: (spouse: HouseholdMember | undefined) => void;
+}
+
+const selectClassName = 'h-10 px-1 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0';
+
+export default function SpouseForm({
+  spouse,
+  primaryAge,
+  primaryLifeExpectancy,
+  onSpouseChange,
+}: SpouseFormProps) {
+  const toggleSpouse = (enabled: boolean) => {
+    onSpouseChange(enabled
+      ? { currentAge: primaryAge, lifeExpectancy: primaryLifeExpectancy, salaryPlans: [], pensionPlans: [] }
+      : undefined
+    );
+  };
+
+  const updateSpouse = (updates: Partial<HouseholdMember>) => {
+    if (!spouse) return;
+    onSpouseChange({ ...spouse, ...updates });
+  };
+
+  // 給与プランの追加・更新・削除
+  const addSalaryPlan = () => {
+    if (!spouse) return;
+    const newPlan: SalaryPlan = {
+      id: Date.now().toString(),
+      name: '',
+      startAge: spouse.currentAge,
+      endAge: 60,
+    };
+    updateSpouse({ salaryPlans: [...spouse.salaryPlans, newPlan] });
+  };
+
+  const updateSalaryPlan = (id: string, updates: Partial<SalaryPlan>) => {
+    if (!spouse) return;
+    updateSpouse({
+      salaryPlans: spouse.salaryPlans.map(plan => plan.id === id ? { ...plan, ...updates } : plan)
+    });
+  };
+
+  const removeSalaryPlan = (id: string) => {
+    if (!spouse) return;
+    updateSpouse({ salaryPlans: spouse.salaryPlans.filter(plan => plan.id !== id) });
+  };
+
+  // 年金プランの追加・更新・削除（配偶者の年金は円建て）
+  const addPensionPlan = () => {
+    if (!spouse) return;
+    const newPlan: PensionPlan = {
+      id: Date.now().toString(),
+      name: '',
+      currency: 'JPY',
+      startAge: 65,
+      endAge: spouse.lifeExpectancy,
+    };
+    updateSpouse({ pensionPlans: [...spouse.pensionPlans, newPlan] });
+  };
+
+  const updatePensionPlan = (id: string, updates: Partial<PensionPlan>) => {
+    if (!spouse) return;
+    updateSpouse({
+      pensionPlans: spouse.pensionPlans.map(plan => {
+        if (plan.id !== id) return plan;
+        const updated: PensionPlan = { ...plan, ...updates };
+        // 公的年金は受給開始年齢を繰上げ・繰下げ可能な範囲に丸める
+        if (updates.kind && isPublicPension(updated)) {
+          updated.startAge = clampClaimingAge(plan.startAge);
+          updated.name = plan.name || PENSION_KIND_LABELS[updates.kind];
+        }
+        return updated;
+      })
+    });
+  };
+
+  const removePensionPlan = (id: string) => {
+    if (!spouse) return;
+    updateSpouse({ pensionPlans: spouse.pensionPlans.filter(plan => plan.id !== id) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 h-6">
+        <Label>世帯（配偶者）</Label>
+        <Tooltip content="配偶者の年齢・想定寿命・給与・年金を設定すると、本人と配偶者の収入を同じ暦年で合算して計算します。給与・年金の年齢は配偶者自身の年齢で入力してください。本人の在職中は配偶者を扶養に入っているものとし、退職後の国民健康保険料・国民年金保険料は各自の前年の収入で計算します。" position="right">
+          <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+        </Tooltip>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={spouse !== undefined}
+          onChange={(e) => toggleSpouse(e.target.checked)}
+          className="rounded border-gray-300"
+        />
+        配偶者の収入を含める
+      </label>
+
+      {spouse && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-sm font-medium">配偶者の現在年齢</Label>
+              <div className="relative">
+                <Input
+                  type="number"
+                  value={spouse.currentAge}
+                  onChange={(e) => updateSpouse({ currentAge: Number(e.target.value) })}
+                  min="0"
+                  max={spouse.lifeExpectancy}
+                  step="1"
+                  className="pr-8"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                  歳
+                </span>
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm font-medium">配偶者の想定寿命</Label>
+              <div className="relative">
+                <Input
+                  type="number"
+                  value={spouse.lifeExpectancy}
+                  onChange={(e) => updateSpouse({ lifeExpectancy: Number(e.target.value) })}
+                  min={spouse.currentAge}
+                  step="1"
+                  className="pr-8"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+                  歳
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <Label className="text-sm font-medium">配偶者の給与</Label>
+              <Button type="button" onClick={addSalaryPlan} size="sm" variant="outline">
+                追加
+              </Button>
+            </div>
+            {spouse.salaryPlans.length > 0 && (
+              <div className="grid grid-cols-[2fr_1.2fr_1fr_1fr_1fr_auto] gap-3">
+                <Label className="text-sm font-medium">会社名</Label>
+                <Label className="text-sm font-medium">年収[万円]</Label>
+                <Label className="text-sm font-medium"></Label>
+                <Label className="text-sm font-medium">開始年齢</Label>
+                <Label className="text-sm font-medium">退職年齢</Label>
+                <span className="w-5" />
+              </div>
+            )}
+            {spouse.salaryPlans.map(plan => (
+              <div key={plan.id} className="grid grid-cols-[2fr_1.2fr_1fr_1fr_1fr_auto] gap-3 items-center">
+                <Input
+                  placeholder="パート"
+                  value={plan.name}
+                  onChange={(e) => updateSalaryPlan(plan.id, { name: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  placeholder="300"
+                  value={plan.annualAmount ? (plan.annualAmount / 10000) : ''}
+                  onChange={(e) => updateSalaryPlan(plan.id, { annualAmount: Number(e.target.value) * 10000 })}
+                  min="0"
+                  step="1"
+                  noSpinner
+                />
+                <select
+                  value={plan.amountType || 'net'}
+                  onChange={(e) => updateSalaryPlan(plan.id, { amountType: e.target.value as SalaryAmountType })}
+                  className={selectClassName}
+                >
+                  <option value="net">手取り</option>
+                  <option value="gross">額面</option>
+                </select>
+                <Input
+                  type="number"
+                  value={plan.startAge}
+                  onChange={(e) => updateSalaryPlan(plan.id, { startAge: Number(e.target.value) })}
+                  min="0"
+                  max={plan.endAge}
+                  step="1"
+                />
+                <Input
+                  type="number"
+                  value={plan.endAge}
+                  onChange={(e) => updateSalaryPlan(plan.id, { endAge: Number(e.target.value) })}
+                  min={plan.startAge}
+                  max={spouse.lifeExpectancy}
+                  step="1"
+                />
+                <Button
+                  type="button"
+                  onClick={() => removeSalaryPlan(plan.id)}
+                  size="sm"
+                  className="w-5 h-5 p-0 rounded-full bg-red-500 hover:bg-red-600 text-white flex-shrink-0"
+                >
+                  <span className="text-sm font-bold">−</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <Label className="text-sm font-medium">配偶者の年金</Label>
+              <Button type="button" onClick={addPensionPlan} size="sm" variant="outline">
+                追加
+              </Button>
+            </div>
+            {spouse.pensionPlans.length > 0 && (
+              <div className="grid grid-cols-[1.5fr_1.2fr_1.5fr_1fr_1fr_auto] gap-3">
+                <Label className="text-sm font-medium">年金名</Label>
+                <Label className="text-sm font-medium">種別</Label>
+                <Label className="text-sm font-medium">年受給額</Label>
+                <Label className="text-sm font-medium">開始年齢</Label>
+                <Label className="text-sm font-medium">終了年齢</Label>
+                <span className="w-5" />
+              </div>
+            )}
+            {spouse.pensionPlans.map(plan => (
+              <div key={plan.id} className="grid grid-cols-[1.5fr_1.2fr_1.5fr_1fr_1fr_auto] gap-3 items-center">
+                <Input
+                  placeholder="国民年金"
+                  value={plan.name}
+                  onChange={(e) => updatePensionPlan(plan.id, { name: e.target.value })}
+                />
+                <select
+                  value={plan.kind ?? 'other'}
+                  onChange={(e) => updatePensionPlan(plan.id, { kind: e.target.value as PensionKind })}
+                  className={selectClassName}
+                >
+                  {(Object.keys(PENSION_KIND_LABELS) as PensionKind[]).map(kind => (
+                    <option key={kind} value={kind}>{PENSION_KIND_LABELS[kind]}</option>
+                  ))}
+                </select>
+                <Input
+                  type="number"
+                  placeholder="800000"
+                  value={plan.annualAmount ?? ''}
+                  onChange={(e) => updatePensionPlan(plan.id, { annualAmount: Number(e.target.value) })}
+                  min="0"
+                  step="1"
+                  noSpinner
+                />
+                <Input
+                  type="number"
+                  value={plan.startAge}
+                  onChange={(e) => updatePensionPlan(plan.id, { startAge: Number(e.target.value) })}
+                  min="0"
+                  max={plan.endAge}
+                  step="1"
+                />
+                <Input
+                  type="number"
+                  value={plan.endAge}
+                  onChange={(e) => updatePensionPlan(plan.id, { endAge: Number(e.target.value) })}
+                  min={plan.startAge}
+                  max={spouse.lifeExpectancy}
+                  step="1"
+                />
+                <Button
+                  type="button"
+                  onClick={() => removePensionPlan(plan.id)}
+                  size="sm"
+                  className="w-5 h-5 p-0 rounded-full bg-red-500 hover:bg-red-600 text-white flex-shrink-0"
+                >
+                  <span className="text-sm font-bold">−</span>
+                </Button>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
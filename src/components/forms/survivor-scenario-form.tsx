@@ -0,0 +1,130 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { HouseholdRole, LifeInsurancePolicy, SurvivorScenarioSettings } from '@/lib/types';
+
+interface SurvivorScenarioFormProps {
+  settings: SurvivorScenarioSettings;
+  policies: LifeInsurancePolicy[];
+  onSettingsChange: (settings: SurvivorScenarioSettings) => void;
+  onPoliciesChange: (policies: LifeInsurancePolicy[]) => void;
+}
+
+// 構成員の表示名
+const HOUSEHOLD_ROLE_LABELS: Record<HouseholdRole, string> = {
+  'primary': '本人',
+  'spouse': '配偶者',
+};
+
+const selectClassName = 'h-10 px-1 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0';
+
+export default function SurvivorScenarioForm({
+  settings,
+  policies,
+  onSettingsChange,
+  onPoliciesChange,
+}: SurvivorScenarioFormProps) {
+  const addPolicy = () => {
+    onPoliciesChange([
+      ...policies,
+      { id: Date.now().toString(), name: '', insured: 'primary', payout: 0 },
+    ]);
+  };
+
+  const updatePolicy = (id: string, updates: Partial<LifeInsurancePolicy>) => {
+    onPoliciesChange(policies.map(policy => policy.id === id ? { ...policy, ...updates } : policy));
+  };
+
+  const removePolicy = (id: string) => {
+    onPoliciesChange(policies.filter(policy => policy.id !== id));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-sm font-medium">死亡する人</Label>
+          <select
+            value={settings.deceased}
+            onChange={(e) => onSettingsChange({ ...settings, deceased: e.target.value as HouseholdRole })}
+            className={`${selectClassName} w-full`}
+          >
+            {(Object.keys(HOUSEHOLD_ROLE_LABELS) as HouseholdRole[]).map(role => (
+              <option key={role} value={role}>{HOUSEHOLD_ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-sm font-medium">死亡年齢</Label>
+          <div className="relative">
+            <Input
+              type="number"
+              value={settings.deathAge}
+              onChange={(e) => onSettingsChange({ ...settings, deathAge: Number(e.target.value) })}
+              min="0"
+              step="1"
+              className="pr-8"
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+              歳
+            </span>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <Label className="text-sm font-medium">生命保険（死亡保険金）</Label>
+          <Button type="button" onClick={addPolicy} size="sm" variant="outline">
+            追加
+          </Button>
+        </div>
+        {policies.length > 0 && (
+          <div className="grid grid-cols-[2fr_1fr_1.5fr_auto] gap-3">
+            <Label className="text-sm font-medium">保険名</Label>
+            <Label className="text-sm font-medium">被保険者</Label>
+            <Label className="text-sm font-medium">保険金[万円]</Label>
+            <span className="w-5" />
+          </div>
+        )}
+        {policies.map(policy => (
+          <div key={policy.id} className="grid grid-cols-[2fr_1fr_1.5fr_auto] gap-3 items-center">
+            <Input
+              placeholder="定期保険"
+              value={policy.name}
+              onChange={(e) => updatePolicy(policy.id, { name: e.target.value })}
+            />
+            <select
+              value={policy.insured}
+              onChange={(e) => updatePolicy(policy.id, { insured: e.target.value as HouseholdRole })}
+              className={selectClassName}
+            >
+              {(Object.keys(HOUSEHOLD_ROLE_LABELS) as HouseholdRole[]).map(role => (
+                <option key={role} value={role}>{HOUSEHOLD_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+            <Input
+              type="number"
+              placeholder="3000"
+              value={policy.payout ? policy.payout / 10000 : ''}
+              onChange={(e) => updatePolicy(policy.id, { payout: Number(e.target.value) * 10000 })}
+              min="0"
+              step="1"
+              noSpinner
+            />
+            <Button
+              type="button"
+              onClick={() => removePolicy(policy.id)}
+              size="sm"
+              className="w-5 h-5 p-0 rounded-full bg-red-500 hover:bg-red-600 text-white flex-shrink-0"
+            >
+              <span className="text-sm font-bold">−</span>
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tooltip } from '@/components/ui/tooltip';
+import { TerminalWealthGoal, TerminalWealthGoalType } from '@/lib/types';
+
+interface TerminalWealthGoalFormProps {
+  goal?: TerminalWealthGoal;
+  heirs?: number;
+  onGoalChange: (goal: TerminalWealthGoal | undefined) => void;
+  onHeirsChange: (heirs: number | undefined) => void;
+}
+
+// 目標の指定方法の表示名（未設定は資産が尽きないこと）
+const GOAL_TYPE_LABELS: Record<TerminalWealthGoalType | 'none', string> = {
+  'none': '資産が尽きない',
+  'amount': '金額で指定',
+  'expense-multiple': '年間支出の倍数',
+};
+
+const selectClassName = 'h-10 px-1 py-2 bg-white border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm min-w-0';
+
+export default function TerminalWealthGoalForm({
+  goal,
+  heirs,
+  onGoalChange,
+  onHeirsChange,
+}: TerminalWealthGoalFormProps) {
+  const updateGoalType = (type: TerminalWealthGoalType | 'none') => {
+    onGoalChange(type === 'none' ? undefined : { ...goal, type });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 h-6">
+        <Label>想定寿命時点に残す資産</Label>
+        <Tooltip content="FIRE達成年齢の探索では、想定寿命時点の資産がこの目標額（現在価値）以上残ることを条件にします。相続人の数を入力すると、残った資産に対する相続税を概算します。" position="right">
+          <span className="w-4 h-4 bg-gray-500 text-white rounded-full flex items-center justify-center text-xs cursor-help">?</span>
+        </Tooltip>
+      </div>
+      <div className="grid grid-cols-[1.5fr_1fr_1fr] gap-3">
+        <select
+          value={goal?.type ?? 'none'}
+          onChange={(e) => updateGoalType(e.target.value as TerminalWealthGoalType | 'none')}
+          className={selectClassName}
+        >
+          {(Object.keys(GOAL_TYPE_LABELS) as Array<TerminalWealthGoalType | 'none'>).map(type => (
+            <option key={type} value={type}>{GOAL_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+        {goal?.type === 'amount' && (
+          <div className="relative">
+            <Input
+              type="number"
+              value={goal.amount ? goal.amount / 10000 : ''}
+              placeholder="3000"
+              onChange={(e) => onGoalChange({ ...goal, amount: Number(e.target.value) * 10000 })}
+              min="0"
+              step="100"
+              className="pr-10"
+              noSpinner
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+              万円
+            </span>
+          </div>
+        )}
+        {goal?.type === 'expense-multiple' && (
+          <div className="relative">
+            <Input
+              type="number"
+              value={goal.expenseMultiple ?? ''}
+              placeholder="5"
+              onChange={(e) => onGoalChange({ ...goal, expenseMultiple: Number(e.target.value) })}
+              min="0"
+              step="0.5"
+              className="pr-10"
+              noSpinner
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+              年分
+            </span>
+          </div>
+        )}
+        {!goal && <span />}
+        <div className="relative">
+          <Input
+            type="number"
+            value={heirs ?? ''}
+            placeholder="相続人"
+            onChange={(e) => onHeirsChange(e.target.value === '' ? undefined : Number(e.target.value))}
+            min="1"
+            step="1"
+            className="pr-8"
+          />
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 pointer-events-none text-sm">
+            人
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { AssetHolding, PensionPlan, SalaryPlan } from './types';
+import { estimateTakeHomePay } from './income-tax';
+import { getAdjustedPensionAmount } from './public-pension';
 
 /**
  * 資産保有情報から総資産額を計算する統一関数
@@ -35,7 +37,7 @@ export function calculateTotalAssets(
  * 年金受給額を円に換算する関数
  * @param pensionPlan - 年金プラン情報
  * @param exchangeRate - USD/JPY為替レート
- * @returns 円換算された年間受給額
+ * @returns 円換算された年間受給額（繰上げ・繰下げ反映後）
  */
 export function convertPensionToJPY(
   pensionPlan: PensionPlan,
@@ -44,7 +46,8 @@ export function convertPensionToJPY(
   // exchangeRateがnullの場合はデフォルト値を使用
   const currentExchangeRate = exchangeRate ?? 150;
 
-  const amount = pensionPlan.annualAmount ?? 0;
+  // 老齢基礎年金・老齢厚生年金は繰上げ・繰下げを反映した年額
+  const amount = getAdjustedPensionAmount(pensionPlan);
 
   // 通貨に応じて円換算
   if (pensionPlan.currency === 'USD') {
@@ -56,12 +59,17 @@ export function convertPensionToJPY(
 }
 
 /**
- * 給与支給額を取得する関数
+ * 給与支給額（手取り）を取得する関数
  * @param salaryPlan - 給与プラン情報
- * @returns 年間支給額（円）
+ * @returns 年間手取り額（円）。額面入力の場合は税金・社会保険料を差し引いた概算値
  */
 export function convertSalaryToJPY(
   salaryPlan: SalaryPlan
 ): number {
-  return salaryPlan.annualAmount ?? 0;
+  const amount = salaryPlan.annualAmount ?? 0;
+
+  if (salaryPlan.amountType === 'gross') {
+    return estimateTakeHomePay(amount);
+  }
+  return amount;
 }
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { EXPENSE_CATEGORY_LABELS } from './expense-category';
+import { Expense, ExpenseBudget, ExpenseCategory, ExpenseComponent, ExpenseSegment, Frequency } from './types';
+
+// 頻度の表示名
+export const FREQUENCY_LABELS: Record<Frequency, string> = {
+  [Frequency.MONTHLY]: '月次',
+  [Frequency.QUARTERLY]: '四半期',
+  [Frequency.ANNUALLY]: '年次',
+};
+
+// 頻度ごとの1回あたりの月数
+const MONTHS_PER_PAYMENT: Record<Frequency, number> = {
+  [Frequency.MONTHLY]: 1,
+  [Frequency.QUARTERLY]: 3,
+  [Frequency.ANNUALLY]: 12,
+};
+
+// 予算の月額の集計（円/月）
+export interface BudgetTotals {
+  essential: number; // 必需的な支出
+  discretionary: number; // 裁量的な支出
+  total: number;
+}
+
+/**
+ * 支出項目の月額換算（円/月）
+ * @param expense 支出項目
+ * @param isRetired 退職後の支出倍率を適用するか
+ */
+export function toMonthlyAmount(expense: Expense, isRetired: boolean = false): number {
+  const monthly = expense.amount / MONTHS_PER_PAYMENT[expense.frequency];
+  return isRetired ? monthly * expense.retirementMultiplier : monthly;
+}
+
+/**
+ * 予算の月額を必需的な支出と裁量的な支出に分けて集計
+ * @param items 支出項目
+ * @param isRetired 退職後の支出倍率を適用するか
+ */
+export function summarizeBudget(items: Expense[], isRetired: boolean = false): BudgetTotals {
+  return items.reduce<BudgetTotals>((totals, expense) => {
+    const monthly = toMonthlyAmount(expense, isRetired);
+    return {
+      essential: totals.essential + (expense.isEssential ? monthly : 0),
+      discretionary: totals.discretionary + (expense.isEssential ? 0 : monthly),
+      total: totals.total + monthly,
+    };
+  }, { essential: 0, discretionary: 0, total: 0 });
+}
+
+/**
+ * 支出項目を費目別の内訳に集計（月額が0の費目は除く）
+ */
+function toExpenseComponents(items: Expense[], isRetired: boolean): ExpenseComponent[] {
+  return (Object.keys(EXPENSE_CATEGORY_LABELS) as ExpenseCategory[])
+    .map(category => ({
+      category,
+      monthlyAmount: items
+        .filter(expense => expense.category === category)
+        .reduce((sum, expense) => sum + toMonthlyAmount(expense, isRetired), 0),
+    }))
+    .filter(component => component.monthlyAmount > 0);
+}
+
+/**
+ * 予算から支出区間を作成しているか（支出項目がある場合は予算が支出区間の唯一の入力になる）
+ */
+export function isBudgetActive(budget: ExpenseBudget | undefined): boolean {
+  return !!budget && budget.items.length > 0;
+}
+
+/**
+ * 支出区間を現在の年齢から想定寿命までの範囲に合わせる
+ * 範囲外の区間を除き、最初の区間は現在の年齢から、最後の区間は想定寿命までとする
+ * @param segments 支出区間
+ * @param currentAge 現在の年齢
+ * @param lifeExpectancy 想定寿命
+ */
+export function fitExpenseSegments(
+  segments: ExpenseSegment[],
+  currentAge: number,
+  lifeExpectancy: number
+): ExpenseSegment[] {
+  const fitted = segments
+    .filter(segment => segment.endAge >= currentAge && segment.startAge <= lifeExpectancy)
+    .map((segment, index, arr) => ({
+      ...segment,
+      startAge: index === 0 ? currentAge : segment.startAge,
+      endAge: index === arr.length - 1 ? lifeExpectancy : segment.endAge,
+    }));
+
+  // 区間が空になった場合はデフォルト区間を追加
+  return fitted.length > 0
+    ? fitted
+    : [{ id: Date.now().toString(), startAge: currentAge, endAge: lifeExpectancy, monthlyExpenses: 0 }];
+}
+
+/**
+ * 予算から支出区間を作成
+ * 退職年齢の前日までは現役時の支出、退職年齢以降は支出倍率を適用した支出の区間とする
+ * @param budget 費目別の予算
+ * @param currentAge 現在の年齢
+ * @param lifeExpectancy 想定寿命
+ */
+export function createExpenseSegmentsFromBudget(
+  budget: ExpenseBudget,
+  currentAge: number,
+  lifeExpectancy: number
+): ExpenseSegment[] {
+  const createSegment = (id: string, startAge: number, endAge: number, isRetired: boolean): ExpenseSegment => {
+    const components = toExpenseComponents(budget.items, isRetired);
+    const totals = summarizeBudget(budget.items, isRetired);
+    return {
+      id,
+      startAge,
+      endAge,
+      monthlyExpenses: totals.total,
+      components: components.length > 0 ? components : undefined,
+      discretionaryExpenses: totals.discretionary,
+    };
+  };
+
+  const retirementAge = Math.max(currentAge, Math.min(lifeExpectancy + 1, budget.retirementAge));
+  const segments: ExpenseSegment[] = [];
+  if (retirementAge > currentAge) {
+    segments.push(createSegment('budget-working', currentAge, retirementAge - 1, false));
+  }
+  if (retirementAge <= lifeExpectancy) {
+    segments.push(createSegment('budget-retired', retirementAge, lifeExpectancy, true));
+  }
+  return segments;
+}
@@ -0,0 +1,52 @@
+import { ExpenseCategory, ExpenseComponent, ExpenseSegment } from './types';
+
+// 費目の表示名
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  [ExpenseCategory.HOUSING]: '住居費',
+  [ExpenseCategory.FOOD]: '食費',
+  [ExpenseCategory.TRANSPORTATION]: '交通費',
+  [ExpenseCategory.HEALTHCARE]: '医療費',
+  [ExpenseCategory.EDUCATION]: '教育費',
+  [ExpenseCategory.ENTERTAINMENT]: '娯楽費',
+  [ExpenseCategory.UTILITIES]: '光熱費',
+  [ExpenseCategory.INSURANCE]: '保険料',
+  [ExpenseCategory.OTHER]: 'その他',
+};
+
+/**
+ * 支出区間の費目別の内訳を取得
+ * 内訳がない場合は月間支出額全体を「その他」として扱う
+ * @param segment 支出区間
+ */
+export function getExpenseComponents(segment: ExpenseSegment): ExpenseComponent[] {
+  if (segment.components && segment.components.length > 0) {
+    return segment.components;
+  }
+  return [{ category: ExpenseCategory.OTHER, monthlyAmount: segment.monthlyExpenses }];
+}
+
+/**
+ * 内訳の合計（月間支出額）
+ */
+export function sumExpenseComponents(components: ExpenseComponent[]): number {
+  return components.reduce((sum, component) => sum + component.monthlyAmount, 0);
+}
+
+/**
+ * 支出区間の月間支出額を倍率で変更（内訳・裁量的な支出も同じ倍率で変更）
+ * @param segment 支出区間
+ * @param multiplier 倍率
+ */
+export function scaleExpenseSegment(segment: ExpenseSegment, multiplier: number): ExpenseSegment {
+  return {
+    ...segment,
+    monthlyExpenses: segment.monthlyExpenses * multiplier,
+    components: segment.components?.map(component => ({
+      ...component,
+      monthlyAmount: component.monthlyAmount * multiplier,
+    })),
+    discretionaryExpenses: segment.discretionaryExpenses !== undefined
+      ? segment.discretionaryExpenses * multiplier
+      : undefined,
+  };
+}
@@ -1,5 +1,36 @@
-import { AssetHolding, Loan, PensionPlan, SalaryPlan, SpecialExpense, SpecialIncome, ExpenseSegment, Child } from './types';
+import { AssetHolding, ExpenseBudget, ExpenseCategory, Loan, PensionPlan, SalaryPlan, SpecialExpense, SpecialIncome, ExpenseSegment, Child, WithdrawalStrategy, AssetType, RebalancingSettings, GlidePathPoint, SimulationResolution, IdecoLumpSumSettings, PostRetirementInsuranceSettings, HouseholdMember, HouseholdRole, LifeInsurancePolicy, TerminalWealthGoal, RetirementSearchSettings, FireVariantSettings, InflationSegment, FlexibleSpendingSettings } from './types';
 import { calculateTotalAssets, convertPensionToJPY, convertSalaryToJPY } from './asset-calculator';
+import { calculateIncomeTax, calculateResidentTax, calculateSalaryDeductions, calculateSocialInsurance, estimateGrossSalary } from './income-tax';
+import { calculateAverageProjectedSalary, projectSalary } from './salary-growth';
+import { calculatePensionIndexFactor } from './public-pension';
+import { allocateSurplus, createNisaAnnualUsage, getAccountType, IDECO_CONTRIBUTION_END_AGE, isWithdrawable, NisaAnnualUsage } from './investment-account';
+import { calculateRetirementLumpSumTaxes, RetirementLumpSum, RetirementLumpSumReceipt } from './retirement-income';
+import { calculatePostRetirementInsurance, PostRetirementInsuranceContext } from './post-retirement-insurance';
+import { estimateInheritanceTax } from './inheritance-tax';
+import { createInflationIndex, InflationIndex, shiftInflation } from './inflation';
+import { getExpenseComponents, scaleExpenseSegment } from './expense-category';
+import {
+  calculateRebalanceTrades,
+  getAssetClass,
+  getGlidePathTargets,
+  resolveClassTargetWeights,
+  resolveTargetWeights,
+  shouldRebalance,
+} from './rebalancing';
+import {
+  calculateSpendingCut,
+  createFlexibleSpendingState,
+  getDiscretionaryExpensesForAge,
+  updateFlexibleSpendingState,
+} from './flexible-spending-rule';
+import {
+  determineWithdrawalAmount,
+  executeWithdrawal,
+  getWithdrawalStrategyType,
+  isAmountBasedStrategy,
+  WithdrawalCandidate,
+  WithdrawalState,
+} from './withdrawal-strategy';
 
 export interface FireCalculationInput {
   currentAge: number;
@@ -10,10 +41,30 @@ export interface FireCalculationInput {
   specialExpenses: SpecialExpense[]; // 特別支出情報
   specialIncomes: SpecialIncome[]; // 臨時収入情報
   expenseSegments: ExpenseSegment[]; // 年齢区分別月間支出
+  expenseInflationDifferentials?: Partial<Record<ExpenseCategory, number>>; // 費目別のインフレ率の上乗せ（%ポイント、未指定の費目は0）
+  expenseBudget?: ExpenseBudget; // 費目別の予算（支出項目がある場合は予算から支出区間を作成）
+  flexibleSpending?: FlexibleSpendingSettings; // 支出の柔軟な調整（未指定の場合は支出を調整しない）
   inflationRate: number; // パーセント（例: 2 = 2%）
+  inflationSchedule?: InflationSegment[]; // 年齢別インフレ率（設定した年齢は inflationRate より優先）
   lifeExpectancy: number;
   exchangeRate?: number | null; // USD/JPY為替レート
   children?: Child[]; // 子供情報
+  withdrawalStrategy?: WithdrawalStrategy; // 取り崩し戦略（未指定の場合は利回りの低い順）
+  assetClassTargets?: Partial<Record<AssetType, number>>; // 資産クラスごとの目標配分（%、銘柄ごとの目標配分がない場合に使用）
+  rebalancing?: RebalancingSettings; // リバランス設定（未指定の場合はリバランスしない）
+  glidePath?: GlidePathPoint[]; // グライドパス（年齢ごとの資産クラス別目標配分、設定時は他の目標配分より優先）
+  simulationResolution?: SimulationResolution; // 計算単位（未指定の場合は年次）
+  birthMonth?: number; // 誕生月（1〜12、月次計算で年齢が上がる月。未指定の場合は計算開始月）
+  usPensionCola?: number; // 米ドル建て年金の生活費調整率（パーセント、未指定の場合はインフレ率）
+  idecoLumpSum?: IdecoLumpSumSettings; // iDeCoの一時金受取（未指定の場合は60歳以降に必要に応じて取り崩す）
+  postRetirementInsurance?: PostRetirementInsuranceSettings; // 退職後の社会保険料（未指定の場合は計上しない）
+  spouse?: HouseholdMember; // 配偶者（設定時は本人と配偶者の収入を暦年ごとに合算）
+  deathAge?: number; // 本人の死亡年齢（遺族シナリオで設定、この年齢以降は本人の収入・社会保険料を計上しない）
+  lifeInsurancePolicies?: LifeInsurancePolicy[]; // 生命保険（遺族シナリオで死亡保険金を臨時収入として計上）
+  terminalWealthGoal?: TerminalWealthGoal; // 想定寿命時点に残す資産の目標（未指定の場合は資産が尽きないこと）
+  heirs?: number; // 法定相続人の数（想定寿命時点の資産に対する相続税の概算に使用）
+  retirementSearch?: RetirementSearchSettings; // FIRE達成年齢の探索設定（未指定の場合は本人の最も高い手取り年収の給与プランを60歳まで調整）
+  fireVariants?: FireVariantSettings; // FIREの種類ごとの設定（未指定の場合は標準的な値）
 }
 
 export interface FireCalculationResult {
@@ -24,6 +75,19 @@ export interface FireCalculationResult {
   isFireAchievable: boolean;
   monthlyShortfall: number;
   projections: YearlyProjection[];
+  terminalWealthTarget: number; // 想定寿命時点に残す資産の目標額（名目額）
+  inheritanceTax: number; // 想定寿命時点の資産に対する相続税の概算（名目額、相続人の数が未設定の場合は0）
+  adjustedSalaryPlans: AdjustedSalaryPlan[]; // FIRE達成年齢の探索で調整した給与プランの退職年齢
+  yearlyDetails: YearlyDetailData[]; // 資産推移の年次詳細データ
+  monthlyDetails?: MonthlyDetailData[]; // 資産推移の最初の数年分の月次詳細データ（月次計算の場合のみ）
+}
+
+// FIRE達成年齢の探索で調整した給与プランの退職年齢
+export interface AdjustedSalaryPlan {
+  owner: HouseholdRole;
+  planId: string;
+  planName: string;
+  endAge: number; // 調整後の退職年齢（給与プランの所有者の年齢）
 }
 
 export interface YearlyProjection {
@@ -35,27 +99,68 @@ export interface YearlyProjection {
   netWorth: number;
   fireAchieved: boolean;
   yearsToFire: number;
+  spendingCut?: number; // 支出の柔軟な調整で削減した裁量的な支出（モンテカルロシミュレーションで調整を設定した場合）
 }
 
 // 年次詳細データ（デバッグ用）
 export interface YearlyDetailData {
   year: number;
   age: number;
+  spouseAge?: number; // 配偶者の年齢（配偶者を設定した場合）
   salaries: { [key: string]: number }; // 給与項目別（key: 項目名, value: 年収）
   pensions: { [key: string]: number }; // 年金項目別
   specialIncomes: { [key: string]: number }; // 臨時収入
-  expenses: number; // 生活費（負数）
+  incomeTax: number; // 所得税（負数、額面入力の給与のみ）
+  residentTax: number; // 住民税（負数、前年の給与所得に対して課税）
+  healthInsurance: number; // 健康保険料（負数、退職後は国民健康保険料または任意継続の保険料）
+  pensionInsurance: number; // 厚生年金保険料（負数、退職後は60歳まで国民年金保険料）
+  employmentInsurance: number; // 雇用保険料（負数）
+  expenses: number; // 生活費（負数、支出の柔軟な調整による削減後）
+  expensesByCategory: Partial<Record<ExpenseCategory, number>>; // 生活費の費目別内訳（負数、削減前、内訳のない支出区間は「その他」）
+  spendingCut: number; // 支出の柔軟な調整で削減した裁量的な支出（正数）
   loanPayments: number; // ローン返済（負数）
   loanBalances: { [key: string]: number }; // ローン残高（ローン名別）
   specialExpenses: { [key: string]: number }; // 特別支出（負数）
   annualNetCashFlow: number; // 年間収支（収入 - 支出）
+  portfolioWithdrawal: number; // 資産の取り崩し額（税引後）
+  capitalGainsTax: number; // 譲渡益税（負数、取り崩し時の売却額から差し引き）
   cash: number; // 現金累計（給与・年金の累計）
   assets: { [key: string]: number }; // 金融資産銘柄別（利回り計算後）
   withdrawnAssets: Set<string>; // 取り崩された資産名のセット
   investedAssets: Set<string>; // 黒字分を投資した資産名のセット
+  rebalanceTrades: { [key: string]: number }; // リバランスの売買額（資産名別、正数: 購入、負数: 売却）
+  assetClassBalances: Partial<Record<AssetType, number>>; // 資産クラス別の評価額
+  totalAssets: number; // 合計資産
+}
+
+// 月次詳細データ（月次計算の最初の数年分）
+export interface MonthlyDetailData {
+  year: number;
+  month: number; // 1〜12
+  age: number;
+  spouseAge?: number; // 配偶者の年齢（配偶者を設定した場合）
+  income: number; // 給与・年金・臨時収入
+  deductions: number; // 税金・社会保険料（負数）
+  expenses: number; // 生活費（負数）
+  loanPayments: number; // ローン返済（負数）
+  specialExpenses: number; // 特別支出（負数）
+  netCashFlow: number; // 月間収支
+  portfolioWithdrawal: number; // 資産の取り崩し額（税引後）
+  capitalGainsTax: number; // 譲渡益税（負数）
+  cash: number; // 現金累計
+  assets: { [key: string]: number }; // 金融資産銘柄別
   totalAssets: number; // 合計資産
 }
 
+// 月次詳細データを返す既定の年数
+const DEFAULT_MONTHLY_DETAIL_YEARS = 3;
+
+// 想定寿命時点に残す資産の目標が未設定の場合の最低額（資産が尽きないこと）
+const MINIMUM_TERMINAL_WEALTH = 1;
+
+// FIRE達成年齢の探索で働ける上限年齢の既定値
+export const DEFAULT_MAX_WORKING_AGE = 60;
+
 /**
  * 年齢に応じた月間支出額を取得
  */
@@ -69,6 +174,609 @@ function getMonthlyExpensesForAge(
   return segment?.monthlyExpenses ?? 0;
 }
 
+/**
+ * 費目ごとの物価指数を取得する関数を作成（費目別のインフレ率の上乗せを反映）
+ */
+function createExpenseInflation(input: FireCalculationInput): (category: ExpenseCategory) => InflationIndex {
+  const general = createInflationIndex(input);
+  const indices = new Map<ExpenseCategory, InflationIndex>();
+  return category => {
+    const differential = input.expenseInflationDifferentials?.[category] ?? 0;
+    if (differential === 0) return general;
+    let index = indices.get(category);
+    if (!index) {
+      index = createInflationIndex(input, differential);
+      indices.set(category, index);
+    }
+    return index;
+  };
+}
+
+/**
+ * 年齢に応じた費目別の生活費（名目額、負数）を計算
+ * @param input 計算入力
+ * @param age 年齢
+ * @param years 計算開始からの経過年数（月次計算では端数を含む）
+ * @param months 月数（年次計算は12、月次計算は1）
+ * @param expenseInflation 費目ごとの物価指数
+ */
+function calculateExpensesByCategory(
+  input: FireCalculationInput,
+  age: number,
+  years: number,
+  months: number,
+  expenseInflation: (category: ExpenseCategory) => InflationIndex
+): Partial<Record<ExpenseCategory, number>> {
+  const expensesByCategory: Partial<Record<ExpenseCategory, number>> = {};
+  const segment = input.expenseSegments.find(s => age >= s.startAge && age <= s.endAge);
+  if (!segment) return expensesByCategory;
+
+  getExpenseComponents(segment).forEach(({ category, monthlyAmount }) => {
+    const amount = monthlyAmount * months * expenseInflation(category).factor(years);
+    expensesByCategory[category] = (expensesByCategory[category] ?? 0) - amount;
+  });
+  return expensesByCategory;
+}
+
+/**
+ * 費目別の金額の合計
+ */
+function sumByCategory(amounts: Partial<Record<ExpenseCategory, number>>): number {
+  return Object.values(amounts).reduce((sum: number, amount) => sum + (amount ?? 0), 0);
+}
+
+/**
+ * 年次詳細データに表示する資産名を取得（同名でも区別できるようインデックスを付与）
+ */
+function getAssetDisplayName(holding: AssetHolding, index: number): string {
+  return `${holding.name || `資産${holding.id}`} [${index + 1}]`;
+}
+
+/**
+ * 各資産の初期評価額・取得価額・構成比を計算
+ * 平均取得単価が未指定の場合は初期評価額を取得価額とみなす
+ */
+function initializeHoldings(input: FireCalculationInput): {
+  balances: { [key: string]: number };
+  costBases: { [key: string]: number };
+  initialRatios: { [key: string]: number };
+} {
+  const initialTotalAssets = calculateTotalAssets(input.assetHoldings, input.exchangeRate, 'yen');
+  const currentExchangeRate = input.exchangeRate ?? 150;
+
+  // 資産残高（各銘柄ごと、IDをキーとして使用）
+  const balances: { [key: string]: number } = {};
+  input.assetHoldings.forEach(holding => {
+    const value = holding.quantity * holding.pricePerUnit;
+    balances[holding.id] = holding.currency === 'USD'
+      ? value * currentExchangeRate
+      : value;
+  });
+
+  // 取得価額（総平均法、黒字分の投資で加算）
+  const costBases: { [key: string]: number } = {};
+  input.assetHoldings.forEach(holding => {
+    const cost = holding.quantity * (holding.acquisitionPrice ?? holding.pricePerUnit);
+    costBases[holding.id] = holding.currency === 'USD'
+      ? cost * currentExchangeRate
+      : cost;
+  });
+
+  // 初期構成比
+  const initialRatios: { [key: string]: number } = {};
+  if (initialTotalAssets > 0) {
+    Object.keys(balances).forEach(id => {
+      initialRatios[id] = balances[id] / initialTotalAssets;
+    });
+  }
+
+  return { balances, costBases, initialRatios };
+}
+
+// 世帯の構成員（本人・配偶者）
+interface HouseholdEarner {
+  member: HouseholdMember;
+  ageOffset: number; // 本人の年齢との差（構成員の年齢 - 本人の年齢）
+  suffix: string; // 給与・年金の項目名に付ける接尾辞（配偶者の収入を区別する）
+}
+
+/**
+ * 世帯の構成員（本人と、設定されている場合は配偶者）を取得
+ */
+function getHouseholdEarners(input: FireCalculationInput): HouseholdEarner[] {
+  const earners: HouseholdEarner[] = [{ member: input, ageOffset: 0, suffix: '' }];
+  if (input.spouse) {
+    earners.push({
+      member: input.spouse,
+      ageOffset: input.spouse.currentAge - input.currentAge,
+      suffix: '（配偶者）',
+    });
+  }
+  return earners;
+}
+
+/**
+ * 構成員が指定年齢で存命かどうか（想定寿命と遺族シナリオの死亡年齢で判定）
+ */
+function isMemberAlive(member: HouseholdMember, age: number): boolean {
+  return age <= member.lifeExpectancy && (member.deathAge === undefined || age < member.deathAge);
+}
+
+/**
+ * 計算する年数（配偶者がいる場合は、どちらかの想定寿命までのうち長い方）
+ */
+function getSimulationYears(input: FireCalculationInput): number {
+  const years = input.lifeExpectancy - input.currentAge + 1;
+  if (!input.spouse) return years;
+  return Math.max(years, input.spouse.lifeExpectancy - input.spouse.currentAge + 1);
+}
+
+/**
+ * 想定寿命時点に残す資産の目標額（現在価値）を計算
+ * 年間支出の倍数で指定した場合は、想定寿命時点の年齢区分の生活費を基準とする
+ */
+function calculateRealTerminalWealthTarget(input: FireCalculationInput): number {
+  const goal = input.terminalWealthGoal;
+  if (!goal) return MINIMUM_TERMINAL_WEALTH;
+
+  const target = goal.type === 'expense-multiple'
+    ? getMonthlyExpensesForAge(input.lifeExpectancy, input.expenseSegments) * 12 * (goal.expenseMultiple ?? 0)
+    : goal.amount ?? 0;
+  return Math.max(MINIMUM_TERMINAL_WEALTH, target);
+}
+
+// FIRE達成年齢の探索で退職年齢を調整する給与プラン
+interface RetirementSearchTarget {
+  owner: HouseholdRole;
+  member: HouseholdMember;
+  plan: SalaryPlan;
+}
+
+/**
+ * FIRE達成年齢の探索で退職年齢を調整する給与プランを取得
+ * 設定がない場合は、本人の給与プランのうち最も高い手取り年収のもの（昇給を反映した支給期間の平均年収で比較）
+ */
+function getRetirementSearchTargets(input: FireCalculationInput): RetirementSearchTarget[] {
+  const selectedPlans = input.retirementSearch?.plans;
+  if (selectedPlans) {
+    return selectedPlans.flatMap(({ owner, planId }): RetirementSearchTarget[] => {
+      const member = owner === 'spouse' ? input.spouse : input;
+      const plan = member?.salaryPlans.find(p => p.id === planId);
+      return member && plan ? [{ owner, member, plan }] : [];
+    });
+  }
+
+  if (input.salaryPlans.length === 0) return [];
+  const averageTakeHomePay = (plan: SalaryPlan) =>
+    convertSalaryToJPY({ ...plan, annualAmount: calculateAverageProjectedSalary(plan, input.currentAge) });
+  const highestSalaryPlan = input.salaryPlans.reduce((highest, plan) =>
+    averageTakeHomePay(plan) > averageTakeHomePay(highest) ? plan : highest
+  , input.salaryPlans[0]);
+  return [{ owner: 'primary', member: input, plan: highestSalaryPlan }];
+}
+
+/**
+ * 探索対象の給与プランの退職年齢を、計算開始から指定年数後の年に揃えて調整
+ * 各構成員の退職年齢は働ける上限年齢までとする
+ * @param input 計算入力
+ * @param targets 退職年齢を調整する給与プラン
+ * @param yearOffset 計算開始から退職する年までの年数
+ * @param maxWorkingAge 働ける上限年齢
+ * @returns 調整後の計算入力と、調整した給与プランの退職年齢
+ */
+function applyRetirementYear(
+  input: FireCalculationInput,
+  targets: RetirementSearchTarget[],
+  yearOffset: number,
+  maxWorkingAge: number
+): { input: FireCalculationInput; adjustedSalaryPlans: AdjustedSalaryPlan[] } {
+  const adjustedSalaryPlans: AdjustedSalaryPlan[] = targets.map(({ owner, member, plan }) => ({
+    owner,
+    planId: plan.id,
+    planName: plan.name,
+    endAge: Math.min(member.currentAge + yearOffset, maxWorkingAge),
+  }));
+
+  const adjustPlans = (plans: SalaryPlan[], owner: HouseholdRole) => plans.map(plan => {
+    const adjusted = adjustedSalaryPlans.find(a => a.owner === owner && a.planId === plan.id);
+    return adjusted ? { ...plan, endAge: adjusted.endAge } : plan;
+  });
+
+  return {
+    input: {
+      ...input,
+      salaryPlans: adjustPlans(input.salaryPlans, 'primary'),
+      spouse: input.spouse && { ...input.spouse, salaryPlans: adjustPlans(input.spouse.salaryPlans, 'spouse') },
+    },
+    adjustedSalaryPlans,
+  };
+}
+
+/**
+ * 構成員の給与・年金収入を計算（昇給・インフレ・年金額の改定を反映）
+ * 額面入力の給与は額面のまま計上し、税金・社会保険料を別途差し引く
+ * @param input 計算入力
+ * @param earner 世帯の構成員
+ * @param memberAge 構成員の年齢
+ * @param years 計算開始からの経過年数（月次計算では端数を含む）
+ * @param fraction 年額に対する割合（年次計算は1、月次計算は1/12）
+ * @param inflation 物価指数
+ */
+function calculateEarnerIncome(
+  input: FireCalculationInput,
+  earner: HouseholdEarner,
+  memberAge: number,
+  years: number,
+  fraction: number,
+  inflation: InflationIndex
+): {
+  salaries: { [key: string]: number };
+  grossSalaries: number[];
+  pensions: { [key: string]: number };
+} {
+  const { member, suffix } = earner;
+  const usPensionCola = input.usPensionCola !== undefined ? input.usPensionCola / 100 : undefined;
+
+  const salaries: { [key: string]: number } = {};
+  const grossSalaries: number[] = [];
+  member.salaryPlans.forEach(plan => {
+    if (memberAge >= plan.startAge && memberAge <= plan.endAge && plan.annualAmount) {
+      const name = getSalaryName(plan, suffix);
+      // 昇給モデルによる実質的な増減を反映した上でインフレ調整
+      const amount = projectSalary(plan, memberAge, member.currentAge) * fraction * inflation.factor(years);
+      salaries[name] = (salaries[name] ?? 0) + amount;
+      if (plan.amountType === 'gross') {
+        grossSalaries.push(amount);
+      }
+    }
+  });
+
+  const pensions: { [key: string]: number } = {};
+  member.pensionPlans.forEach(plan => {
+    if (memberAge >= plan.startAge && memberAge <= plan.endAge && plan.annualAmount) {
+      const name = `${plan.name || `年金${plan.id}`}${suffix}`;
+      // 改定方式（物価連動・マクロ経済スライド・名目固定）に応じて増額
+      const amount = convertPensionToJPY(plan, input.exchangeRate) * fraction
+        * calculatePensionIndexFactor(plan, years, inflation, usPensionCola);
+      pensions[name] = (pensions[name] ?? 0) + amount;
+    }
+  });
+
+  return { salaries, grossSalaries, pensions };
+}
+
+/**
+ * 初年度に支払う住民税を計算（前年も同額の額面給与があったものとして計算）
+ */
+function calculateInitialResidentTax(member: HouseholdMember): number {
+  const previousGrossSalaries = member.salaryPlans
+    .filter(plan =>
+      plan.amountType === 'gross' &&
+      plan.annualAmount &&
+      member.currentAge - 1 >= plan.startAge &&
+      member.currentAge - 1 <= plan.endAge
+    )
+    .map(plan => projectSalary(plan, member.currentAge - 1, member.currentAge));
+  return previousGrossSalaries.length > 0
+    ? calculateSalaryDeductions(previousGrossSalaries, member.currentAge - 1).residentTax
+    : 0;
+}
+
+// 退職後の社会保険料の計算に使う前年の収入（年齢とインフレ倍率は毎年指定する）
+type PreviousIncome = Omit<PostRetirementInsuranceContext, 'age' | 'inflationFactor'>;
+
+/**
+ * 年次詳細データの給与項目名
+ */
+function getSalaryName(plan: SalaryPlan, suffix: string): string {
+  return `${plan.name || `給与${plan.id}`}${suffix}`;
+}
+
+/**
+ * 手取りで入力した給与プランの給与項目名
+ */
+function getTakeHomeSalaryNames(earner: HouseholdEarner): Set<string> {
+  return new Set(earner.member.salaryPlans
+    .filter(plan => plan.amountType !== 'gross')
+    .map(plan => getSalaryName(plan, earner.suffix)));
+}
+
+/**
+ * 計算開始前年の給与・年金収入と退職年齢（最後の給与プランの終了年齢）を求める
+ * 給与プランがない場合は既に退職しているものとする
+ */
+function initializePreviousIncome(member: HouseholdMember, exchangeRate?: number | null): PreviousIncome {
+  const previousAge = member.currentAge - 1;
+  const salaryPlans = member.salaryPlans.filter(plan => plan.annualAmount);
+  const previousSalaries = salaryPlans
+    .filter(plan => previousAge >= plan.startAge && previousAge <= plan.endAge)
+    .map(plan => {
+      // 手取りで入力した給与は額面に換算
+      const salary = projectSalary(plan, previousAge, member.currentAge);
+      return plan.amountType === 'gross' ? salary : estimateGrossSalary(salary, previousAge);
+    });
+  const previousPensionIncome = member.pensionPlans
+    .filter(plan => plan.annualAmount && previousAge >= plan.startAge && previousAge <= plan.endAge)
+    .reduce((sum, plan) => sum + convertPensionToJPY(plan, exchangeRate), 0);
+
+  return {
+    retirementAge: salaryPlans.length > 0 ? Math.max(...salaryPlans.map(plan => plan.endAge)) : previousAge,
+    previousSalaries,
+    previousPensionIncome,
+    lastGrossSalary: previousSalaries.reduce((sum, salary) => sum + salary, 0),
+  };
+}
+
+/**
+ * 世帯の構成員ごとの前年の収入を求める
+ * 配偶者は本人が在職中の間は被扶養者（健康保険の被扶養者・国民年金の第3号被保険者）として保険料を計上しない
+ */
+function initializeHouseholdPreviousIncomes(input: FireCalculationInput, earners: HouseholdEarner[]): PreviousIncome[] {
+  const previousIncomes = earners.map(earner => initializePreviousIncome(earner.member, input.exchangeRate));
+  earners.forEach((earner, index) => {
+    if (index > 0) {
+      previousIncomes[index].retirementAge = Math.max(
+        previousIncomes[index].retirementAge,
+        previousIncomes[0].retirementAge + earner.ageOffset
+      );
+    }
+  });
+  return previousIncomes;
+}
+
+/**
+ * 構成員の退職後の社会保険料の設定
+ * 配偶者がいる場合は構成員ごとに国民健康保険料を計算するため、均等割は本人・配偶者とも1人分とする
+ */
+function getMemberInsuranceSettings(
+  settings: PostRetirementInsuranceSettings | undefined,
+  earners: HouseholdEarner[]
+): PostRetirementInsuranceSettings | undefined {
+  if (earners.length === 1 || !settings) return settings;
+  return { ...settings, householdMembers: 1 };
+}
+
+/**
+ * 当年の給与・年金収入を翌年の社会保険料の計算用に記録する（手取りで入力した給与は額面に換算）
+ * @param previousIncome 前年の収入（更新される）
+ * @param salaries 当年の給与（給与項目名別）
+ * @param pensions 当年の年金（年金項目名別）
+ * @param takeHomeSalaryNames 手取りで入力した給与プランの給与項目名
+ * @param age 構成員の年齢
+ */
+function recordPreviousIncome(
+  previousIncome: PreviousIncome,
+  salaries: { [key: string]: number },
+  pensions: { [key: string]: number },
+  takeHomeSalaryNames: Set<string>,
+  age: number
+): void {
+  previousIncome.previousSalaries = Object.entries(salaries).map(([name, amount]) =>
+    takeHomeSalaryNames.has(name) ? estimateGrossSalary(amount, age) : amount
+  );
+  previousIncome.previousPensionIncome = Object.values(pensions).reduce((sum, val) => sum + val, 0);
+  const totalSalary = previousIncome.previousSalaries.reduce((sum, val) => sum + val, 0);
+  if (totalSalary > 0) {
+    previousIncome.lastGrossSalary = totalSalary;
+  }
+}
+
+/**
+ * 指定年齢の目標配分を求める（グライドパス > 銘柄ごと > 資産クラスごと）
+ * 資産クラス指定の場合は現在の評価額で銘柄に按分する
+ */
+function resolveTargetWeightsForAge(
+  input: FireCalculationInput,
+  age: number,
+  balances: { [key: string]: number }
+): { [key: string]: number } | null {
+  const glidePathTargets = getGlidePathTargets(input.glidePath, age);
+  return glidePathTargets
+    ? resolveClassTargetWeights(input.assetHoldings, balances, glidePathTargets)
+    : resolveTargetWeights(input.assetHoldings, balances, input.assetClassTargets);
+}
+
+/**
+ * 取り崩し可能な資産（残高があり、iDeCoは受取開始年齢以降）を取得
+ * iDeCoを一時金で受け取る場合、iDeCoは一時金の受取まで取り崩さない
+ */
+function getWithdrawalCandidates(
+  holdings: AssetHolding[],
+  balances: { [key: string]: number },
+  costBases: { [key: string]: number },
+  age: number,
+  idecoLumpSum?: IdecoLumpSumSettings
+): WithdrawalCandidate[] {
+  return holdings
+    .filter(holding => (balances[holding.id] || 0) > 0 && isWithdrawable(holding, age))
+    .filter(holding => !idecoLumpSum || getAccountType(holding) !== 'ideco')
+    .map(holding => ({
+      id: holding.id,
+      accountType: getAccountType(holding),
+      returnRate: (holding.expectedReturn ?? 5) / 100,
+      balance: balances[holding.id],
+      costBasis: costBases[holding.id]
+    }));
+}
+
+/**
+ * 取り崩し戦略に従って資産を売却し、残高と取得価額を更新する
+ * 特定口座は譲渡益課税後の手取りで賄えるよう売却額をグロスアップする
+ * @returns 税引後の取り崩し額と譲渡益税
+ */
+function sellHoldings(
+  holdings: AssetHolding[],
+  balances: { [key: string]: number },
+  costBases: { [key: string]: number },
+  strategy: WithdrawalStrategy | undefined,
+  candidates: WithdrawalCandidate[],
+  netAmount: number,
+  withdrawnAssets: Set<string>
+): { withdrawn: number; tax: number } {
+  let withdrawn = 0;
+  let tax = 0;
+
+  executeWithdrawal(strategy, candidates, netAmount).forEach(sale => {
+    const index = holdings.findIndex(holding => holding.id === sale.id);
+
+    costBases[sale.id] -= costBases[sale.id] * (sale.amount / balances[sale.id]);
+    balances[sale.id] -= sale.amount;
+    withdrawn += sale.amount - sale.tax;
+    tax += sale.tax;
+
+    if (sale.amount > 0) {
+      withdrawnAssets.add(getAssetDisplayName(holdings[index], index));
+    }
+  });
+
+  return { withdrawn, tax };
+}
+
+/**
+ * 当年に受け取る退職一時金（退職金・iDeCo一時金）の手取り額を計算する
+ * iDeCoを一時金で受け取る年齢の場合はiDeCoの残高をすべて受け取り、退職金と合わせて退職所得控除を計算する
+ * @param history 受け取り済みの退職一時金（当年分を追加する）
+ * @returns 臨時収入として計上する手取り額（key: 項目名）
+ */
+function receiveRetirementLumpSums(
+  input: FireCalculationInput,
+  age: number,
+  inflationFactor: number,
+  balances: { [key: string]: number },
+  costBases: { [key: string]: number },
+  history: RetirementLumpSumReceipt[]
+): { [key: string]: number } {
+  const entries: Array<{ name: string; lumpSum: RetirementLumpSum }> = [];
+
+  input.specialIncomes.forEach(income => {
+    if (income.kind === 'retirement-allowance' && income.targetAge === age && income.amount) {
+      entries.push({
+        name: income.name || `退職金${income.id}`,
+        lumpSum: {
+          source: 'allowance',
+          amount: income.amount * inflationFactor,
+          serviceStartAge: age - (income.yearsOfService ?? 0),
+          serviceEndAge: age,
+        },
+      });
+    }
+  });
+
+  if (input.idecoLumpSum?.age === age) {
+    let amount = 0;
+    input.assetHoldings.forEach(holding => {
+      if (getAccountType(holding) === 'ideco') {
+        amount += balances[holding.id] || 0;
+        balances[holding.id] = 0;
+        costBases[holding.id] = 0;
+      }
+    });
+    if (amount > 0) {
+      entries.push({
+        name: 'iDeCo一時金',
+        lumpSum: {
+          source: 'ideco',
+          amount,
+          serviceStartAge: input.idecoLumpSum.enrollmentAge,
+          serviceEndAge: Math.min(age, IDECO_CONTRIBUTION_END_AGE),
+        },
+      });
+    }
+  }
+
+  const taxes = calculateRetirementLumpSumTaxes(entries.map(entry => entry.lumpSum), age, history);
+  entries.forEach(({ lumpSum }) => {
+    history.push({
+      source: lumpSum.source,
+      age,
+      serviceStartAge: lumpSum.serviceStartAge,
+      serviceEndAge: lumpSum.serviceEndAge,
+    });
+  });
+
+  return Object.fromEntries(entries.map((entry, index) => [entry.name, entry.lumpSum.amount - taxes[index]]));
+}
+
+/**
+ * 黒字分を配分比率で投資し、残高と取得価額を更新する
+ * NISAの投資枠を超えた分は特定口座へ振り替える
+ * @returns 投資額の合計
+ */
+function investSurplus(
+  holdings: AssetHolding[],
+  balances: { [key: string]: number },
+  costBases: { [key: string]: number },
+  surplus: number,
+  ratios: { [key: string]: number },
+  nisaAnnualUsage: NisaAnnualUsage,
+  investedAssets: Set<string>
+): number {
+  const allocations = allocateSurplus(surplus, holdings, ratios, costBases, nisaAnnualUsage);
+  let totalInvested = 0;
+
+  holdings.forEach((holding, index) => {
+    const investAmount = allocations[holding.id] ?? 0;
+    if (investAmount > 0) {
+      balances[holding.id] += investAmount;
+      costBases[holding.id] += investAmount;
+      totalInvested += investAmount;
+      investedAssets.add(getAssetDisplayName(holding, index));
+    }
+  });
+
+  return totalInvested;
+}
+
+/**
+ * 目標配分に戻すよう売買し、残高と取得価額を更新する
+ * @returns 資産名別の売買額、譲渡益税、購入できずに現金に残った額
+ */
+function rebalanceHoldings(
+  holdings: AssetHolding[],
+  balances: { [key: string]: number },
+  costBases: { [key: string]: number },
+  weights: { [key: string]: number },
+  nisaAnnualUsage: NisaAnnualUsage
+): { trades: { [key: string]: number }; tax: number; uninvested: number } {
+  const rebalance = calculateRebalanceTrades(holdings, balances, costBases, weights, nisaAnnualUsage);
+  const trades: { [key: string]: number } = {};
+
+  holdings.forEach((holding, index) => {
+    const trade = rebalance.trades[holding.id] ?? 0;
+    if (trade === 0) return;
+
+    if (trade < 0) {
+      costBases[holding.id] -= costBases[holding.id] * (-trade / balances[holding.id]);
+    } else {
+      costBases[holding.id] += trade;
+    }
+    balances[holding.id] += trade;
+    trades[getAssetDisplayName(holding, index)] = trade;
+  });
+
+  return { trades, tax: rebalance.capitalGainsTax, uninvested: rebalance.uninvested };
+}
+
+/**
+ * 資産名別・資産クラス別の評価額を集計
+ */
+function summarizeHoldings(
+  holdings: AssetHolding[],
+  balances: { [key: string]: number }
+): { assets: { [key: string]: number }; assetClassBalances: Partial<Record<AssetType, number>> } {
+  const assets: { [key: string]: number } = {};
+  const assetClassBalances: Partial<Record<AssetType, number>> = {};
+
+  holdings.forEach((holding, index) => {
+    assets[getAssetDisplayName(holding, index)] = balances[holding.id];
+
+    const assetClass = getAssetClass(holding);
+    assetClassBalances[assetClass] = (assetClassBalances[assetClass] ?? 0) + Math.max(0, balances[holding.id]);
+  });
+
+  return { assets, assetClassBalances };
+}
+
 /**
  * FIRE（Financial Independence, Retire Early）の計算を行う
  */
@@ -112,6 +820,21 @@ export class FireCalculator {
     return nominalValue * Math.pow(1 + inflationRate / 100, years);
   }
 
+  /**
+   * 想定寿命時点に残す資産の目標額（名目額）を計算
+   * 目標が未設定の場合は1円（資産が尽きないこと）
+   * @param input 計算入力
+   * @param yearOffset 計算開始からの経過年数（未指定の場合は計算の最終年）
+   */
+  static calculateTerminalWealthTarget(
+    input: FireCalculationInput,
+    yearOffset: number = getSimulationYears(input) - 1
+  ): number {
+    const realTarget = calculateRealTerminalWealthTarget(input);
+    if (!input.terminalWealthGoal) return realTarget;
+    return realTarget * createInflationIndex(input).factor(yearOffset);
+  }
+
   /**
    * ローンの年次返済スケジュールを計算
    */
@@ -144,136 +867,115 @@ export class FireCalculator {
     return schedule;
   }
 
+  /**
+   * 指定した年齢（本人の年齢）で退職した場合の年次詳細データを計算
+   * 探索対象の給与プランの退職年齢をその年に揃える（各構成員の働ける上限年齢まで）
+   */
+  static calculateRetirementPath(input: FireCalculationInput, fireAge: number): YearlyDetailData[] {
+    const targets = getRetirementSearchTargets(input);
+    const maxWorkingAge = input.retirementSearch?.maxWorkingAge ?? DEFAULT_MAX_WORKING_AGE;
+    return this.calculateYearlyDetails(
+      applyRetirementYear(input, targets, fireAge - input.currentAge, maxWorkingAge).input
+    );
+  }
+
+  /**
+   * 指定した年齢（本人の年齢）で退職した場合に、想定寿命時点の資産が目標額以上残るかどうか
+   */
+  static canRetireAt(input: FireCalculationInput, fireAge: number): boolean {
+    const yearlyDetails = this.calculateRetirementPath(input, fireAge);
+
+    // 想定寿命時点での資産が目標額を上回るかチェック（最後の要素）
+    const finalAssets = yearlyDetails[yearlyDetails.length - 1]?.totalAssets ?? 0;
+    return finalAssets >= this.calculateTerminalWealthTarget(input);
+  }
+
   /**
    * FIRE目標額を計算
    *
-   * 最も高い手取り年収の給与プランの退職年齢を調整し、
-   * 想定寿命時点で資産が1円以上残る最適な退職年齢を見つける。
+   * 探索対象の給与プラン（本業と副業、夫婦それぞれの仕事など）の退職年齢を同じ年に揃えて動かし、
+   * 想定寿命時点の資産が目標額以上残る最も早い退職年を二分探索で見つける。
+   * 長く働くほど想定寿命時点の資産は増えるものとし、退職年齢は各構成員の働ける上限年齢までとする。
    *
-   * @returns 目標資産額、FIRE達成までの年数、FIRE達成年齢
+   * @returns 目標資産額、FIRE達成までの年数、FIRE達成年齢、調整した給与プランの退職年齢
    */
   static calculateMinimalRequiredAssets(input: FireCalculationInput): {
     targetAssets: number;
     yearsToFire: number;
     fireAge: number;
+    adjustedSalaryPlans: AdjustedSalaryPlan[];
   } {
     const {
-      salaryPlans,
       currentAge,
       expenseSegments,
     } = input;
 
-    // 給与プランがない場合、4%ルールで計算
-    if (salaryPlans.length === 0) {
-      const currentSegment = expenseSegments.find(
-        s => currentAge >= s.startAge && currentAge < s.endAge
-      );
-      const monthlyExpenses = currentSegment?.monthlyExpenses ?? 0;
-      const annualExpenses = monthlyExpenses * 12;
+    // 4%ルールによる目標額（現在の年間支出の25倍）
+    const currentSegment = expenseSegments.find(
+      s => currentAge >= s.startAge && currentAge < s.endAge
+    );
+    const fourPercentRuleTarget = (currentSegment?.monthlyExpenses ?? 0) * 12 * 25;
+
+    // 調整できる給与プランがない場合、4%ルールで計算
+    const targets = getRetirementSearchTargets(input);
+    if (targets.length === 0) {
       return {
-        targetAssets: annualExpenses * 25,
+        targetAssets: fourPercentRuleTarget,
         yearsToFire: 0,
-        fireAge: currentAge
+        fireAge: currentAge,
+        adjustedSalaryPlans: []
       };
     }
 
-    // 最も高い手取り年収の給与プランを見つける
-    const highestSalaryPlan = salaryPlans.reduce((highest, plan) => {
-      const currentAmount = convertSalaryToJPY(plan);
-      const highestAmount = convertSalaryToJPY(highest);
-      return currentAmount > highestAmount ? plan : highest;
-    }, salaryPlans[0]);
-
-    // 特定の退職年齢でFIRE達成可能かチェックする関数
-    const canAchieveFire = (retirementAge: number): boolean => {
-      // 給与プランを調整（最大年収プランの退職年齢を変更）
-      const adjustedSalaryPlans = salaryPlans.map(plan => {
-        if (plan.id === highestSalaryPlan.id) {
-          return { ...plan, endAge: retirementAge };
-        }
-        return plan;
-      });
-
-      // 調整された給与プランでシミュレーション
-      const yearlyDetails = this.calculateYearlyDetails({
-        ...input,
-        salaryPlans: adjustedSalaryPlans
-      });
+    const maxWorkingAge = input.retirementSearch?.maxWorkingAge ?? DEFAULT_MAX_WORKING_AGE;
 
-      // 想定寿命時点での資産をチェック（最後の要素）
-      const finalAssets = yearlyDetails[yearlyDetails.length - 1]?.totalAssets ?? 0;
-      return finalAssets >= 1;
+    // 計算開始から指定年数後に退職した場合にFIRE達成可能かチェックする関数
+    // （探索で計算した資産推移は、FIRE達成年齢での資産額の計算に再利用する）
+    const retirementPaths = new Map<number, YearlyDetailData[]>();
+    const terminalWealthTarget = this.calculateTerminalWealthTarget(input);
+    const canAchieveFire = (yearOffset: number): boolean => {
+      const yearlyDetails = this.calculateRetirementPath(input, currentAge + yearOffset);
+      retirementPaths.set(yearOffset, yearlyDetails);
+      return (yearlyDetails[yearlyDetails.length - 1]?.totalAssets ?? 0) >= terminalWealthTarget;
     };
 
-    // 現在の退職年齢でFIRE達成可能かチェック
-    const currentRetirementAge = highestSalaryPlan.endAge;
-
-    // 60歳を超える場合は、60歳でチェック
-    const checkAge = Math.min(currentRetirementAge, 60);
-    const canAchieveNow = canAchieveFire(checkAge);
+    // 探索範囲: 今年退職 〜 全員が働ける上限年齢に達する年
+    const maxYearOffset = Math.max(0, ...targets.map(({ member }) => maxWorkingAge - member.currentAge));
 
-    let fireAge: number = checkAge; // デフォルトはcheckAge
-
-    if (!canAchieveNow) {
-      // ケース1: 60歳時点で達成できない → 退職年齢を後ろにずらす（最大60歳まで）
-      let found = false;
-
-      // checkAge が60未満の場合のみ、後ろにずらす余地がある
-      if (checkAge < 60) {
-        for (let age = checkAge + 1; age <= 60; age++) {
-          if (canAchieveFire(age)) {
-            fireAge = age;
-            found = true;
-            break;
-          }
-        }
-      }
+    if (!canAchieveFire(maxYearOffset)) {
+      // 上限年齢まで働いてもダメ → FIRE不可能
+      return {
+        targetAssets: fourPercentRuleTarget,
+        yearsToFire: -1, // -1で不可能を示す
+        fireAge: currentAge,
+        adjustedSalaryPlans: applyRetirementYear(input, targets, maxYearOffset, maxWorkingAge).adjustedSalaryPlans
+      };
+    }
 
-      if (!found) {
-        // 60歳までずらしてもダメ → FIRE不可能
-        const currentSegment = expenseSegments.find(
-          s => currentAge >= s.startAge && currentAge < s.endAge
-        );
-        const monthlyExpenses = currentSegment?.monthlyExpenses ?? 0;
-        const annualExpenses = monthlyExpenses * 12;
-        return {
-          targetAssets: annualExpenses * 25,
-          yearsToFire: -1, // -1で不可能を示す
-          fireAge: currentAge
-        };
-      }
-    } else {
-      // ケース2: 現時点で達成可能 → 退職年齢を前にずらす（最小は開始年齢まで）
-      for (let age = checkAge - 1; age >= highestSalaryPlan.startAge; age--) {
-        if (canAchieveFire(age)) {
-          fireAge = age;
-        } else {
-          break;
-        }
+    // 達成できる最も早い退職年を二分探索
+    let low = 0;
+    let high = maxYearOffset;
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      if (canAchieveFire(mid)) {
+        high = mid;
+      } else {
+        low = mid + 1;
       }
     }
 
     // FIRE達成年齢での資産額を計算
-    const adjustedSalaryPlans = salaryPlans.map(plan => {
-      if (plan.id === highestSalaryPlan.id) {
-        return { ...plan, endAge: fireAge };
-      }
-      return plan;
-    });
-
-    const yearlyDetails = this.calculateYearlyDetails({
-      ...input,
-      salaryPlans: adjustedSalaryPlans
-    });
+    const { adjustedSalaryPlans } = applyRetirementYear(input, targets, low, maxWorkingAge);
+    const yearlyDetails = retirementPaths.get(low) ?? this.calculateRetirementPath(input, currentAge + low);
 
-    // FIRE達成年齢時点の資産額（その年のインデックスを計算）
-    const fireYearIndex = fireAge - currentAge;
-    const targetAssets = yearlyDetails[fireYearIndex]?.totalAssets ?? 0;
+    // FIRE達成年齢時点の資産額（その年のインデックス）
+    const targetAssets = yearlyDetails[low]?.totalAssets ?? 0;
 
     return {
       targetAssets,
-      yearsToFire: fireAge - currentAge,
-      fireAge
+      yearsToFire: low,
+      fireAge: currentAge + low,
+      adjustedSalaryPlans
     };
   }
 
@@ -291,7 +993,10 @@ export class FireCalculator {
     const totalAssetValue = calculateTotalAssets(assetHoldings, exchangeRate, 'yen');
 
     // 年次詳細データを計算（これが唯一の資産推移計算処理）
-    const yearlyDetails = this.calculateYearlyDetails(input);
+    // 月次計算の場合は同じ計算から最初の数年分の月次詳細データも記録する
+    const { yearly: yearlyDetails, monthly: monthlyDetails } = input.simulationResolution === 'monthly'
+      ? this.simulateMonthly(input, Math.min(DEFAULT_MONTHLY_DETAIL_YEARS, getSimulationYears(input)) * 12)
+      : { yearly: this.calculateYearlyDetails(input), monthly: undefined };
 
     // 年次詳細データから projections を生成（マッピング変換）
     const projections: YearlyProjection[] = yearlyDetails.map((detail, index) => {
@@ -324,7 +1029,7 @@ export class FireCalculator {
     });
 
     // FIRE目標額：推定寿命まで資産が持続する最小初期資産額を計算
-    // （最も高い年収の仕事を延長できると仮定した場合）
+    // （探索対象の給与プランの退職年齢を調整できると仮定した場合）
     const fireTargetResult = this.calculateMinimalRequiredAssets(input);
     const requiredAssets = fireTargetResult.targetAssets;
     const yearsToFire = fireTargetResult.yearsToFire;
@@ -333,6 +1038,12 @@ export class FireCalculator {
     // 予測資産は最終年の総資産額
     const projectedAssets = projections.length > 0 ? projections[projections.length - 1].assets : totalAssetValue;
 
+    // 想定寿命時点の資産に対する相続税（基礎控除・税率の区分は物価に連動するものとして現在価値で計算）
+    const finalInflationFactor = createInflationIndex(input).factor(projections.length - 1);
+    const inheritanceTax = input.heirs
+      ? estimateInheritanceTax(projectedAssets / finalInflationFactor, input.heirs) * finalInflationFactor
+      : 0;
+
     // FIRE達成可能かどうか（現在の資産がFIRE目標額以上か）
     const isFireAchievable = totalAssetValue >= requiredAssets;
 
@@ -348,7 +1059,12 @@ export class FireCalculator {
       projectedAssets,
       isFireAchievable,
       monthlyShortfall,
-      projections
+      projections,
+      terminalWealthTarget: this.calculateTerminalWealthTarget(input),
+      inheritanceTax,
+      adjustedSalaryPlans: fireTargetResult.adjustedSalaryPlans,
+      yearlyDetails,
+      monthlyDetails,
     };
   }
 
@@ -360,22 +1076,37 @@ export class FireCalculator {
   }
 
   /**
-   * 貯蓄率変更のインパクト分析
-   * Note: 給与プランベースに変更されたため、この関数は廃止予定
+   * 取り崩し戦略ごとの比較計算
+   */
+  static compareWithdrawalStrategies(
+    baseInput: FireCalculationInput,
+    strategies: WithdrawalStrategy[]
+  ): Array<{ strategy: WithdrawalStrategy; details: YearlyDetailData[] }> {
+    return strategies.map(strategy => ({
+      strategy,
+      details: this.calculateYearlyDetails({
+        ...baseInput,
+        withdrawalStrategy: strategy
+      })
+    }));
+  }
+
+  /**
+   * 貯蓄率変更のインパクト分析（本人・配偶者の全ての給与プランの年収を一律で変更）
    */
   static analyzeSavingsRateImpact(
     baseInput: FireCalculationInput,
     savingsRateChanges: number[]
   ): FireCalculationResult[] {
     return savingsRateChanges.map(change => {
-      // 全ての給与プランの金額を一律で変更
-      const updatedSalaryPlans = baseInput.salaryPlans.map(plan => ({
+      const scaleSalaries = (plans: SalaryPlan[]) => plans.map(plan => ({
         ...plan,
         annualAmount: (plan.annualAmount ?? 0) * (1 + change / 100)
       }));
       return this.calculateFire({
         ...baseInput,
-        salaryPlans: updatedSalaryPlans
+        salaryPlans: scaleSalaries(baseInput.salaryPlans),
+        spouse: baseInput.spouse && { ...baseInput.spouse, salaryPlans: scaleSalaries(baseInput.spouse.salaryPlans) }
       });
     });
   }
@@ -391,7 +1122,7 @@ export class FireCalculator {
       // 全資産の利回りを一律で変更
       const updatedAssetHoldings = baseInput.assetHoldings.map(holding => ({
         ...holding,
-        expectedReturn: (holding.expectedReturn ?? 0) + change
+        expectedReturn: (holding.expectedReturn ?? 5) + change
       }));
       return this.calculateFire({
         ...baseInput,
@@ -400,13 +1131,87 @@ export class FireCalculator {
     });
   }
 
+  /**
+   * インフレ率変更のインパクト分析
+   */
+  static analyzeInflationImpact(
+    baseInput: FireCalculationInput,
+    inflationChanges: number[]
+  ): FireCalculationResult[] {
+    return inflationChanges.map(change => this.calculateFire(shiftInflation(baseInput, change)));
+  }
+
+  /**
+   * 生活費変更のインパクト分析（全ての支出区間の月間支出を一律で変更）
+   */
+  static analyzeExpenseImpact(
+    baseInput: FireCalculationInput,
+    expenseChanges: number[]
+  ): FireCalculationResult[] {
+    return expenseChanges.map(change => this.calculateFire({
+      ...baseInput,
+      expenseSegments: baseInput.expenseSegments.map(segment => scaleExpenseSegment(segment, 1 + change / 100))
+    }));
+  }
+
+  /**
+   * 想定寿命変更のインパクト分析（配偶者の想定寿命も同じ年数だけ変更）
+   */
+  static analyzeLifeExpectancyImpact(
+    baseInput: FireCalculationInput,
+    lifeExpectancyChanges: number[]
+  ): FireCalculationResult[] {
+    return lifeExpectancyChanges.map(change => this.calculateFire({
+      ...baseInput,
+      lifeExpectancy: baseInput.lifeExpectancy + change,
+      spouse: baseInput.spouse && { ...baseInput.spouse, lifeExpectancy: baseInput.spouse.lifeExpectancy + change }
+    }));
+  }
+
+  /**
+   * 為替レート変更のインパクト分析（変化率%）
+   */
+  static analyzeExchangeRateImpact(
+    baseInput: FireCalculationInput,
+    exchangeRateChanges: number[]
+  ): FireCalculationResult[] {
+    return exchangeRateChanges.map(change => this.calculateFire({
+      ...baseInput,
+      exchangeRate: baseInput.exchangeRate ? baseInput.exchangeRate * (1 + change / 100) : baseInput.exchangeRate
+    }));
+  }
+
+  /**
+   * 年金額変更のインパクト分析（本人・配偶者の全ての年金プランの年額を一律で変更）
+   */
+  static analyzePensionImpact(
+    baseInput: FireCalculationInput,
+    pensionChanges: number[]
+  ): FireCalculationResult[] {
+    const scalePensions = (plans: PensionPlan[], change: number) => plans.map(plan => ({
+      ...plan,
+      annualAmount: (plan.annualAmount ?? 0) * (1 + change / 100)
+    }));
+    return pensionChanges.map(change => this.calculateFire({
+      ...baseInput,
+      pensionPlans: scalePensions(baseInput.pensionPlans, change),
+      spouse: baseInput.spouse && { ...baseInput.spouse, pensionPlans: scalePensions(baseInput.spouse.pensionPlans, change) }
+    }));
+  }
+
   /**
    * 年次詳細データを計算（デバッグ用）
    */
   static calculateYearlyDetails(input: FireCalculationInput): YearlyDetailData[] {
+    if (input.simulationResolution === 'monthly') {
+      return this.simulateMonthly(input, 0).yearly;
+    }
+
     const details: YearlyDetailData[] = [];
-    const years = input.lifeExpectancy - input.currentAge + 1;
-    const inflationRate = input.inflationRate / 100;
+    const years = getSimulationYears(input);
+    const inflation = createInflationIndex(input);
+    const expenseInflation = createExpenseInflation(input);
+    const earners = getHouseholdEarners(input);
 
     // 子供を誕生年でソート（年上から順 = 昇順）し、childIdからインデックスへのマッピングを作成
     const sortedChildren = (input.children || []).slice().sort((a, b) => a.birthYear - b.birthYear);
@@ -415,31 +1220,28 @@ export class FireCalculator {
       childIdToIndex.set(child.id, index);
     });
 
-    // 初期資産の計算
-    const initialTotalAssets = calculateTotalAssets(input.assetHoldings, input.exchangeRate, 'yen');
-    const currentExchangeRate = input.exchangeRate ?? 150;
-
-    // 資産残高の追跡（各銘柄ごと、IDをキーとして使用）
-    const assetBalances: { [key: string]: number } = {};
-    input.assetHoldings.forEach(holding => {
-      const value = holding.quantity * holding.pricePerUnit;
-      const valueInYen = holding.currency === 'USD'
-        ? value * currentExchangeRate
-        : value;
-      assetBalances[holding.id] = valueInYen;
-    });
-
-    // 初期構成比を計算（既存のinitialTotalAssetsを使用）
-    const initialRatios: { [key: string]: number } = {};
-    if (initialTotalAssets > 0) {
-      Object.keys(assetBalances).forEach(id => {
-        initialRatios[id] = assetBalances[id] / initialTotalAssets;
-      });
-    }
+    // 資産残高・取得価額・初期構成比
+    const { balances: assetBalances, costBases, initialRatios } = initializeHoldings(input);
 
     // 現金残高の追跡（給与・年金の累計）
     let cashBalance = 0;
 
+    // 取り崩し戦略の状態（年をまたいで引き継ぐ）
+    const withdrawalState: WithdrawalState = {};
+
+    // 支出の柔軟な調整の状態（年をまたいで引き継ぐ）
+    const flexibleSpendingState = createFlexibleSpendingState();
+
+    // 翌年に支払う住民税（世帯の合計）
+    let pendingResidentTax = earners.reduce((sum, earner) => sum + calculateInitialResidentTax(earner.member), 0);
+
+    // 受け取り済みの退職一時金（退職所得控除の調整に使用）
+    const retirementLumpSumHistory: RetirementLumpSumReceipt[] = [];
+
+    // 構成員ごとの前年の収入（退職後の国民健康保険料の計算に使用）
+    const previousIncomes = initializeHouseholdPreviousIncomes(input, earners);
+    const takeHomeSalaryNames = earners.map(getTakeHomeSalaryNames);
+
     // ローン残高の追跡（各ローンごと）
     const loanBalances: { [key: string]: number } = {};
     input.loans.forEach(loan => {
@@ -451,42 +1253,69 @@ export class FireCalculator {
       const age = input.currentAge + yearOffset;
       const year = new Date().getFullYear() + yearOffset;
 
-      // 給与収入
+      // 給与・年金収入と税金・社会保険料（負数）を世帯の構成員ごとに計算
+      // 住民税は前年の給与所得に基づく金額を当年に支払う
       const salaries: { [key: string]: number } = {};
-      input.salaryPlans.forEach(plan => {
-        if (age >= plan.startAge && age <= plan.endAge && plan.annualAmount) {
-          const name = plan.name || `給与${plan.id}`;
-          const inflationAdjusted = plan.annualAmount * Math.pow(1 + inflationRate, yearOffset);
-          salaries[name] = inflationAdjusted;
-        }
-      });
-
-      // 年金収入
       const pensions: { [key: string]: number } = {};
-      input.pensionPlans.forEach(plan => {
-        if (age >= plan.startAge && age <= plan.endAge && plan.annualAmount) {
-          const name = plan.name || `年金${plan.id}`;
-          const amountInYen = convertPensionToJPY(plan, input.exchangeRate);
-          const inflationAdjusted = amountInYen * Math.pow(1 + inflationRate, yearOffset);
-          pensions[name] = inflationAdjusted;
-        }
+      let incomeTax = 0;
+      const residentTax = -pendingResidentTax;
+      let healthInsurance = 0;
+      let pensionInsurance = 0;
+      let employmentInsurance = 0;
+      pendingResidentTax = 0;
+      earners.forEach((earner, index) => {
+        const memberAge = age + earner.ageOffset;
+        if (!isMemberAlive(earner.member, memberAge)) return;
+
+        const income = calculateEarnerIncome(input, earner, memberAge, yearOffset, 1, inflation);
+        const salaryDeductions = calculateSalaryDeductions(income.grossSalaries, memberAge);
+        // 退職後は前年の収入に基づく国民健康保険料と、60歳までの国民年金保険料
+        const postRetirementPremiums = calculatePostRetirementInsurance(
+          getMemberInsuranceSettings(input.postRetirementInsurance, earners),
+          { ...previousIncomes[index], age: memberAge, inflationFactor: inflation.factor(yearOffset) }
+        );
+        incomeTax -= salaryDeductions.incomeTax;
+        healthInsurance -= salaryDeductions.healthInsurance + postRetirementPremiums.healthInsurance;
+        pensionInsurance -= salaryDeductions.pensionInsurance + postRetirementPremiums.nationalPension;
+        employmentInsurance -= salaryDeductions.employmentInsurance;
+        pendingResidentTax += salaryDeductions.residentTax;
+
+        Object.assign(salaries, income.salaries);
+        Object.assign(pensions, income.pensions);
+        recordPreviousIncome(previousIncomes[index], income.salaries, income.pensions, takeHomeSalaryNames[index], memberAge);
       });
 
       // 臨時収入
       const specialIncomes: { [key: string]: number } = {};
       input.specialIncomes.forEach(income => {
-        if (income.targetAge === age && income.amount) {
+        if (income.kind !== 'retirement-allowance' && income.targetAge === age && income.amount) {
           const name = income.name || `臨時収入${income.id}`;
-          const inflationAdjusted = income.amount * Math.pow(1 + inflationRate, yearOffset);
-          specialIncomes[name] = inflationAdjusted;
+          const inflationAdjusted = income.amount * inflation.factor(yearOffset);
+          // 同じ名前の臨時収入が同じ年齢にある場合は合算（月次の計算と同じ扱い）
+          specialIncomes[name] = (specialIncomes[name] ?? 0) + inflationAdjusted;
         }
       });
 
-      // 生活費（負数）
-      const monthlyExpenses = getMonthlyExpensesForAge(age, input.expenseSegments);
-      const annualExpenses = monthlyExpenses * 12;
-      const inflationAdjustedExpenses = annualExpenses * Math.pow(1 + inflationRate, yearOffset);
-      const expenses = -inflationAdjustedExpenses;
+      // 退職金・iDeCo一時金（退職所得の税金を差し引いた手取り額）
+      Object.entries(receiveRetirementLumpSums(
+        input, age, inflation.factor(yearOffset), assetBalances, costBases, retirementLumpSumHistory
+      )).forEach(([name, amount]) => {
+        specialIncomes[name] = (specialIncomes[name] ?? 0) + amount;
+      });
+
+      // 生活費（負数、本人の想定寿命後は最後の区間の支出を続ける、費目ごとにインフレ率の上乗せを反映）
+      const expensesByCategory = calculateExpensesByCategory(
+        input, Math.min(age, input.lifeExpectancy), yearOffset, 12, expenseInflation
+      );
+
+      // 支出の柔軟な調整（前年までの運用リターン・取り崩し率に応じて裁量的な支出を削減）
+      const spendingCut = input.flexibleSpending && flexibleSpendingState.isCutting
+        ? calculateSpendingCut(
+            input.flexibleSpending,
+            getDiscretionaryExpensesForAge(input.expenseSegments, Math.min(age, input.lifeExpectancy)) * 12 * inflation.factor(yearOffset)
+          )
+        : 0;
+      const expenses = sumByCategory(expensesByCategory) + spendingCut;
 
       // ローン返済（負数）と残高更新（月次複利計算）
       let totalLoanPayment = 0;
@@ -530,7 +1359,7 @@ export class FireCalculator {
             name = `${name}${childIndex}`;
           }
 
-          const inflationAdjusted = expense.amount * Math.pow(1 + inflationRate, yearOffset);
+          const inflationAdjusted = expense.amount * inflation.factor(yearOffset);
 
           // 同名の費用がある場合は合算
           if (specialExpenses[name]) {
@@ -549,6 +1378,11 @@ export class FireCalculator {
 
       // 合計支出
       const totalExpense =
+        incomeTax +
+        residentTax +
+        healthInsurance +
+        pensionInsurance +
+        employmentInsurance +
         expenses +
         loanPayments +
         Object.values(specialExpenses).reduce((sum, val) => sum + val, 0);
@@ -557,83 +1391,101 @@ export class FireCalculator {
       const netCashFlow = totalIncome + totalExpense;
 
       // 資産残高の更新（利回り適用のみ）
+      const financialAssetsAtStart = Object.values(assetBalances).reduce((sum, val) => sum + val, 0);
       input.assetHoldings.forEach(holding => {
         const returnRate = (holding.expectedReturn ?? 5) / 100;
 
         // 利回り適用
         assetBalances[holding.id] = assetBalances[holding.id] * (1 + returnRate);
       });
+      const financialAssetsAfterReturn = Object.values(assetBalances).reduce((sum, val) => sum + val, 0);
 
       // 現金累計の更新（年間収支を累積）
       cashBalance += netCashFlow;
 
+      // 当年の目標配分（資産クラス指定の場合は利回り適用後の評価額で按分）
+      const targetWeights = resolveTargetWeightsForAge(input, age, assetBalances);
+
+      // 当年のNISA投資枠使用額（黒字分の投資とリバランスで共有）
+      const nisaAnnualUsage = createNisaAnnualUsage();
+
       // 投資・取り崩し記録用
       const investedAssets = new Set<string>();
       const withdrawnAssets = new Set<string>();
+      let totalWithdrawn = 0;
+      let totalCapitalGainsTax = 0;
 
       // 年間収支に応じて資産を調整（netCashFlowで判断）
       if (netCashFlow < 0) {
-        // 赤字：利回りの低い順に取り崩し
+        // 赤字：取り崩し戦略に従って取り崩し（iDeCoは受取開始年齢まで取り崩さない）
         const deficit = Math.abs(netCashFlow);
-        let remaining = deficit;
-
-        // 利回りの低い順に資産をソート
-        const sortedAssets = input.assetHoldings
-          .map((holding, index) => ({
-            id: holding.id,
-            name: holding.name || `資産${holding.id}`,
-            index: index,
-            returnRate: (holding.expectedReturn ?? 5) / 100,
-            balance: assetBalances[holding.id] || 0
-          }))
-          .filter(asset => asset.balance > 0) // 残高がある資産のみ
-          .sort((a, b) => a.returnRate - b.returnRate); // 利回りの低い順
-
-        // 取り崩し処理
-        let totalWithdrawn = 0;
-        for (const asset of sortedAssets) {
-          if (remaining <= 0) break;
-
-          const withdrawAmount = Math.min(asset.balance, remaining);
-          assetBalances[asset.id] -= withdrawAmount;
-          totalWithdrawn += withdrawAmount;
-          remaining -= withdrawAmount;
-
-          if (withdrawAmount > 0) {
-            // 表示名と同じ形式で記録（インデックス付き）
-            const displayName = `${asset.name} [${asset.index + 1}]`;
-            withdrawnAssets.add(displayName);
-          }
-        }
-        // 取り崩した分を現金に追加
+
+        // 残高があり取り崩し可能な資産のみ
+        const candidates = getWithdrawalCandidates(input.assetHoldings, assetBalances, costBases, age, input.idecoLumpSum);
+        const portfolioValue = candidates.reduce((sum, c) => sum + c.balance, 0);
+        const expectedReturn = portfolioValue > 0
+          ? candidates.reduce((sum, c) => sum + c.returnRate * c.balance, 0) / portfolioValue
+          : 0;
+
+        const withdrawalAmount = determineWithdrawalAmount(input.withdrawalStrategy, withdrawalState, {
+          deficit,
+          portfolioValue,
+          expectedReturn,
+          inflationRate: inflation.rateAt(Math.max(0, yearOffset - 1)),
+          yearsRemaining: years - yearOffset,
+        });
+
+        // 取り崩し処理（特定口座は譲渡益課税後の手取りで賄えるよう売却額をグロスアップ）
+        const sale = sellHoldings(
+          input.assetHoldings,
+          assetBalances,
+          costBases,
+          input.withdrawalStrategy,
+          candidates,
+          withdrawalAmount,
+          withdrawnAssets
+        );
+        totalWithdrawn += sale.withdrawn;
+        totalCapitalGainsTax += sale.tax;
+        // 取り崩した分（税引後）を現金に追加
         cashBalance += totalWithdrawn;
       } else if (netCashFlow > 0) {
-        // 黒字：初期構成比で資産に投資
-        const totalInitialRatio = Object.values(initialRatios).reduce((sum, val) => sum + val, 0);
-        if (totalInitialRatio > 0) {
-          input.assetHoldings.forEach((holding, index) => {
-            const investAmount = netCashFlow * initialRatios[holding.id];
-            if (investAmount > 0) {
-              assetBalances[holding.id] += investAmount;
-              // 表示名と同じ形式で記録（インデックス付き）
-              const baseName = holding.name || `資産${holding.id}`;
-              const displayName = `${baseName} [${index + 1}]`;
-              investedAssets.add(displayName);
-            }
-          });
-          // 黒字分は資産に投資したので現金累計から減算
-          cashBalance -= netCashFlow;
-        }
+        // 黒字：目標配分（未設定の場合は初期構成比）で資産に投資（NISAの投資枠を超えた分は特定口座へ）
+        const totalInvested = investSurplus(
+          input.assetHoldings,
+          assetBalances,
+          costBases,
+          netCashFlow,
+          targetWeights ?? initialRatios,
+          nisaAnnualUsage,
+          investedAssets
+        );
+        // 投資した分は現金累計から減算
+        cashBalance -= totalInvested;
       }
 
-      // 資産評価額（利回り適用後）
-      // 入力順に表示名を付与（同名でも区別できるようインデックスを追加）
-      const assets: { [key: string]: number } = {};
-      input.assetHoldings.forEach((holding, index) => {
-        const baseName = holding.name || `資産${holding.id}`;
-        const displayName = `${baseName} [${index + 1}]`;
-        assets[displayName] = assetBalances[holding.id];
-      });
+      // リバランス（目標配分から乖離した資産を売買、売却益には譲渡益税がかかる）
+      let rebalanceTrades: { [key: string]: number } = {};
+      if (targetWeights && shouldRebalance(input.rebalancing, yearOffset, input.assetHoldings, assetBalances, targetWeights)) {
+        const rebalance = rebalanceHoldings(input.assetHoldings, assetBalances, costBases, targetWeights, nisaAnnualUsage);
+        rebalanceTrades = rebalance.trades;
+        totalCapitalGainsTax += rebalance.tax;
+        // NISAの投資枠超過などで購入できなかった分は現金に残す
+        cashBalance += rebalance.uninvested;
+      }
+
+      // 翌年の支出の柔軟な調整を判定
+      if (input.flexibleSpending) {
+        updateFlexibleSpendingState(
+          input.flexibleSpending,
+          flexibleSpendingState,
+          financialAssetsAtStart > 0 ? financialAssetsAfterReturn / financialAssetsAtStart - 1 : 0,
+          financialAssetsAtStart > 0 ? totalWithdrawn / financialAssetsAtStart * 100 : 0
+        );
+      }
+
+      // 資産評価額（利回り適用後）と資産クラス別の評価額
+      const { assets, assetClassBalances } = summarizeHoldings(input.assetHoldings, assetBalances);
 
       // 合計資産（金融資産 + 現金残高）
       const totalAssets = Math.max(0, Object.values(assetBalances).reduce((sum, val) => sum + val, 0) + cashBalance);
@@ -647,22 +1499,439 @@ export class FireCalculator {
       details.push({
         year,
         age,
+        spouseAge: input.spouse ? input.spouse.currentAge + yearOffset : undefined,
         salaries,
         pensions,
         specialIncomes,
+        incomeTax,
+        residentTax,
+        healthInsurance,
+        pensionInsurance,
+        employmentInsurance,
         expenses,
+        expensesByCategory,
+        spendingCut,
         loanPayments,
         loanBalances: currentLoanBalances,
         specialExpenses,
         annualNetCashFlow: netCashFlow,
+        portfolioWithdrawal: totalWithdrawn,
+        capitalGainsTax: -totalCapitalGainsTax,
         cash: cashBalance,
         assets,
         withdrawnAssets,
         investedAssets,
+        rebalanceTrades,
+        assetClassBalances,
         totalAssets,
       });
     }
 
     return details;
   }
+  /**
+   * 月次詳細データを計算（月次計算の最初の数年分）
+   * @param input 計算入力（計算単位の指定にかかわらず月次で計算する）
+   * @param years 月次詳細データを返す年数
+   */
+  static calculateMonthlyDetails(
+    input: FireCalculationInput,
+    years: number = DEFAULT_MONTHLY_DETAIL_YEARS
+  ): MonthlyDetailData[] {
+    const detailYears = Math.max(0, Math.min(years, getSimulationYears(input)));
+    return this.simulateMonthly(input, detailYears * 12).monthly;
+  }
+
+  /**
+   * 月次シミュレーション
+   *
+   * 利回り・収入・支出・ローン返済を毎月反映し、誕生月に年齢を進める。
+   * 計算開始月から12か月ごとに年次詳細データへ集計する。
+   * - 所得税は年換算の概算額を毎月源泉徴収し、12か月ごとに精算する（年末調整に相当）
+   * - 住民税は12か月分の給与所得に対して計算し、次の12か月で均等に支払う
+   * - 取り崩し額を決める戦略は、赤字となった最初の月に年間の取り崩し額を決め、赤字の月に1/12ずつ取り崩す
+   * - NISAの年間投資枠・リバランスは12か月ごとに更新・実施する
+   *
+   * @param input 計算入力
+   * @param detailMonths 月次詳細データを記録する月数
+   */
+  private static simulateMonthly(
+    input: FireCalculationInput,
+    detailMonths: number
+  ): { yearly: YearlyDetailData[]; monthly: MonthlyDetailData[] } {
+    const yearlyDetails: YearlyDetailData[] = [];
+    const monthlyDetails: MonthlyDetailData[] = [];
+    const years = getSimulationYears(input);
+    const inflation = createInflationIndex(input);
+    const expenseInflation = createExpenseInflation(input);
+    const earners = getHouseholdEarners(input);
+    const startDate = new Date();
+    const startMonth = startDate.getMonth();
+    const startYear = startDate.getFullYear();
+
+    // 計算開始から次の誕生月までの月数（誕生月が未指定または計算開始月の場合は12か月後）
+    const monthsToBirthday = input.birthMonth
+      ? ((input.birthMonth - 1 - startMonth + 12) % 12) || 12
+      : 12;
+    const getAgeAtMonth = (monthOffset: number) =>
+      input.currentAge + (monthOffset >= monthsToBirthday ? Math.floor((monthOffset - monthsToBirthday) / 12) + 1 : 0);
+
+    // 子供を誕生年でソート（年上から順 = 昇順）し、childIdからインデックスへのマッピングを作成
+    const sortedChildren = (input.children || []).slice().sort((a, b) => a.birthYear - b.birthYear);
+    const childIdToIndex = new Map<string, number>();
+    sortedChildren.forEach((child, index) => {
+      childIdToIndex.set(child.id, index);
+    });
+
+    const { balances: assetBalances, costBases, initialRatios } = initializeHoldings(input);
+    let cashBalance = 0;
+    const withdrawalState: WithdrawalState = {};
+    const flexibleSpendingState = createFlexibleSpendingState();
+    const isAmountBased = isAmountBasedStrategy(getWithdrawalStrategyType(input.withdrawalStrategy));
+    // 構成員ごとの次の12か月に支払う住民税
+    const pendingResidentTaxes = earners.map(earner => calculateInitialResidentTax(earner.member));
+    const retirementLumpSumHistory: RetirementLumpSumReceipt[] = [];
+    const previousIncomes = initializeHouseholdPreviousIncomes(input, earners);
+    const takeHomeSalaryNames = earners.map(getTakeHomeSalaryNames);
+
+    const loanBalances: { [key: string]: number } = {};
+    input.loans.forEach(loan => {
+      const name = loan.name || `ローン${loan.id}`;
+      loanBalances[name] = loan.balance;
+    });
+
+    for (let yearOffset = 0; yearOffset < years; yearOffset++) {
+      const age = input.currentAge + yearOffset;
+      const year = startYear + yearOffset;
+
+      // 前期の給与所得に対する住民税を12か月で分割して支払う
+      const monthlyResidentTax = pendingResidentTaxes.reduce((sum, tax) => sum + tax, 0) / 12;
+
+      // 退職後の社会保険料（前期の収入に基づく年額を12か月で分割して支払う）
+      const postRetirementPremiums = earners.map((earner, index) =>
+        calculatePostRetirementInsurance(getMemberInsuranceSettings(input.postRetirementInsurance, earners), {
+          ...previousIncomes[index],
+          age: age + earner.ageOffset,
+          inflationFactor: inflation.factor(yearOffset),
+        })
+      );
+
+      // 12か月分の集計
+      const salaries: { [key: string]: number } = {};
+      const pensions: { [key: string]: number } = {};
+      const specialIncomes: { [key: string]: number } = {};
+      const specialExpenses: { [key: string]: number } = {};
+      let incomeTax = 0;
+      let residentTax = 0;
+      let healthInsurance = 0;
+      let pensionInsurance = 0;
+      let employmentInsurance = 0;
+      let expenses = 0;
+      const expensesByCategory: Partial<Record<ExpenseCategory, number>> = {};
+      let spendingCut = 0;
+      let loanPayments = 0;
+      let annualNetCashFlow = 0;
+      let totalWithdrawn = 0;
+      let totalCapitalGainsTax = 0;
+      const investedAssets = new Set<string>();
+      const withdrawnAssets = new Set<string>();
+      const nisaAnnualUsage = createNisaAnnualUsage();
+
+      // 所得税の精算用（構成員ごと）
+      const withholdings = earners.map(() => ({ grossSalary: 0, socialInsurance: 0, withheldIncomeTax: 0 }));
+      const salariesByEarner = earners.map(() => ({} as { [key: string]: number }));
+      const pensionsByEarner = earners.map(() => ({} as { [key: string]: number }));
+
+      // 取り崩し額を決める戦略の月額（赤字となった最初の月に決定）
+      let plannedMonthlyWithdrawal: number | null = null;
+
+      // 支出の柔軟な調整の判定に使う年初の金融資産と運用リターンの累積
+      const financialAssetsAtStart = Object.values(assetBalances).reduce((sum, val) => sum + val, 0);
+      let annualReturnFactor = 1;
+
+      for (let month = 0; month < 12; month++) {
+        const monthOffset = yearOffset * 12 + month;
+        const monthAge = getAgeAtMonth(monthOffset);
+        // 誕生月（または計算開始月）に到達した年齢の臨時収入・特別支出を計上する
+        const isAgeReached = monthOffset === 0 || getAgeAtMonth(monthOffset - 1) !== monthAge;
+        const inflationFactor = inflation.factor(monthOffset / 12);
+
+        // 給与・年金収入と税金・社会保険料（構成員ごと）
+        let monthIncome = 0;
+        let monthIncomeTax = 0;
+        let monthSocialInsurance = 0;
+        let monthPostRetirementPremium = 0;
+        earners.forEach((earner, index) => {
+          const memberAge = monthAge + earner.ageOffset;
+          if (!isMemberAlive(earner.member, memberAge)) return;
+
+          const income = calculateEarnerIncome(input, earner, memberAge, monthOffset / 12, 1 / 12, inflation);
+          Object.entries(income.salaries).forEach(([name, amount]) => {
+            salaries[name] = (salaries[name] ?? 0) + amount;
+            salariesByEarner[index][name] = (salariesByEarner[index][name] ?? 0) + amount;
+            monthIncome += amount;
+          });
+          Object.entries(income.pensions).forEach(([name, amount]) => {
+            pensions[name] = (pensions[name] ?? 0) + amount;
+            pensionsByEarner[index][name] = (pensionsByEarner[index][name] ?? 0) + amount;
+            monthIncome += amount;
+          });
+
+          // 社会保険料（給与ごとの月額）と所得税の源泉徴収（年換算の概算額）
+          let earnerSocialInsurance = 0;
+          income.grossSalaries.forEach(amount => {
+            const premiums = calculateSocialInsurance(amount * 12, memberAge);
+            healthInsurance -= premiums.healthInsurance / 12;
+            pensionInsurance -= premiums.pensionInsurance / 12;
+            employmentInsurance -= premiums.employmentInsurance / 12;
+            earnerSocialInsurance += (premiums.healthInsurance + premiums.pensionInsurance + premiums.employmentInsurance) / 12;
+          });
+          monthSocialInsurance += earnerSocialInsurance;
+          monthPostRetirementPremium += (postRetirementPremiums[index].healthInsurance + postRetirementPremiums[index].nationalPension) / 12;
+          healthInsurance -= postRetirementPremiums[index].healthInsurance / 12;
+          pensionInsurance -= postRetirementPremiums[index].nationalPension / 12;
+
+          const withholding = withholdings[index];
+          const grossSalary = income.grossSalaries.reduce((sum, val) => sum + val, 0);
+          const withheldTax = calculateIncomeTax(grossSalary * 12, earnerSocialInsurance * 12) / 12;
+          withholding.withheldIncomeTax += withheldTax;
+          withholding.grossSalary += grossSalary;
+          withholding.socialInsurance += earnerSocialInsurance;
+          monthIncomeTax += withheldTax;
+        });
+
+        if (month === 11) {
+          // 12か月分の給与で所得税を精算し、次の12か月に支払う住民税を計算
+          withholdings.forEach((withholding, index) => {
+            monthIncomeTax += calculateIncomeTax(withholding.grossSalary, withholding.socialInsurance) - withholding.withheldIncomeTax;
+            pendingResidentTaxes[index] = calculateResidentTax(withholding.grossSalary, withholding.socialInsurance);
+          });
+        }
+        incomeTax -= monthIncomeTax;
+        residentTax -= monthlyResidentTax;
+
+        // 臨時収入
+        input.specialIncomes.forEach(income => {
+          if (isAgeReached && income.kind !== 'retirement-allowance' && income.targetAge === monthAge && income.amount) {
+            const name = income.name || `臨時収入${income.id}`;
+            const amount = income.amount * inflationFactor;
+            specialIncomes[name] = (specialIncomes[name] ?? 0) + amount;
+            monthIncome += amount;
+          }
+        });
+
+        // 退職金・iDeCo一時金（退職所得の税金を差し引いた手取り額）
+        if (isAgeReached) {
+          const lumpSums = receiveRetirementLumpSums(
+            input, monthAge, inflationFactor, assetBalances, costBases, retirementLumpSumHistory
+          );
+          Object.entries(lumpSums).forEach(([name, amount]) => {
+            specialIncomes[name] = (specialIncomes[name] ?? 0) + amount;
+            monthIncome += amount;
+          });
+        }
+
+        // 生活費（費目ごとにインフレ率の上乗せを反映）
+        const monthExpensesByCategory = calculateExpensesByCategory(
+          input, Math.min(monthAge, input.lifeExpectancy), monthOffset / 12, 1, expenseInflation
+        );
+        // 支出の柔軟な調整（前年までの運用リターン・取り崩し率に応じて裁量的な支出を削減）
+        const monthSpendingCut = input.flexibleSpending && flexibleSpendingState.isCutting
+          ? calculateSpendingCut(
+              input.flexibleSpending,
+              getDiscretionaryExpensesForAge(input.expenseSegments, Math.min(monthAge, input.lifeExpectancy)) * inflationFactor
+            )
+          : 0;
+        spendingCut += monthSpendingCut;
+        const monthExpenses = -sumByCategory(monthExpensesByCategory) - monthSpendingCut;
+        expenses -= monthExpenses;
+        (Object.keys(monthExpensesByCategory) as ExpenseCategory[]).forEach(category => {
+          expensesByCategory[category] = (expensesByCategory[category] ?? 0) + (monthExpensesByCategory[category] ?? 0);
+        });
+
+        // ローン返済と残高更新
+        let monthLoanPayment = 0;
+        input.loans.forEach(loan => {
+          const name = loan.name || `ローン${loan.id}`;
+          if (loanBalances[name] > 0 && loan.monthlyPayment > 0) {
+            const monthlyRate = (loan.interestRate ?? 0) / 100 / 12;
+            loanBalances[name] *= (1 + monthlyRate);
+            const payment = Math.min(loan.monthlyPayment, loanBalances[name]);
+            loanBalances[name] -= payment;
+            monthLoanPayment += payment;
+          }
+        });
+        loanPayments -= monthLoanPayment;
+
+        // 特別支出
+        let monthSpecialExpenses = 0;
+        input.specialExpenses.forEach(expense => {
+          if (isAgeReached && expense.targetAge === monthAge && expense.amount) {
+            let name = expense.name || `特別支出${expense.id}`;
+
+            // 子供に紐づく費用の場合、数値サフィックスを追加
+            if (expense.childId && childIdToIndex.has(expense.childId)) {
+              name = `${name}${childIdToIndex.get(expense.childId)!}`;
+            }
+
+            const amount = expense.amount * inflationFactor;
+            specialExpenses[name] = (specialExpenses[name] ?? 0) - amount;
+            monthSpecialExpenses += amount;
+          }
+        });
+
+        // 月間収支
+        const monthDeductions = monthIncomeTax + monthlyResidentTax + monthSocialInsurance + monthPostRetirementPremium;
+        const monthNetCashFlow = monthIncome - monthDeductions - monthExpenses - monthLoanPayment - monthSpecialExpenses;
+        annualNetCashFlow += monthNetCashFlow;
+
+        // 利回り適用（月次複利）
+        const monthFinancialAssets = Object.values(assetBalances).reduce((sum, val) => sum + val, 0);
+        input.assetHoldings.forEach(holding => {
+          const returnRate = (holding.expectedReturn ?? 5) / 100;
+          assetBalances[holding.id] *= Math.pow(1 + returnRate, 1 / 12);
+        });
+        if (monthFinancialAssets > 0) {
+          annualReturnFactor *= Object.values(assetBalances).reduce((sum, val) => sum + val, 0) / monthFinancialAssets;
+        }
+
+        cashBalance += monthNetCashFlow;
+
+        let monthWithdrawn = 0;
+        let monthCapitalGainsTax = 0;
+        if (monthNetCashFlow < 0) {
+          // 赤字：取り崩し戦略に従って取り崩し
+          const candidates = getWithdrawalCandidates(input.assetHoldings, assetBalances, costBases, monthAge, input.idecoLumpSum);
+
+          let withdrawalAmount = Math.abs(monthNetCashFlow);
+          if (isAmountBased) {
+            if (plannedMonthlyWithdrawal === null) {
+              const portfolioValue = candidates.reduce((sum, c) => sum + c.balance, 0);
+              const expectedReturn = portfolioValue > 0
+                ? candidates.reduce((sum, c) => sum + c.returnRate * c.balance, 0) / portfolioValue
+                : 0;
+              plannedMonthlyWithdrawal = determineWithdrawalAmount(input.withdrawalStrategy, withdrawalState, {
+                deficit: withdrawalAmount * 12,
+                portfolioValue,
+                expectedReturn,
+                inflationRate: inflation.rateAt(Math.max(0, yearOffset - 1)),
+                yearsRemaining: years - yearOffset,
+              }) / 12;
+            }
+            withdrawalAmount = plannedMonthlyWithdrawal;
+          }
+
+          const sale = sellHoldings(
+            input.assetHoldings,
+            assetBalances,
+            costBases,
+            input.withdrawalStrategy,
+            candidates,
+            withdrawalAmount,
+            withdrawnAssets
+          );
+          monthWithdrawn = sale.withdrawn;
+          monthCapitalGainsTax = sale.tax;
+          cashBalance += monthWithdrawn;
+        } else if (monthNetCashFlow > 0) {
+          // 黒字：目標配分（未設定の場合は初期構成比）で投資
+          const targetWeights = resolveTargetWeightsForAge(input, monthAge, assetBalances);
+          cashBalance -= investSurplus(
+            input.assetHoldings,
+            assetBalances,
+            costBases,
+            monthNetCashFlow,
+            targetWeights ?? initialRatios,
+            nisaAnnualUsage,
+            investedAssets
+          );
+        }
+        totalWithdrawn += monthWithdrawn;
+        totalCapitalGainsTax += monthCapitalGainsTax;
+
+        if (monthOffset < detailMonths) {
+          const calendarMonth = startMonth + monthOffset;
+          monthlyDetails.push({
+            year: startYear + Math.floor(calendarMonth / 12),
+            month: calendarMonth % 12 + 1,
+            age: monthAge,
+            spouseAge: input.spouse ? monthAge + earners[1].ageOffset : undefined,
+            income: monthIncome,
+            deductions: -monthDeductions,
+            expenses: -monthExpenses,
+            loanPayments: -monthLoanPayment,
+            specialExpenses: -monthSpecialExpenses,
+            netCashFlow: monthNetCashFlow,
+            portfolioWithdrawal: monthWithdrawn,
+            capitalGainsTax: -monthCapitalGainsTax,
+            cash: cashBalance,
+            assets: summarizeHoldings(input.assetHoldings, assetBalances).assets,
+            totalAssets: Math.max(0, Object.values(assetBalances).reduce((sum, val) => sum + val, 0) + cashBalance),
+          });
+        }
+      }
+
+      earners.forEach((earner, index) => {
+        recordPreviousIncome(
+          previousIncomes[index], salariesByEarner[index], pensionsByEarner[index], takeHomeSalaryNames[index], age + earner.ageOffset
+        );
+      });
+
+      // 翌年の支出の柔軟な調整を判定
+      if (input.flexibleSpending) {
+        updateFlexibleSpendingState(
+          input.flexibleSpending,
+          flexibleSpendingState,
+          annualReturnFactor - 1,
+          financialAssetsAtStart > 0 ? totalWithdrawn / financialAssetsAtStart * 100 : 0
+        );
+      }
+
+      // 12か月ごとのリバランス
+      const endAge = getAgeAtMonth(yearOffset * 12 + 11);
+      const targetWeights = resolveTargetWeightsForAge(input, endAge, assetBalances);
+      let rebalanceTrades: { [key: string]: number } = {};
+      if (targetWeights && shouldRebalance(input.rebalancing, yearOffset, input.assetHoldings, assetBalances, targetWeights)) {
+        const rebalance = rebalanceHoldings(input.assetHoldings, assetBalances, costBases, targetWeights, nisaAnnualUsage);
+        rebalanceTrades = rebalance.trades;
+        totalCapitalGainsTax += rebalance.tax;
+        cashBalance += rebalance.uninvested;
+      }
+
+      const { assets, assetClassBalances } = summarizeHoldings(input.assetHoldings, assetBalances);
+      const totalAssets = Math.max(0, Object.values(assetBalances).reduce((sum, val) => sum + val, 0) + cashBalance);
+
+      yearlyDetails.push({
+        year,
+        age,
+        spouseAge: input.spouse ? input.spouse.currentAge + yearOffset : undefined,
+        salaries,
+        pensions,
+        specialIncomes,
+        incomeTax,
+        residentTax,
+        healthInsurance,
+        pensionInsurance,
+        employmentInsurance,
+        expenses,
+        expensesByCategory,
+        spendingCut,
+        loanPayments,
+        loanBalances: { ...loanBalances },
+        specialExpenses,
+        annualNetCashFlow,
+        portfolioWithdrawal: totalWithdrawn,
+        capitalGainsTax: -totalCapitalGainsTax,
+        cash: cashBalance,
+        assets,
+        withdrawnAssets,
+        investedAssets,
+        rebalanceTrades,
+        assetClassBalances,
+        totalAssets,
+      });
+    }
+
+    return { yearly: yearlyDetails, monthly: monthlyDetails };
+  }
 }
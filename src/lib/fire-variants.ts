@@ -0,0 +1,208 @@
+import { DEFAULT_MAX_WORKING_AGE, FireCalculationInput, FireCalculationResult, FireCalculator } from './fire-calculator';
+import { scaleExpenseSegment } from './expense-category';
+import { createInflationIndex } from './inflation';
+import { ExpenseSegment, FireVariantMilestone, FireVariantSettings, FireVariantType, SpecialIncome } from './types';
+
+/**
+ * FIREの種類ごとの達成目標
+ *
+ * 通常のFIREと同じく、退職年齢を前後させて想定寿命まで資産が持続する最も早い年齢を二分探索し、
+ * その年齢で退職した場合の資産推移上の、退職年齢時点の資産額を目標額とする。種類ごとに退職後の条件だけを変える。
+ * - リーン / ファット: 退職後の生活費に倍率をかける
+ * - バリスタ: 退職後、指定年齢までパート収入を得る
+ * - コースト: 退職（積立の停止）後、完全に退職する年齢までは生活費・税金・社会保険料・ローン返済・特別支出を収入で賄い、資産を取り崩さない
+ */
+
+// FIREの種類の表示名
+export const FIRE_VARIANT_LABELS: Record<FireVariantType, string> = {
+  'lean': 'リーンFIRE',
+  'regular': 'FIRE',
+  'fat': 'ファットFIRE',
+  'barista': 'バリスタFIRE',
+  'coast': 'コーストFIRE',
+};
+
+// FIREの種類ごとの設定の既定値
+export const DEFAULT_FIRE_VARIANT_SETTINGS: FireVariantSettings = {
+  leanExpenseMultiplier: 0.7,
+  fatExpenseMultiplier: 1.5,
+  baristaIncome: 1200000,
+  baristaEndAge: 65,
+  coastRetirementAge: 65,
+};
+
+// バリスタFIREのパート収入として計上する臨時収入の名前
+const BARISTA_INCOME_NAME = 'バリスタFIREのパート収入';
+
+// コーストFIREで生活費以外の支出を賄う収入として計上する臨時収入の名前
+const COAST_INCOME_NAME = 'コーストFIREの収入';
+
+/**
+ * 指定年齢以降の生活費に倍率をかけた支出区間を取得
+ * 倍率をかけた区間を先頭に追加する（年齢に該当する最初の区間の生活費が使われる）
+ * @param segments 支出区間
+ * @param fromAge 倍率をかける最初の年齢
+ * @param toAge 倍率をかける最後の年齢
+ * @param multiplier 生活費の倍率
+ */
+function scaleExpensesBetween(
+  segments: ExpenseSegment[],
+  fromAge: number,
+  toAge: number,
+  multiplier: number
+): ExpenseSegment[] {
+  const scaledSegments = segments
+    .filter(segment => segment.endAge >= fromAge && segment.startAge <= toAge)
+    .map(segment => ({
+      ...scaleExpenseSegment(segment, multiplier),
+      id: `${segment.id}-scaled`,
+      startAge: Math.max(segment.startAge, fromAge),
+      endAge: Math.min(segment.endAge, toAge),
+    }));
+  return [...scaledSegments, ...segments];
+}
+
+/**
+ * コーストFIREで完全に退職するまでの生活費以外の支出（税金・社会保険料・ローン返済・特別支出）を賄う収入
+ * 退職年齢で退職した場合の資産推移から年ごとの支出を求め、同額（現在価値）を臨時収入として計上する
+ * @param input 生活費を除いた計算入力
+ * @param retirementAge 退職（積立の停止）年齢
+ * @param coastRetirementAge 完全に退職する年齢
+ */
+function calculateCoastIncomes(
+  input: FireCalculationInput,
+  retirementAge: number,
+  coastRetirementAge: number
+): SpecialIncome[] {
+  const yearlyDetails = FireCalculator.calculateRetirementPath(input, retirementAge);
+  const inflation = createInflationIndex(input);
+  const coastIncomes: SpecialIncome[] = [];
+  for (let age = retirementAge + 1; age <= coastRetirementAge; age++) {
+    const yearOffset = age - input.currentAge;
+    const detail = yearlyDetails[yearOffset];
+    if (!detail) continue;
+
+    const outflows = -(
+      detail.incomeTax +
+      detail.residentTax +
+      detail.healthInsurance +
+      detail.pensionInsurance +
+      detail.employmentInsurance +
+      detail.loanPayments +
+      Object.values(detail.specialExpenses).reduce((sum, val) => sum + val, 0)
+    );
+    if (outflows > 0) {
+      coastIncomes.push({
+        id: `coast-income-${age}`,
+        name: COAST_INCOME_NAME,
+        amount: outflows / inflation.factor(yearOffset),
+        targetAge: age,
+      });
+    }
+  }
+  return coastIncomes;
+}
+
+/**
+ * 退職年齢ごとの計算入力を作成する関数を取得
+ */
+function getVariantInputFactory(
+  type: Exclude<FireVariantType, 'regular'>,
+  input: FireCalculationInput,
+  settings: FireVariantSettings
+): (retirementAge: number) => FireCalculationInput {
+  switch (type) {
+    case 'lean':
+    case 'fat': {
+      const multiplier = type === 'lean' ? settings.leanExpenseMultiplier : settings.fatExpenseMultiplier;
+      return retirementAge => ({
+        ...input,
+        expenseSegments: scaleExpensesBetween(input.expenseSegments, retirementAge + 1, Infinity, multiplier),
+      });
+    }
+    case 'barista':
+      return retirementAge => {
+        const baristaIncomes: SpecialIncome[] = [];
+        for (let age = retirementAge + 1; age <= settings.baristaEndAge; age++) {
+          baristaIncomes.push({ id: `barista-income-${age}`, name: BARISTA_INCOME_NAME, amount: settings.baristaIncome, targetAge: age });
+        }
+        return { ...input, specialIncomes: [...input.specialIncomes, ...baristaIncomes] };
+      };
+    case 'coast':
+      // 完全に退職するまでは生活費とそれ以外の支出をすべて収入で賄う（資産からの取り崩しなし）
+      return retirementAge => {
+        const coastInput = {
+          ...input,
+          expenseSegments: scaleExpensesBetween(input.expenseSegments, retirementAge + 1, settings.coastRetirementAge, 0),
+        };
+        return {
+          ...coastInput,
+          specialIncomes: [
+            ...input.specialIncomes,
+            ...calculateCoastIncomes(coastInput, retirementAge, settings.coastRetirementAge),
+          ],
+        };
+      };
+  }
+}
+
+/**
+ * 条件を満たす最も早い年齢を二分探索（年齢が上がるほど条件を満たしやすいものとする）
+ * @returns 条件を満たす最も早い年齢（上限年齢でも満たさない場合はnull）
+ */
+function findEarliestAge(minAge: number, maxAge: number, isAchievable: (age: number) => boolean): number | null {
+  if (!isAchievable(maxAge)) return null;
+  let low = minAge;
+  let high = maxAge;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (isAchievable(mid)) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * FIREの種類ごとの達成目標を計算
+ * @param input 計算入力
+ * @param result 同じ計算入力のFIRE計算結果（通常のFIREの目標に使用）
+ * @returns リーン・通常・ファット・バリスタ・コーストFIREの達成目標
+ */
+export function calculateFireVariants(
+  input: FireCalculationInput,
+  result: FireCalculationResult
+): FireVariantMilestone[] {
+  const settings = input.fireVariants ?? DEFAULT_FIRE_VARIANT_SETTINGS;
+  const maxWorkingAge = input.retirementSearch?.maxWorkingAge ?? DEFAULT_MAX_WORKING_AGE;
+
+  const variantTypes: Array<Exclude<FireVariantType, 'regular'>> = ['lean', 'fat', 'barista', 'coast'];
+  const milestones = variantTypes.map((type): FireVariantMilestone => {
+    const createInput = getVariantInputFactory(type, input, settings);
+    // コーストFIREは完全に退職する年齢まで、それ以外は働ける上限年齢まで探索
+    // （給与は働ける上限年齢で打ち切られるため、完全に退職する年齢も上限年齢までとする）
+    const maxAge = Math.max(
+      input.currentAge,
+      type === 'coast' ? Math.min(maxWorkingAge, settings.coastRetirementAge) : maxWorkingAge
+    );
+    const age = findEarliestAge(input.currentAge, maxAge, retirementAge =>
+      FireCalculator.canRetireAt(createInput(retirementAge), retirementAge)
+    );
+    if (age === null) return { type, targetAssets: null, age };
+
+    // 退職年齢時点の資産額
+    const yearlyDetails = FireCalculator.calculateRetirementPath(createInput(age), age);
+    return { type, targetAssets: yearlyDetails[age - input.currentAge]?.totalAssets ?? 0, age };
+  });
+
+  const regular: FireVariantMilestone = {
+    type: 'regular',
+    targetAssets: result.yearsToFire < 0 ? null : result.requiredAssets,
+    age: result.yearsToFire < 0 ? null : result.fireAge,
+  };
+
+  // 目標額の小さい順（リーン → 通常 → ファット）に並べ、バリスタ・コーストは後に続ける
+  return [milestones[0], regular, ...milestones.slice(1)];
+}
@@ -0,0 +1,71 @@
+import { ExpenseSegment, FlexibleSpendingSettings } from './types';
+
+/**
+ * 支出の柔軟な調整
+ *
+ * 運用リターンの累積（取り崩し・積立の影響を除いた値動き）がピークから一定以上下落した場合は、
+ * ピークまで回復するまで裁量的な支出を削減する。前年の取り崩し率が一定を超えた場合も、その年は削減する。
+ */
+
+// 年をまたいで引き継ぐ状態
+export interface FlexibleSpendingState {
+  returnIndex: number; // 運用リターンの累積（計算開始時点を1とする）
+  peakReturnIndex: number; // 運用リターンの累積のピーク
+  recoveryTarget: number | null; // 削減を終える運用リターンの累積（下落で削減を始めた時点のピーク）
+  isCutting: boolean; // 翌年に裁量的な支出を削減するか
+}
+
+/**
+ * 支出の柔軟な調整の状態を作成
+ */
+export function createFlexibleSpendingState(): FlexibleSpendingState {
+  return { returnIndex: 1, peakReturnIndex: 1, recoveryTarget: null, isCutting: false };
+}
+
+/**
+ * 1年分の運用リターンと取り崩し率を反映し、翌年に削減するかを判定
+ * @param settings 支出の柔軟な調整
+ * @param state 状態（更新される）
+ * @param portfolioReturn 当年の運用リターン（小数）
+ * @param withdrawalRate 当年の取り崩し率（%、年初の金融資産に対する取り崩し額の割合）
+ */
+export function updateFlexibleSpendingState(
+  settings: FlexibleSpendingSettings,
+  state: FlexibleSpendingState,
+  portfolioReturn: number,
+  withdrawalRate: number
+): void {
+  state.returnIndex *= 1 + portfolioReturn;
+  state.peakReturnIndex = Math.max(state.peakReturnIndex, state.returnIndex);
+
+  const drawdown = (1 - state.returnIndex / state.peakReturnIndex) * 100;
+  if (settings.drawdownThreshold !== undefined && drawdown >= settings.drawdownThreshold && state.recoveryTarget === null) {
+    state.recoveryTarget = state.peakReturnIndex;
+  }
+  if (state.recoveryTarget !== null && state.returnIndex >= state.recoveryTarget) {
+    state.recoveryTarget = null;
+  }
+
+  const isHighWithdrawalRate = settings.withdrawalRateThreshold !== undefined && withdrawalRate > settings.withdrawalRateThreshold;
+  state.isCutting = state.recoveryTarget !== null || isHighWithdrawalRate;
+}
+
+/**
+ * 年齢に応じた裁量的な支出の月額（現在価値、月間支出額を上限とする）
+ * @param segments 支出区間
+ * @param age 年齢
+ */
+export function getDiscretionaryExpensesForAge(segments: ExpenseSegment[], age: number): number {
+  const segment = segments.find(s => age >= s.startAge && age <= s.endAge);
+  if (!segment) return 0;
+  return Math.min(segment.discretionaryExpenses ?? 0, segment.monthlyExpenses);
+}
+
+/**
+ * 裁量的な支出の削減額（正数）
+ * @param settings 支出の柔軟な調整
+ * @param discretionaryExpenses 裁量的な支出（名目額）
+ */
+export function calculateSpendingCut(settings: FlexibleSpendingSettings, discretionaryExpenses: number): number {
+  return discretionaryExpenses * Math.max(0, Math.min(100, settings.cutRate)) / 100;
+}
@@ -0,0 +1,35 @@
+import { FireCalculationInput, FireCalculator, YearlyDetailData } from './fire-calculator';
+import { runSuccessProbabilitySimulation } from './goal-seek';
+import { createInflationIndex } from './inflation';
+import { FlexibleSpendingAnalysis } from './types';
+
+/**
+ * 支出の柔軟な調整の効果を分析
+ * 年次計算で削減した年数・削減額と、モンテカルロシミュレーションで調整を行う場合・行わない場合の成功確率を集計する
+ * @param input 計算入力
+ * @param yearlyDetails 年次詳細データ（未指定の場合は計算する）
+ * @returns 分析結果（支出の柔軟な調整を設定していない場合はnull）
+ */
+export function analyzeFlexibleSpending(
+  input: FireCalculationInput,
+  yearlyDetails: YearlyDetailData[] = FireCalculator.calculateYearlyDetails(input)
+): FlexibleSpendingAnalysis | null {
+  if (!input.flexibleSpending) return null;
+
+  // 削減額は現在価値に換算して集計
+  const inflation = createInflationIndex(input);
+  const realCuts = yearlyDetails
+    .map((detail, yearOffset) => detail.spendingCut / inflation.factor(yearOffset))
+    .filter(cut => cut > 0);
+
+  const result = runSuccessProbabilitySimulation(input);
+
+  return {
+    cutYears: realCuts.length,
+    totalCut: realCuts.reduce((sum, cut) => sum + cut, 0),
+    maxCut: Math.max(0, ...realCuts),
+    successProbability: result?.successProbability ?? 0,
+    successProbabilityWithoutCuts: result?.successProbabilityWithoutCuts ?? result?.successProbability ?? 0,
+    averageCutYears: result?.averageCutYears ?? 0,
+  };
+}
@@ -0,0 +1,245 @@
+import { FireCalculationInput, FireCalculationResult, FireCalculator } from './fire-calculator';
+import { MonteCarloSimulator } from './monte-carlo';
+import { calculateTotalAssets } from './asset-calculator';
+import { getInflationFactor } from './inflation';
+import { scaleExpenseSegment } from './expense-category';
+import { GoalSeekSettings, GoalSeekTargetType, GoalSeekVariable, MonteCarloResult, SpecialIncome } from './types';
+
+/**
+ * 逆算（ゴールシーク）
+ *
+ * 目標（FIRE達成年齢・想定寿命時点の資産・成功確率）を固定し、選んだ1つの変数を二分探索で求める。
+ * 月間支出は多いほど、年収・追加の積立・期待リターンは少ないほど目標を達成しにくいものとして、
+ * 月間支出は達成できる最大値、それ以外は達成に必要な最小値を求める。
+ */
+
+// 目標の表示名
+export const GOAL_SEEK_TARGET_LABELS: Record<GoalSeekTargetType, string> = {
+  'fire-age': 'FIRE達成年齢',
+  'terminal-wealth': '想定寿命時点の資産',
+  'success-probability': '成功確率',
+};
+
+// 求める変数の表示名
+export const GOAL_SEEK_VARIABLE_LABELS: Record<GoalSeekVariable, string> = {
+  'monthly-expenses': '月間支出',
+  'salary': '年収',
+  'extra-savings': '追加の積立（月額）',
+  'expected-return': '期待リターン',
+};
+
+// 追加の積立として計上する臨時収入の名前
+const EXTRA_SAVINGS_NAME = '追加の積立';
+
+// 成功確率を求めるモンテカルロシミュレーションの設定（二分探索で結果がぶれないようシードを固定）
+const SUCCESS_PROBABILITY_SIMULATIONS = 200;
+const SUCCESS_PROBABILITY_RETURN_VOLATILITY = 15;
+const SUCCESS_PROBABILITY_INFLATION_VOLATILITY = 1;
+const SUCCESS_PROBABILITY_SEED = 1;
+
+// 期待リターンが未設定の銘柄の利回り（%）
+const DEFAULT_EXPECTED_RETURN = 5;
+
+// 二分探索の最大反復回数
+const MAX_ITERATIONS = 40;
+
+// 変数ごとの探索範囲と精度
+interface SearchRange {
+  min: number;
+  max: number;
+  precision: number; // 探索を打ち切る幅（結果もこの単位に丸める）
+  higherIsBetter: boolean; // 値が大きいほど目標を達成しやすいか
+}
+
+export interface GoalSeekResult {
+  value: number; // 解（月間支出・追加の積立は円/月、年収は円/年、期待リターンは%）
+  input: FireCalculationInput; // 解を反映した計算入力
+  result: FireCalculationResult; // 解を反映したFIRE計算結果
+}
+
+/**
+ * 月間支出を求める支出区間のIDを取得（未指定の場合は現在の年齢の区間）
+ */
+function getTargetExpenseSegmentId(input: FireCalculationInput, settings: GoalSeekSettings): string | undefined {
+  if (settings.expenseSegmentId) return settings.expenseSegmentId;
+  const currentSegment = input.expenseSegments.find(
+    s => input.currentAge >= s.startAge && input.currentAge < s.endAge
+  );
+  return (currentSegment ?? input.expenseSegments[0])?.id;
+}
+
+/**
+ * 追加の積立を行う最後の年齢
+ * FIRE達成年齢を目標にする場合はその年齢、それ以外は本人の給与プランの最も遅い退職年齢
+ */
+function getExtraSavingsEndAge(input: FireCalculationInput, settings: GoalSeekSettings): number {
+  if (settings.targetType === 'fire-age') return settings.targetValue;
+  return Math.max(input.currentAge - 1, ...input.salaryPlans.map(plan => plan.endAge));
+}
+
+/**
+ * 変数の探索範囲を取得
+ */
+function getSearchRange(input: FireCalculationInput, settings: GoalSeekSettings): SearchRange {
+  switch (settings.variable) {
+    case 'monthly-expenses': {
+      const segmentId = getTargetExpenseSegmentId(input, settings);
+      const current = input.expenseSegments.find(s => s.id === segmentId)?.monthlyExpenses ?? 0;
+      return { min: 0, max: Math.max(current * 5, 1000000), precision: 1000, higherIsBetter: false };
+    }
+    case 'salary': {
+      const planId = settings.salaryPlanId ?? input.salaryPlans[0]?.id;
+      const current = input.salaryPlans.find(plan => plan.id === planId)?.annualAmount ?? 0;
+      return { min: 0, max: Math.max(current * 5, 50000000), precision: 10000, higherIsBetter: true };
+    }
+    case 'extra-savings':
+      return { min: 0, max: 1000000, precision: 1000, higherIsBetter: true };
+    case 'expected-return':
+      return { min: -5, max: 20, precision: 0.01, higherIsBetter: true };
+  }
+}
+
+/**
+ * 変数の値を計算入力に反映
+ */
+function applyVariable(input: FireCalculationInput, settings: GoalSeekSettings, value: number): FireCalculationInput {
+  switch (settings.variable) {
+    case 'monthly-expenses': {
+      const segmentId = getTargetExpenseSegmentId(input, settings);
+      return {
+        ...input,
+        expenseSegments: input.expenseSegments.map(segment =>
+          segment.id !== segmentId
+            ? segment
+            : segment.monthlyExpenses > 0
+              // 内訳は現在の構成比のまま変更
+              ? scaleExpenseSegment(segment, value / segment.monthlyExpenses)
+              : { ...segment, monthlyExpenses: value, components: undefined, discretionaryExpenses: undefined }
+        ),
+      };
+    }
+    case 'salary': {
+      const planId = settings.salaryPlanId ?? input.salaryPlans[0]?.id;
+      return {
+        ...input,
+        salaryPlans: input.salaryPlans.map(plan => plan.id === planId ? { ...plan, annualAmount: value } : plan),
+      };
+    }
+    case 'extra-savings': {
+      // 退職するまで毎年、積立額（現在価値）を臨時収入として計上
+      const extraSavings: SpecialIncome[] = [];
+      for (let age = input.currentAge; age <= getExtraSavingsEndAge(input, settings); age++) {
+        extraSavings.push({ id: `goal-seek-extra-savings-${age}`, name: EXTRA_SAVINGS_NAME, amount: value * 12, targetAge: age });
+      }
+      return { ...input, specialIncomes: [...input.specialIncomes, ...extraSavings] };
+    }
+    case 'expected-return':
+      return {
+        ...input,
+        assetHoldings: input.assetHoldings.map(holding => ({ ...holding, expectedReturn: value })),
+      };
+  }
+}
+
+/**
+ * 成功確率を求めるモンテカルロシミュレーションを実行（シードを固定し、同じ入力では同じ結果を返す）
+ * @param input 計算入力
+ * @param extraMonthlySavings 追加の積立（月額）
+ * @returns 最初のパーセンタイルの結果（成功確率はパーセンタイルによらず同じ）
+ */
+export function runSuccessProbabilitySimulation(input: FireCalculationInput, extraMonthlySavings: number = 0): MonteCarloResult | undefined {
+  // 期待リターンは銘柄の評価額で加重平均
+  const holdingValues = input.assetHoldings.map(holding => calculateTotalAssets([holding], input.exchangeRate));
+  const totalValue = holdingValues.reduce((sum, value) => sum + value, 0);
+  const expectedAnnualReturn = totalValue > 0
+    ? input.assetHoldings.reduce((sum, holding, i) =>
+        sum + (holding.expectedReturn ?? DEFAULT_EXPECTED_RETURN) * holdingValues[i], 0) / totalValue
+    : 0;
+  const retirementAge = input.salaryPlans.length > 0
+    ? Math.max(...input.salaryPlans.map(plan => plan.endAge))
+    : undefined;
+
+  const [result] = MonteCarloSimulator.runSimulation(input, {
+    simulations: SUCCESS_PROBABILITY_SIMULATIONS,
+    returnVolatility: SUCCESS_PROBABILITY_RETURN_VOLATILITY,
+    inflationVolatility: SUCCESS_PROBABILITY_INFLATION_VOLATILITY,
+    sequenceOfReturnsRisk: true,
+    expectedAnnualReturn,
+    retirementAge,
+    additionalMonthlySavings: extraMonthlySavings,
+    seed: SUCCESS_PROBABILITY_SEED,
+  });
+  return result;
+}
+
+/**
+ * 計算入力が目標を達成しているかどうか
+ * @param input 変数の値を反映した計算入力
+ * @param settings 逆算の設定
+ * @param extraMonthlySavings 追加の積立（月額、成功確率の判定に使用）
+ */
+function isGoalAchieved(input: FireCalculationInput, settings: GoalSeekSettings, extraMonthlySavings: number): boolean {
+  switch (settings.targetType) {
+    case 'fire-age':
+      return FireCalculator.canRetireAt(input, settings.targetValue);
+    case 'terminal-wealth': {
+      const yearlyDetails = FireCalculator.calculateYearlyDetails(input);
+      const finalAssets = yearlyDetails[yearlyDetails.length - 1]?.totalAssets ?? 0;
+      const inflationFactor = getInflationFactor(input, yearlyDetails.length - 1);
+      return finalAssets / inflationFactor >= settings.targetValue;
+    }
+    case 'success-probability': {
+      const result = runSuccessProbabilitySimulation(input, extraMonthlySavings);
+      return (result?.successProbability ?? 0) >= settings.targetValue;
+    }
+  }
+}
+
+/**
+ * 目標を達成する変数の値を求める
+ * @param input 計算入力
+ * @param settings 逆算の設定
+ * @returns 解と、解を反映した計算入力・FIRE計算結果（探索範囲内で目標を達成できない場合はnull）
+ */
+export function solveGoal(input: FireCalculationInput, settings: GoalSeekSettings): GoalSeekResult | null {
+  const range = getSearchRange(input, settings);
+  const achieves = (value: number) => isGoalAchieved(
+    applyVariable(input, settings, value),
+    settings,
+    settings.variable === 'extra-savings' ? value : 0
+  );
+
+  // 達成しやすい側の端で達成できなければ解なし
+  const bestValue = range.higherIsBetter ? range.max : range.min;
+  const worstValue = range.higherIsBetter ? range.min : range.max;
+  if (!achieves(bestValue)) return null;
+
+  // 達成できる値（good）と達成できない値（bad）の区間を狭める
+  let good = bestValue;
+  let bad = worstValue;
+  if (achieves(worstValue)) {
+    good = worstValue;
+  } else {
+    for (let i = 0; i < MAX_ITERATIONS && Math.abs(good - bad) > range.precision; i++) {
+      const mid = (good + bad) / 2;
+      if (achieves(mid)) {
+        good = mid;
+      } else {
+        bad = mid;
+      }
+    }
+  }
+
+  // 達成できる側に精度の単位で丸める
+  const rounded = range.higherIsBetter
+    ? Math.ceil(good / range.precision) * range.precision
+    : Math.floor(good / range.precision) * range.precision;
+  const value = Math.round(rounded * 100) / 100;
+  const solvedInput = applyVariable(input, settings, value);
+
+  return {
+    value,
+    input: solvedInput,
+    result: FireCalculator.calculateFire(solvedInput),
+  };
+}
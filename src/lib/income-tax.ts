@@ -0,0 +1,308 @@
+/**
+ * 給与所得に対する税金・社会保険料の計算
+ * 金額は円単位（年額）
+ *
+ * 税制は2025年分（令和7年分）を基準とした概算。
+ * 標準報酬月額の等級・賞与の上限・各種控除（配偶者控除、扶養控除等）は考慮しない。
+ */
+
+// 健康保険料率（協会けんぽ全国平均の被保険者負担分）
+const HEALTH_INSURANCE_RATE = 0.05;
+
+// 介護保険料率（40歳〜64歳の被保険者負担分）
+const NURSING_CARE_INSURANCE_RATE = 0.0080;
+const NURSING_CARE_START_AGE = 40;
+const NURSING_CARE_END_AGE = 64;
+
+// 健康保険の標準報酬月額の上限（円）
+const HEALTH_INSURANCE_MAX_MONTHLY = 1390000;
+
+// 任意継続被保険者の標準報酬月額の上限（協会けんぽ、円）
+const VOLUNTARY_CONTINUATION_MAX_MONTHLY = 320000;
+
+// 厚生年金保険料率（被保険者負担分）
+const PENSION_INSURANCE_RATE = 0.0915;
+
+// 厚生年金の標準報酬月額の上限（円）
+const PENSION_INSURANCE_MAX_MONTHLY = 650000;
+
+// 雇用保険料率（一般の事業、労働者負担分）
+const EMPLOYMENT_INSURANCE_RATE = 0.0055;
+
+// 復興特別所得税率
+const RECONSTRUCTION_TAX_RATE = 0.021;
+
+// 住民税の所得割税率（市町村民税6% + 道府県民税4%）
+const RESIDENT_TAX_RATE = 0.10;
+
+// 住民税の均等割（森林環境税を含む）
+const RESIDENT_TAX_PER_CAPITA = 5000;
+
+// 住民税の基礎控除
+const RESIDENT_TAX_BASIC_DEDUCTION = 430000;
+
+// 住民税の調整控除（人的控除差に基づく概算値）
+const RESIDENT_TAX_ADJUSTMENT_CREDIT = 2500;
+
+// 住民税の非課税限度額（単身者の合計所得金額、これ以下は均等割・所得割とも非課税）
+const RESIDENT_TAX_NON_TAXABLE_LIMIT = 450000;
+
+// 所得税の速算表（課税所得の上限、税率、控除額）
+const INCOME_TAX_BRACKETS = [
+  { limit: 1950000, rate: 0.05, deduction: 0 },
+  { limit: 3300000, rate: 0.10, deduction: 97500 },
+  { limit: 6950000, rate: 0.20, deduction: 427500 },
+  { limit: 9000000, rate: 0.23, deduction: 636000 },
+  { limit: 18000000, rate: 0.33, deduction: 1536000 },
+  { limit: 40000000, rate: 0.40, deduction: 2796000 },
+  { limit: Infinity, rate: 0.45, deduction: 4796000 },
+];
+
+// 所得税の基礎控除（合計所得金額の上限、控除額）
+const INCOME_TAX_BASIC_DEDUCTIONS = [
+  { limit: 1320000, deduction: 950000 },
+  { limit: 3360000, deduction: 880000 },
+  { limit: 4890000, deduction: 680000 },
+  { limit: 6550000, deduction: 630000 },
+  { limit: 23500000, deduction: 580000 },
+  { limit: 24000000, deduction: 480000 },
+  { limit: 24500000, deduction: 320000 },
+  { limit: 25000000, deduction: 160000 },
+  { limit: Infinity, deduction: 0 },
+];
+
+/**
+ * 社会保険料の内訳
+ */
+export interface SocialInsurancePremiums {
+  healthInsurance: number; // 健康保険料（介護保険料を含む）
+  pensionInsurance: number; // 厚生年金保険料
+  employmentInsurance: number; // 雇用保険料
+}
+
+/**
+ * 給与から差し引かれる税金・社会保険料の内訳
+ */
+export interface SalaryDeductions extends SocialInsurancePremiums {
+  incomeTax: number; // 所得税（復興特別所得税を含む）
+  residentTax: number; // 住民税
+}
+
+/**
+ * 給与所得控除額を計算
+ * @param grossSalary 給与収入（額面）
+ * @returns 給与所得控除額
+ */
+export function calculateEmploymentIncomeDeduction(grossSalary: number): number {
+  if (grossSalary <= 1900000) return Math.min(grossSalary, 650000);
+  if (grossSalary <= 3600000) return grossSalary * 0.3 + 80000;
+  if (grossSalary <= 6600000) return grossSalary * 0.2 + 440000;
+  if (grossSalary <= 8500000) return grossSalary * 0.1 + 1100000;
+  return 1950000;
+}
+
+/**
+ * 給与所得（給与収入 - 給与所得控除）を計算
+ * @param grossSalary 給与収入（額面）
+ * @returns 給与所得
+ */
+export function calculateEmploymentIncome(grossSalary: number): number {
+  return Math.max(0, grossSalary - calculateEmploymentIncomeDeduction(grossSalary));
+}
+
+/**
+ * 社会保険料（被保険者負担分）を計算
+ * @param grossSalary 給与収入（額面）
+ * @param age 被保険者の年齢（介護保険料の判定に使用）
+ * @returns 社会保険料の内訳
+ */
+export function calculateSocialInsurance(
+  grossSalary: number,
+  age?: number
+): SocialInsurancePremiums {
+  if (grossSalary <= 0) {
+    return { healthInsurance: 0, pensionInsurance: 0, employmentInsurance: 0 };
+  }
+
+  const monthlySalary = grossSalary / 12;
+
+  // 健康保険（40歳〜64歳は介護保険料を上乗せ）
+  const isNursingCareTarget =
+    age !== undefined && age >= NURSING_CARE_START_AGE && age <= NURSING_CARE_END_AGE;
+  const healthRate = HEALTH_INSURANCE_RATE + (isNursingCareTarget ? NURSING_CARE_INSURANCE_RATE : 0);
+  const healthInsurance = Math.min(monthlySalary, HEALTH_INSURANCE_MAX_MONTHLY) * healthRate * 12;
+
+  // 厚生年金
+  const pensionInsurance = Math.min(monthlySalary, PENSION_INSURANCE_MAX_MONTHLY) * PENSION_INSURANCE_RATE * 12;
+
+  // 雇用保険（上限なし）
+  const employmentInsurance = grossSalary * EMPLOYMENT_INSURANCE_RATE;
+
+  return { healthInsurance, pensionInsurance, employmentInsurance };
+}
+
+/**
+ * 任意継続被保険者の健康保険料（年額）を計算
+ * 退職時の標準報酬月額（上限あり）を基に、事業主負担分を含めた全額を本人が負担する
+ * @param lastGrossSalary 退職前の給与収入（額面、年額）
+ * @param age 被保険者の年齢（介護保険料の判定に使用）
+ * @returns 健康保険料（介護保険料を含む）
+ */
+export function calculateVoluntaryContinuationPremium(lastGrossSalary: number, age: number): number {
+  if (lastGrossSalary <= 0) return 0;
+
+  const monthlySalary = Math.min(lastGrossSalary / 12, VOLUNTARY_CONTINUATION_MAX_MONTHLY);
+  const isNursingCareTarget = age >= NURSING_CARE_START_AGE && age <= NURSING_CARE_END_AGE;
+  const healthRate = HEALTH_INSURANCE_RATE + (isNursingCareTarget ? NURSING_CARE_INSURANCE_RATE : 0);
+  return monthlySalary * healthRate * 2 * 12;
+}
+
+/**
+ * 公的年金等控除額を計算（公的年金等以外の合計所得金額が1,000万円以下の場合）
+ * @param pensionAmount 公的年金等の収入金額
+ * @param age 受給者の年齢
+ * @returns 公的年金等控除額
+ */
+export function calculatePublicPensionDeduction(pensionAmount: number, age: number): number {
+  const minimumDeduction = age >= 65 ? 1100000 : 600000;
+  let deduction: number;
+  if (pensionAmount <= 4100000) deduction = pensionAmount * 0.25 + 275000;
+  else if (pensionAmount <= 7700000) deduction = pensionAmount * 0.15 + 685000;
+  else if (pensionAmount <= 10000000) deduction = pensionAmount * 0.05 + 1455000;
+  else deduction = 1955000;
+  return Math.min(pensionAmount, Math.max(minimumDeduction, deduction));
+}
+
+/**
+ * 公的年金等に係る雑所得（収入 - 公的年金等控除）を計算
+ * @param pensionAmount 公的年金等の収入金額
+ * @param age 受給者の年齢
+ * @returns 雑所得
+ */
+export function calculatePublicPensionIncome(pensionAmount: number, age: number): number {
+  return Math.max(0, pensionAmount - calculatePublicPensionDeduction(pensionAmount, age));
+}
+
+/**
+ * 社会保険料の合計を計算
+ */
+function sumSocialInsurance(premiums: SocialInsurancePremiums): number {
+  return premiums.healthInsurance + premiums.pensionInsurance + premiums.employmentInsurance;
+}
+
+/**
+ * 所得税（復興特別所得税を含む）を計算
+ * @param grossSalary 給与収入（額面）
+ * @param socialInsurance 社会保険料の合計（社会保険料控除）
+ * @returns 所得税額
+ */
+export function calculateIncomeTax(grossSalary: number, socialInsurance: number): number {
+  const income = calculateEmploymentIncome(grossSalary);
+  const basicDeduction = INCOME_TAX_BASIC_DEDUCTIONS.find(d => income <= d.limit)?.deduction ?? 0;
+
+  // 課税所得（1,000円未満切り捨て）
+  const taxableIncome = Math.floor(Math.max(0, income - socialInsurance - basicDeduction) / 1000) * 1000;
+  return calculateSeparateIncomeTax(taxableIncome);
+}
+
+/**
+ * 課税所得金額に対する所得税（復興特別所得税を含む）を速算表で計算
+ * 退職所得など分離課税の所得にも使用する
+ * @param taxableIncome 課税所得金額
+ * @returns 所得税額
+ */
+export function calculateSeparateIncomeTax(taxableIncome: number): number {
+  if (taxableIncome <= 0) return 0;
+
+  const bracket = INCOME_TAX_BRACKETS.find(b => taxableIncome <= b.limit)!;
+  const baseTax = taxableIncome * bracket.rate - bracket.deduction;
+
+  return Math.max(0, baseTax * (1 + RECONSTRUCTION_TAX_RATE));
+}
+
+/**
+ * 住民税を計算
+ * 住民税は前年の所得に対して翌年課税されるため、戻り値は翌年に支払う金額となる
+ * @param grossSalary 給与収入（額面）
+ * @param socialInsurance 社会保険料の合計（社会保険料控除）
+ * @returns 翌年に支払う住民税額
+ */
+export function calculateResidentTax(grossSalary: number, socialInsurance: number): number {
+  const income = calculateEmploymentIncome(grossSalary);
+  if (income <= RESIDENT_TAX_NON_TAXABLE_LIMIT) return 0;
+
+  const taxableIncome = Math.floor(Math.max(0, income - socialInsurance - RESIDENT_TAX_BASIC_DEDUCTION) / 1000) * 1000;
+  const incomeLevy = Math.max(0, taxableIncome * RESIDENT_TAX_RATE - RESIDENT_TAX_ADJUSTMENT_CREDIT);
+
+  return incomeLevy + RESIDENT_TAX_PER_CAPITA;
+}
+
+/**
+ * 額面給与から当年の所得税・社会保険料と翌年の住民税を計算
+ * 社会保険料は勤務先（給与）ごとに計算し、所得税・住民税は給与収入を合算して計算する
+ * @param grossSalaries 勤務先ごとの給与収入（額面）
+ * @param age 被保険者の年齢
+ * @returns 当年の控除額（residentTaxは翌年に支払う金額）
+ */
+export function calculateSalaryDeductions(grossSalaries: number[], age?: number): SalaryDeductions {
+  const premiums: SocialInsurancePremiums = { healthInsurance: 0, pensionInsurance: 0, employmentInsurance: 0 };
+  grossSalaries.forEach(grossSalary => {
+    const planPremiums = calculateSocialInsurance(grossSalary, age);
+    premiums.healthInsurance += planPremiums.healthInsurance;
+    premiums.pensionInsurance += planPremiums.pensionInsurance;
+    premiums.employmentInsurance += planPremiums.employmentInsurance;
+  });
+
+  const totalGrossSalary = grossSalaries.reduce((sum, val) => sum + val, 0);
+  const socialInsurance = sumSocialInsurance(premiums);
+
+  return {
+    ...premiums,
+    incomeTax: calculateIncomeTax(totalGrossSalary, socialInsurance),
+    residentTax: calculateResidentTax(totalGrossSalary, socialInsurance),
+  };
+}
+
+/**
+ * 額面給与から手取り額を概算
+ * 住民税は前年も同額の給与があったものとして差し引く
+ * @param grossSalary 給与収入（額面）
+ * @param age 被保険者の年齢
+ * @returns 手取り額
+ */
+export function estimateTakeHomePay(grossSalary: number, age?: number): number {
+  const deductions = calculateSalaryDeductions([grossSalary], age);
+  const totalDeductions =
+    sumSocialInsurance(deductions) + deductions.incomeTax + deductions.residentTax;
+  return Math.max(0, grossSalary - totalDeductions);
+}
+
+// 手取り額から額面給与を逆算する二分探索の最大反復回数
+const GROSS_SALARY_SEARCH_ITERATIONS = 40;
+
+/**
+ * 手取り額から額面給与を概算（estimateTakeHomePay の逆算）
+ * @param takeHomePay 手取り額
+ * @param age 被保険者の年齢
+ * @returns 給与収入（額面）
+ */
+export function estimateGrossSalary(takeHomePay: number, age?: number): number {
+  if (takeHomePay <= 0) return 0;
+
+  // 手取り額は額面に対して増加するため、手取り額を下回る額面と上回る額面の間を二分探索
+  let low = takeHomePay;
+  let high = takeHomePay * 2;
+  for (let i = 0; i < GROSS_SALARY_SEARCH_ITERATIONS && estimateTakeHomePay(high, age) < takeHomePay; i++) {
+    low = high;
+    high *= 2;
+  }
+  for (let i = 0; i < GROSS_SALARY_SEARCH_ITERATIONS && high - low > 1; i++) {
+    const mid = (low + high) / 2;
+    if (estimateTakeHomePay(mid, age) < takeHomePay) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return high;
+}
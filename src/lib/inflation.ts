@@ -0,0 +1,97 @@
+import { FireCalculationInput } from './fire-calculator';
+import { InflationSegment } from './types';
+
+// 経過年数ごとのインフレ率と累積の物価上昇率
+export interface InflationIndex {
+  rateAt: (yearIndex: number) => number; // 経過年数yearIndexから1年間のインフレ率（小数）
+  factor: (years: number) => number; // 現在から経過年数yearsまでの累積の物価上昇率（月次計算では端数を含む）
+}
+
+/**
+ * 一定のインフレ率の物価指数を作成
+ * @param rate インフレ率（小数）
+ */
+export function createConstantInflationIndex(rate: number): InflationIndex {
+  return {
+    rateAt: () => rate,
+    factor: years => Math.pow(1 + rate, Math.max(0, years)),
+  };
+}
+
+/**
+ * 経過年数ごとの上昇率を複利で累積
+ * @param rateAt 経過年数yearIndexから1年間の上昇率（小数）
+ * @param years 経過年数（端数は最後の年の上昇率で按分）
+ */
+export function compoundRates(rateAt: (yearIndex: number) => number, years: number): number {
+  const elapsed = Math.max(0, years);
+  const wholeYears = Math.floor(elapsed);
+  let factor = 1;
+  for (let yearIndex = 0; yearIndex < wholeYears; yearIndex++) {
+    factor *= 1 + rateAt(yearIndex);
+  }
+  return factor * Math.pow(1 + rateAt(wholeYears), elapsed - wholeYears);
+}
+
+/**
+ * 年齢に応じたインフレ率（パーセント）を取得
+ * インフレ率の推移が設定されていない年齢は inflationRate を使う
+ * @param segments インフレ率の推移
+ * @param inflationRate 既定のインフレ率（パーセント）
+ * @param age 本人の年齢
+ */
+export function getInflationRateForAge(segments: InflationSegment[] | undefined, inflationRate: number, age: number): number {
+  const segment = segments?.find(s => age >= s.startAge && age <= s.endAge);
+  return segment ? segment.rate : inflationRate;
+}
+
+/**
+ * 計算入力の物価指数を作成（インフレ率の推移を設定した場合は年齢ごとのインフレ率を複利で累積）
+ * @param input 計算入力
+ * @param differential インフレ率への上乗せ（%ポイント、費目別のインフレ率に使用）
+ */
+export function createInflationIndex(input: FireCalculationInput, differential: number = 0): InflationIndex {
+  if (!input.inflationSchedule || input.inflationSchedule.length === 0) {
+    return createConstantInflationIndex((input.inflationRate + differential) / 100);
+  }
+
+  const schedule = input.inflationSchedule;
+  const rateAt = (yearIndex: number) =>
+    (getInflationRateForAge(schedule, input.inflationRate, input.currentAge + yearIndex) + differential) / 100;
+
+  // 経過年数ごとの累積値（必要になった年数まで順に計算）
+  const cumulative = [1];
+  const factor = (years: number) => {
+    const elapsed = Math.max(0, years);
+    const wholeYears = Math.floor(elapsed);
+    while (cumulative.length <= wholeYears) {
+      const yearIndex = cumulative.length - 1;
+      cumulative.push(cumulative[yearIndex] * (1 + rateAt(yearIndex)));
+    }
+    return cumulative[wholeYears] * Math.pow(1 + rateAt(wholeYears), elapsed - wholeYears);
+  };
+
+  return { rateAt, factor };
+}
+
+/**
+ * 現在から指定年数後までの物価の累積上昇率（名目額 ÷ 係数 = 現在価値）
+ * @param input 計算入力（インフレ率・インフレ率の推移）
+ * @param yearOffset 現在からの経過年数
+ */
+export function getInflationFactor(input: FireCalculationInput, yearOffset: number): number {
+  return createInflationIndex(input).factor(yearOffset);
+}
+
+/**
+ * インフレ率の推移を一律に変化させる（既定のインフレ率も同じだけ変化させる）
+ * @param input 計算入力
+ * @param change 変化幅（%ポイント）
+ */
+export function shiftInflation(input: FireCalculationInput, change: number): FireCalculationInput {
+  return {
+    ...input,
+    inflationRate: input.inflationRate + change,
+    inflationSchedule: input.inflationSchedule?.map(segment => ({ ...segment, rate: segment.rate + change })),
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * 相続税の概算
+ *
+ * 課税遺産総額（遺産 − 基礎控除）を法定相続人が均等に相続したものとして各人の税額を速算表で求め、合計する。
+ * 世帯の最後の一人が亡くなった時点の遺産を想定し、配偶者の税額軽減・生命保険金等の非課税枠・
+ * 各種の税額控除は考慮しない。
+ * 金額は円単位
+ */
+
+// 基礎控除の定額部分
+const BASIC_DEDUCTION_BASE = 30000000;
+
+// 基礎控除の法定相続人1人あたりの加算額
+const BASIC_DEDUCTION_PER_HEIR = 6000000;
+
+// 相続税の速算表（法定相続分に応ずる取得金額の上限、税率、控除額）
+const INHERITANCE_TAX_BRACKETS: Array<{ limit: number; rate: number; deduction: number }> = [
+  { limit: 10000000, rate: 0.10, deduction: 0 },
+  { limit: 30000000, rate: 0.15, deduction: 500000 },
+  { limit: 50000000, rate: 0.20, deduction: 2000000 },
+  { limit: 100000000, rate: 0.30, deduction: 7000000 },
+  { limit: 200000000, rate: 0.40, deduction: 17000000 },
+  { limit: 300000000, rate: 0.45, deduction: 27000000 },
+  { limit: 600000000, rate: 0.50, deduction: 42000000 },
+  { limit: Infinity, rate: 0.55, deduction: 72000000 },
+];
+
+/**
+ * 相続税の基礎控除額を計算
+ * @param heirs 法定相続人の数
+ * @returns 基礎控除額
+ */
+export function calculateInheritanceBasicDeduction(heirs: number): number {
+  return BASIC_DEDUCTION_BASE + BASIC_DEDUCTION_PER_HEIR * Math.max(1, Math.floor(heirs));
+}
+
+/**
+ * 相続税の総額を概算
+ * @param estate 遺産の額
+ * @param heirs 法定相続人の数（1人以上）
+ * @returns 相続税の総額（基礎控除以下の場合は0）
+ */
+export function estimateInheritanceTax(estate: number, heirs: number): number {
+  const heirCount = Math.max(1, Math.floor(heirs));
+  const taxableEstate = Math.max(0, estate - calculateInheritanceBasicDeduction(heirCount));
+  if (taxableEstate <= 0) return 0;
+
+  const share = taxableEstate / heirCount;
+  const bracket = INHERITANCE_TAX_BRACKETS.find(b => share <= b.limit) ?? INHERITANCE_TAX_BRACKETS[INHERITANCE_TAX_BRACKETS.length - 1];
+  return Math.max(0, share * bracket.rate - bracket.deduction) * heirCount;
+}
@@ -0,0 +1,213 @@
+import { AccountType, AssetHolding } from './types';
+
+/**
+ * 口座種別（新NISA・iDeCo・特定口座）ごとの制度ルール
+ * 金額は円単位
+ */
+
+// 譲渡益課税の税率（所得税15% + 復興特別所得税0.315% + 住民税5%）
+export const CAPITAL_GAINS_TAX_RATE = 0.20315;
+
+// iDeCoの受取開始年齢（これより前は取り崩し不可）
+export const IDECO_WITHDRAWAL_AGE = 60;
+
+// iDeCoの掛金を拠出できる上限年齢
+export const IDECO_CONTRIBUTION_END_AGE = 65;
+
+// 新NISAの年間投資枠
+const NISA_ANNUAL_LIMITS: Record<'nisa-tsumitate' | 'nisa-growth', number> = {
+  'nisa-tsumitate': 1200000, // つみたて投資枠: 年120万円
+  'nisa-growth': 2400000, // 成長投資枠: 年240万円
+};
+
+// 新NISAの非課税保有限度額（簿価ベース）
+const NISA_LIFETIME_LIMIT = 18000000; // 生涯1,800万円
+const NISA_GROWTH_LIFETIME_LIMIT = 12000000; // うち成長投資枠は1,200万円
+
+/**
+ * 新NISAの当年の投資枠使用額（口座種別ごと）
+ */
+export type NisaAnnualUsage = Record<'nisa-tsumitate' | 'nisa-growth', number>;
+
+/**
+ * 当年の投資枠使用額を初期化
+ */
+export function createNisaAnnualUsage(): NisaAnnualUsage {
+  return { 'nisa-tsumitate': 0, 'nisa-growth': 0 };
+}
+
+/**
+ * 計算上の口座種別
+ * 'unspecified' は口座種別を導入する前に保存された、口座種別が未指定の銘柄（従来どおり課税しない）
+ */
+export type HoldingAccountType = AccountType | 'unspecified';
+
+/**
+ * 口座種別を取得（未指定の場合は'unspecified'）
+ */
+export function getAccountType(holding: AssetHolding): HoldingAccountType {
+  return holding.accountType ?? 'unspecified';
+}
+
+/**
+ * 税引後の期待年利回り（%）を取得
+ * 特定口座は運用益に譲渡益課税がかかるものとして、期待年利回りから税額分を差し引く
+ * @param holding 銘柄保有情報
+ * @param defaultReturn 期待年利回りが未設定の場合の利回り（%）
+ */
+export function getAfterTaxExpectedReturn(holding: AssetHolding, defaultReturn: number): number {
+  const expectedReturn = holding.expectedReturn ?? defaultReturn;
+  return getAccountType(holding) === 'taxable' && expectedReturn > 0
+    ? expectedReturn * (1 - CAPITAL_GAINS_TAX_RATE)
+    : expectedReturn;
+}
+
+/**
+ * 新NISA口座かどうか
+ */
+export function isNisaAccount(accountType: HoldingAccountType): accountType is 'nisa-tsumitate' | 'nisa-growth' {
+  return accountType === 'nisa-tsumitate' || accountType === 'nisa-growth';
+}
+
+/**
+ * 指定年齢で取り崩し可能かどうか（iDeCoは受取開始年齢までロック）
+ */
+export function isWithdrawable(holding: AssetHolding, age: number): boolean {
+  return getAccountType(holding) !== 'ideco' || age >= IDECO_WITHDRAWAL_AGE;
+}
+
+/**
+ * 評価額に占める含み益の割合を計算（総平均法）
+ * 特定口座以外（口座種別が未指定の銘柄を含む）は非課税のため0を返す
+ * @param accountType 口座種別
+ * @param balance 評価額
+ * @param costBasis 取得価額（総平均法による簿価）
+ * @returns 含み益の割合（0〜1）
+ */
+function calculateTaxableGainRatio(
+  accountType: HoldingAccountType,
+  balance: number,
+  costBasis: number
+): number {
+  if (accountType !== 'taxable' || balance <= 0) return 0;
+  return Math.max(0, 1 - costBasis / balance);
+}
+
+/**
+ * 売却時の譲渡益課税額を計算（総平均法）
+ * 売却した部分の取得価額は、簿価を売却割合で按分して求める
+ * @param accountType 口座種別
+ * @param saleAmount 売却額
+ * @param balance 売却前の評価額
+ * @param costBasis 売却前の取得価額
+ * @returns 譲渡益課税額
+ */
+export function calculateCapitalGainsTax(
+  accountType: HoldingAccountType,
+  saleAmount: number,
+  balance: number,
+  costBasis: number
+): number {
+  return saleAmount * calculateTaxableGainRatio(accountType, balance, costBasis) * CAPITAL_GAINS_TAX_RATE;
+}
+
+/**
+ * 税引後の手取り額を確保するために必要な売却額を計算（グロスアップ）
+ * @param accountType 口座種別
+ * @param netAmount 必要な税引後の手取り額
+ * @param balance 売却前の評価額
+ * @param costBasis 売却前の取得価額
+ * @returns 売却額（評価額が上限）
+ */
+export function calculateGrossSaleAmount(
+  accountType: HoldingAccountType,
+  netAmount: number,
+  balance: number,
+  costBasis: number
+): number {
+  const gainRatio = calculateTaxableGainRatio(accountType, balance, costBasis);
+  return Math.min(balance, netAmount / (1 - gainRatio * CAPITAL_GAINS_TAX_RATE));
+}
+
+/**
+ * 黒字分を各資産に配分する
+ *
+ * 配分比率に従って投資額を決め、新NISAの年間投資枠・生涯投資枠を超える分は
+ * 特定口座の資産に配分比率で振り替える。iDeCoは拠出額が別枠のため黒字分は配分しない。
+ * 振り替え先の特定口座がない場合、超過分は現金のまま残る。
+ *
+ * @param surplus 投資する黒字額
+ * @param holdings 銘柄保有情報
+ * @param ratios 各資産の配分比率（key: 資産ID）
+ * @param costBases 各資産の取得価額（key: 資産ID、NISA生涯枠の判定に使用）
+ * @param annualUsage 当年の投資枠使用額（同じ年に複数回投資する場合に共有し、配分した分だけ加算される）
+ * @returns 各資産への投資額（key: 資産ID）
+ */
+export function allocateSurplus(
+  surplus: number,
+  holdings: AssetHolding[],
+  ratios: { [key: string]: number },
+  costBases: { [key: string]: number },
+  annualUsage: NisaAnnualUsage = createNisaAnnualUsage()
+): { [key: string]: number } {
+  const allocations: { [key: string]: number } = {};
+
+  const eligibleHoldings = holdings.filter(
+    holding => getAccountType(holding) !== 'ideco' && (ratios[holding.id] ?? 0) > 0
+  );
+  const totalRatio = eligibleHoldings.reduce((sum, holding) => sum + ratios[holding.id], 0);
+  if (surplus <= 0 || totalRatio <= 0) return allocations;
+
+  // NISAの残り枠（年間枠は口座種別ごと、生涯枠は簿価ベース）
+  const annualRemaining: NisaAnnualUsage = {
+    'nisa-tsumitate': Math.max(0, NISA_ANNUAL_LIMITS['nisa-tsumitate'] - annualUsage['nisa-tsumitate']),
+    'nisa-growth': Math.max(0, NISA_ANNUAL_LIMITS['nisa-growth'] - annualUsage['nisa-growth']),
+  };
+  const nisaBookValue = holdings
+    .filter(holding => isNisaAccount(getAccountType(holding)))
+    .reduce((sum, holding) => sum + (costBases[holding.id] ?? 0), 0);
+  const growthBookValue = holdings
+    .filter(holding => getAccountType(holding) === 'nisa-growth')
+    .reduce((sum, holding) => sum + (costBases[holding.id] ?? 0), 0);
+  let lifetimeRemaining = Math.max(0, NISA_LIFETIME_LIMIT - nisaBookValue);
+  let growthLifetimeRemaining = Math.max(0, NISA_GROWTH_LIFETIME_LIMIT - growthBookValue);
+
+  // 配分比率で投資し、NISAの枠を超えた分を集計
+  let overflow = 0;
+  eligibleHoldings.forEach(holding => {
+    const accountType = getAccountType(holding);
+    const desired = surplus * ratios[holding.id] / totalRatio;
+
+    if (isNisaAccount(accountType)) {
+      let capacity = Math.min(annualRemaining[accountType], lifetimeRemaining);
+      if (accountType === 'nisa-growth') {
+        capacity = Math.min(capacity, growthLifetimeRemaining);
+      }
+      const amount = Math.min(desired, capacity);
+
+      annualRemaining[accountType] -= amount;
+      annualUsage[accountType] += amount;
+      lifetimeRemaining -= amount;
+      if (accountType === 'nisa-growth') {
+        growthLifetimeRemaining -= amount;
+      }
+      allocations[holding.id] = amount;
+      overflow += desired - amount;
+    } else {
+      allocations[holding.id] = desired;
+    }
+  });
+
+  // 枠を超えた分は特定口座（口座種別が未指定の銘柄を含む）の資産に配分比率で振り替え
+  if (overflow > 0) {
+    const taxableHoldings = eligibleHoldings.filter(holding => !isNisaAccount(getAccountType(holding)));
+    const taxableRatio = taxableHoldings.reduce((sum, holding) => sum + ratios[holding.id], 0);
+    if (taxableRatio > 0) {
+      taxableHoldings.forEach(holding => {
+        allocations[holding.id] += overflow * ratios[holding.id] / taxableRatio;
+      });
+    }
+  }
+
+  return allocations;
+}
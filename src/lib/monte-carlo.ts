@@ -1,18 +1,24 @@
-import { FireCalculationInput, YearlyProjection } from './fire-calculator';
-import { MonteCarloResult } from './types';
+import { FireCalculationInput, FireCalculator, YearlyProjection } from './fire-calculator';
+import { FlexibleSpendingSettings, MonteCarloResult } from './types';
 import { calculateTotalAssets, convertSalaryToJPY } from './asset-calculator';
+import { calculateSpendingCut, createFlexibleSpendingState, updateFlexibleSpendingState } from './flexible-spending-rule';
 
 export interface MonteCarloParameters {
   simulations: number; // シミュレーション回数
   returnVolatility: number; // リターンの変動率（標準偏差）
   inflationVolatility: number; // インフレ率の変動率
   sequenceOfReturnsRisk: boolean; // リターン順序リスク考慮
+  expectedAnnualReturn?: number; // 期待リターン（%、未指定の場合は0）
+  retirementAge?: number; // 退職年齢（この年齢まで積み立て、以降は取り崩す。未指定の場合は貯蓄がある限り積み立て）
+  additionalMonthlySavings?: number; // 給与以外からの毎月の積立額
+  seed?: number; // 乱数のシード（指定した場合は同じ結果を再現できる）
 }
 
 export interface MonteCarloSimulation {
   currentAge: number;
   currentAssets: number;
   monthlyExpenses: number;
+  discretionaryMonthlyExpenses: number; // 月間支出のうち裁量的な支出
   monthlySavings: number;
   expectedAnnualReturn: number;
   returnVolatility: number;
@@ -20,16 +26,35 @@ export interface MonteCarloSimulation {
   inflationVolatility: number;
   lifeExpectancy: number;
   simulations: number;
+  terminalWealthTarget: number; // 想定寿命時点に残す資産の目標額（名目額）
+  retirementAge?: number; // 退職年齢（この年齢まで積み立て、以降は取り崩す）
+  flexibleSpending?: FlexibleSpendingSettings; // 支出の柔軟な調整（未指定の場合は支出を調整しない）
+}
+
+/**
+ * シード付きの一様乱数生成器（mulberry32）
+ * @param seed 乱数のシード
+ * @returns 0以上1未満の乱数を返す関数
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
 }
 
 export class MonteCarloSimulator {
   /**
    * 正規分布に従う乱数を生成（Box-Muller変換）
    */
-  private static generateNormalRandom(mean: number, stdDev: number): number {
+  private static generateNormalRandom(mean: number, stdDev: number, random: () => number): number {
     let u = 0, v = 0;
-    while(u === 0) u = Math.random(); // 0を回避
-    while(v === 0) v = Math.random();
+    while(u === 0) u = random(); // 0を回避
+    while(v === 0) v = random();
     
     const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
     return z * stdDev + mean;
@@ -38,23 +63,27 @@ export class MonteCarloSimulator {
   /**
    * 単一シミュレーションの実行
    */
-  private static runSingleSimulation(params: MonteCarloSimulation): YearlyProjection[] {
+  private static runSingleSimulation(params: MonteCarloSimulation, random: () => number): YearlyProjection[] {
     const {
       currentAge,
       currentAssets,
       monthlyExpenses,
+      discretionaryMonthlyExpenses,
       monthlySavings,
       expectedAnnualReturn,
       returnVolatility,
       inflationRate,
       inflationVolatility,
-      lifeExpectancy
+      lifeExpectancy,
+      retirementAge,
+      flexibleSpending
     } = params;
 
     const projections: YearlyProjection[] = [];
     let assets = currentAssets;
     const annualExpenses = monthlyExpenses * 12;
     const annualSavings = monthlySavings * 12;
+    const flexibleSpendingState = createFlexibleSpendingState();
 
     for (let year = 0; year <= (lifeExpectancy - currentAge); year++) {
       const age = currentAge + year;
@@ -62,20 +91,33 @@ export class MonteCarloSimulator {
       // その年のリターン率（確率的）
       const yearlyReturn = this.generateNormalRandom(
         expectedAnnualReturn / 100,
-        returnVolatility / 100
+        returnVolatility / 100,
+        random
       );
       
       // その年のインフレ率（確率的）
       const yearlyInflation = this.generateNormalRandom(
         inflationRate / 100,
-        inflationVolatility / 100
+        inflationVolatility / 100,
+        random
       );
       
       // インフレ調整後の支出
-      const realAnnualExpenses = annualExpenses * Math.pow(1 + yearlyInflation, year);
+      const inflationFactor = Math.pow(1 + yearlyInflation, year);
+      let realAnnualExpenses = annualExpenses * inflationFactor;
+
+      // 貯蓄があれば（退職年齢を指定した場合は退職するまで）貯蓄フェーズ、なければ引き出しフェーズ
+      const isWorking = retirementAge === undefined || age <= retirementAge;
+      const isSaving = isWorking && monthlySavings > 0;
 
-      // 貯蓄があれば貯蓄フェーズ、なければ引き出しフェーズ
-      if (monthlySavings > 0) {
+      // 支出の柔軟な調整（引き出しフェーズで前年までの運用リターン・取り崩し率に応じて裁量的な支出を削減）
+      const spendingCut = flexibleSpending && flexibleSpendingState.isCutting && !isSaving
+        ? calculateSpendingCut(flexibleSpending, discretionaryMonthlyExpenses * 12 * inflationFactor)
+        : 0;
+      realAnnualExpenses -= spendingCut;
+
+      const assetsAtStart = assets;
+      if (isSaving) {
         // 貯蓄フェーズ: 資産成長 + 年間貯蓄
         assets = assets * (1 + yearlyReturn) + annualSavings;
       } else {
@@ -83,6 +125,12 @@ export class MonteCarloSimulator {
         assets = assets * (1 + yearlyReturn) - realAnnualExpenses;
       }
 
+      // 翌年の支出の柔軟な調整を判定
+      if (flexibleSpending) {
+        const withdrawalRate = !isSaving && assetsAtStart > 0 ? realAnnualExpenses / assetsAtStart * 100 : 0;
+        updateFlexibleSpendingState(flexibleSpending, flexibleSpendingState, yearlyReturn, withdrawalRate);
+      }
+
       // FIRE達成判定: 資産がその年の支出を賄えるかチェック
       const fireAchieved = assets >= realAnnualExpenses;
 
@@ -94,7 +142,8 @@ export class MonteCarloSimulator {
         realExpenses: realAnnualExpenses,
         netWorth: Math.max(0, assets),
         fireAchieved,
-        yearsToFire: fireAchieved ? year : 0
+        yearsToFire: fireAchieved ? year : 0,
+        spendingCut: flexibleSpending ? spendingCut : undefined,
       });
 
       // 資産が枯渇した場合は終了
@@ -117,43 +166,85 @@ export class MonteCarloSimulator {
       simulations,
       returnVolatility,
       inflationVolatility,
+      expectedAnnualReturn = 0,
+      retirementAge,
+      additionalMonthlySavings = 0,
+      seed,
     } = parameters;
 
-    // 現在年齢で有効な給与プランから合計年収を計算
-    const totalAnnualSalary = baseInput.salaryPlans.reduce((total, plan) => {
-      const isActive = baseInput.currentAge >= plan.startAge && baseInput.currentAge <= plan.endAge;
-      if (isActive) {
-        return total + convertSalaryToJPY(plan);
-      }
-      return total;
-    }, 0);
+    // 現在年齢で有効な給与プランから合計年収を計算（配偶者がいる場合は配偶者の年齢で有効な給与も合算）
+    const members = baseInput.spouse ? [baseInput, baseInput.spouse] : [baseInput];
+    const totalAnnualSalary = members.reduce((memberTotal, member) =>
+      member.salaryPlans.reduce((total, plan) => {
+        const isActive = member.currentAge >= plan.startAge && member.currentAge <= plan.endAge;
+        if (isActive) {
+          return total + convertSalaryToJPY(plan);
+        }
+        return total;
+      }, memberTotal), 0);
 
     // 現在年齢での月間支出を取得
     const currentSegment = baseInput.expenseSegments.find(
       s => baseInput.currentAge >= s.startAge && baseInput.currentAge < s.endAge
     );
     const currentMonthlyExpenses = currentSegment?.monthlyExpenses ?? 0;
+    const currentDiscretionaryExpenses = Math.min(currentSegment?.discretionaryExpenses ?? 0, currentMonthlyExpenses);
 
     const simulationParams: MonteCarloSimulation = {
       currentAge: baseInput.currentAge,
       currentAssets: calculateTotalAssets(baseInput.assetHoldings, baseInput.exchangeRate),
       monthlyExpenses: currentMonthlyExpenses,
-      monthlySavings: (totalAnnualSalary - currentMonthlyExpenses * 12) / 12,
-      expectedAnnualReturn: 0, // 個別利回り対応のため無効化
+      discretionaryMonthlyExpenses: currentDiscretionaryExpenses,
+      monthlySavings: (totalAnnualSalary - currentMonthlyExpenses * 12) / 12 + additionalMonthlySavings,
+      expectedAnnualReturn,
       returnVolatility,
       inflationRate: baseInput.inflationRate,
       inflationVolatility,
       lifeExpectancy: baseInput.lifeExpectancy,
       simulations,
+      terminalWealthTarget: FireCalculator.calculateTerminalWealthTarget(
+        baseInput,
+        baseInput.lifeExpectancy - baseInput.currentAge
+      ),
+      retirementAge,
+      flexibleSpending: baseInput.flexibleSpending,
     };
 
     // 全シミュレーションを実行
+    const random = seed === undefined ? Math.random : createSeededRandom(seed);
+    // 調整を行わない場合に記録した乱数が不足したときの乱数（共有の乱数列を消費すると以降の試行がずれるため別の生成器を使う）
+    const replayRandom = seed === undefined ? Math.random : createSeededRandom(seed + 1);
     const allSimulations: YearlyProjection[][] = [];
+    const simulationsWithoutCuts: YearlyProjection[][] = [];
     for (let i = 0; i < simulations; i++) {
-      const simulation = this.runSingleSimulation(simulationParams);
-      allSimulations.push(simulation);
+      if (!simulationParams.flexibleSpending) {
+        allSimulations.push(this.runSingleSimulation(simulationParams, random));
+        continue;
+      }
+
+      // 支出の柔軟な調整を行わない場合も同じ乱数で計算し、成功確率の改善を比較
+      const draws: number[] = [];
+      allSimulations.push(this.runSingleSimulation(simulationParams, () => {
+        const value = random();
+        draws.push(value);
+        return value;
+      }));
+      let drawIndex = 0;
+      simulationsWithoutCuts.push(this.runSingleSimulation(
+        { ...simulationParams, flexibleSpending: undefined },
+        () => draws[drawIndex++] ?? replayRandom()
+      ));
     }
 
+    // 支出の柔軟な調整の効果（調整を設定した場合のみ）
+    const flexibleSpendingStats = simulationParams.flexibleSpending
+      ? {
+          successProbabilityWithoutCuts: this.calculateSuccessProbability(simulationsWithoutCuts, simulationParams.terminalWealthTarget),
+          averageCutYears: allSimulations.reduce((sum, simulation) =>
+            sum + simulation.filter(projection => (projection.spendingCut ?? 0) > 0).length, 0) / Math.max(1, simulations),
+        }
+      : {};
+
     // パーセンタイル分析
     const percentiles = [10, 25, 50, 75, 90];
     const results: MonteCarloResult[] = [];
@@ -163,7 +254,8 @@ export class MonteCarloSimulator {
       results.push({
         percentile,
         projections: percentileData,
-        successProbability: this.calculateSuccessProbability(allSimulations)
+        successProbability: this.calculateSuccessProbability(allSimulations, simulationParams.terminalWealthTarget),
+        ...flexibleSpendingStats,
       });
     });
 
@@ -211,16 +303,19 @@ export class MonteCarloSimulator {
 
   /**
    * FIRE成功確率を計算
+   * @param simulations 全シミュレーションの推移
+   * @param terminalWealthTarget 想定寿命時点に残す資産の目標額（名目額）
    */
   private static calculateSuccessProbability(
-    simulations: YearlyProjection[][]
+    simulations: YearlyProjection[][],
+    terminalWealthTarget: number
   ): number {
     const successfulSimulations = simulations.filter(simulation => {
-      // 最終年まで資産が枯渇しない
+      // 最終年まで資産が枯渇せず、目標額を残せる
       const lastYear = simulation[simulation.length - 1];
       if (!lastYear) return false;
 
-      return lastYear.assets > 0;
+      return lastYear.assets >= terminalWealthTarget;
     });
 
     return (successfulSimulations.length / simulations.length) * 100;
@@ -0,0 +1,164 @@
+import { calculateEmploymentIncome, calculatePublicPensionIncome, calculateVoluntaryContinuationPremium } from './income-tax';
+import { NationalHealthInsuranceRates, PostRetirementHealthInsurance, PostRetirementInsuranceSettings } from './types';
+
+/**
+ * 退職後（FIRE後）の国民健康保険料・国民年金保険料
+ *
+ * 最後の給与プランが終了した翌年から、前年の所得に基づく国民健康保険料と、
+ * 60歳になるまでの国民年金保険料を計上する。退職後2年間は健康保険の任意継続を選択できる。
+ * 固定額（均等割・賦課限度額・国民年金保険料）は現在価値とし、インフレ率で調整する。
+ * 75歳以降の後期高齢者医療制度も国民健康保険と同じ料率で概算する。
+ */
+
+// 退職後の健康保険の表示名
+export const POST_RETIREMENT_HEALTH_INSURANCE_LABELS: Record<PostRetirementHealthInsurance, string> = {
+  'nhi': '国民健康保険',
+  'voluntary': '任意継続（2年間）',
+  'cheaper': '保険料の安い方',
+};
+
+// 国民健康保険料の標準的な料率（令和6年度 東京都特別区の概算）
+export const DEFAULT_NHI_RATES: NationalHealthInsuranceRates = {
+  incomeRate: 10.4,
+  perCapitaAmount: 64100,
+  annualLimit: 890000,
+  nursingCareIncomeRate: 2.25,
+  nursingCarePerCapitaAmount: 16600,
+  nursingCareAnnualLimit: 170000,
+};
+
+// 国民健康保険料の算定に使う基礎控除（旧ただし書き所得）
+const NHI_BASIC_DEDUCTION = 430000;
+
+// 均等割の軽減判定の加算額（1人あたり、5割軽減 / 2割軽減）
+const NHI_HALF_REDUCTION_PER_MEMBER = 295000;
+const NHI_TWENTY_PERCENT_REDUCTION_PER_MEMBER = 545000;
+
+// 介護分の対象年齢
+const NURSING_CARE_START_AGE = 40;
+const NURSING_CARE_END_AGE = 64;
+
+// 国民年金保険料（月額、令和7年度）
+const NATIONAL_PENSION_MONTHLY_PREMIUM = 17510;
+
+// 国民年金保険料を納付する上限年齢（この年齢になるまで納付）
+const NATIONAL_PENSION_END_AGE = 60;
+
+// 任意継続被保険者でいられる期間（年）
+const VOLUNTARY_CONTINUATION_YEARS = 2;
+
+/**
+ * 退職後の社会保険料の計算に使う状況
+ */
+export interface PostRetirementInsuranceContext {
+  age: number;
+  retirementAge: number; // 最後に給与を受け取った年齢
+  previousSalaries: number[]; // 前年の給与収入（額面、手取りで入力した給与は額面に換算した概算額）
+  previousPensionIncome: number; // 前年の年金収入
+  lastGrossSalary: number; // 退職前の給与収入（額面、任意継続の保険料に使用）
+  inflationFactor: number; // 現在からのインフレ倍率
+}
+
+/**
+ * 退職後の社会保険料（年額）
+ */
+export interface PostRetirementInsurancePremiums {
+  healthInsurance: number; // 国民健康保険料または任意継続の保険料
+  nationalPension: number; // 国民年金保険料
+}
+
+/**
+ * 前年の所得（給与所得 + 公的年金等に係る雑所得）を計算
+ */
+function calculatePreviousYearIncome(context: PostRetirementInsuranceContext): number {
+  const salaryIncome = context.previousSalaries.reduce(
+    (sum, salary) => sum + calculateEmploymentIncome(salary), 0
+  );
+  return salaryIncome + calculatePublicPensionIncome(context.previousPensionIncome, context.age - 1);
+}
+
+/**
+ * 国民健康保険料（年額）を計算
+ * 低所得世帯は前年の所得に応じて均等割を7割・5割・2割軽減する
+ * @param previousYearIncome 前年の所得
+ * @param age 被保険者の年齢（介護分の判定に使用）
+ * @param rates 国民健康保険料の料率
+ * @param householdMembers 加入人数
+ * @param inflationFactor 現在からのインフレ倍率
+ * @returns 国民健康保険料
+ */
+export function calculateNationalHealthInsurancePremium(
+  previousYearIncome: number,
+  age: number,
+  rates: NationalHealthInsuranceRates,
+  householdMembers: number,
+  inflationFactor: number
+): number {
+  const basicDeduction = NHI_BASIC_DEDUCTION * inflationFactor;
+  const assessableIncome = Math.max(0, previousYearIncome - basicDeduction);
+
+  // 均等割の軽減割合
+  let perCapitaRatio = 1;
+  if (previousYearIncome <= basicDeduction) {
+    perCapitaRatio = 0.3;
+  } else if (previousYearIncome <= basicDeduction + NHI_HALF_REDUCTION_PER_MEMBER * householdMembers * inflationFactor) {
+    perCapitaRatio = 0.5;
+  } else if (previousYearIncome <= basicDeduction + NHI_TWENTY_PERCENT_REDUCTION_PER_MEMBER * householdMembers * inflationFactor) {
+    perCapitaRatio = 0.8;
+  }
+
+  const medicalPremium = Math.min(
+    rates.annualLimit * inflationFactor,
+    assessableIncome * rates.incomeRate / 100
+      + rates.perCapitaAmount * householdMembers * perCapitaRatio * inflationFactor
+  );
+
+  const isNursingCareTarget = age >= NURSING_CARE_START_AGE && age <= NURSING_CARE_END_AGE;
+  const nursingCarePremium = isNursingCareTarget
+    ? Math.min(
+        rates.nursingCareAnnualLimit * inflationFactor,
+        assessableIncome * rates.nursingCareIncomeRate / 100
+          + rates.nursingCarePerCapitaAmount * perCapitaRatio * inflationFactor
+      )
+    : 0;
+
+  return medicalPremium + nursingCarePremium;
+}
+
+/**
+ * 退職後の国民健康保険料（または任意継続の保険料）と国民年金保険料を計算
+ * @param settings 退職後の社会保険料の設定（未指定の場合は計上しない）
+ * @param context 年齢・前年の収入などの状況
+ * @returns 年額の保険料（在職中、または設定していない・無効にした場合は0）
+ */
+export function calculatePostRetirementInsurance(
+  settings: PostRetirementInsuranceSettings | undefined,
+  context: PostRetirementInsuranceContext
+): PostRetirementInsurancePremiums {
+  if (!settings?.enabled || context.age <= context.retirementAge) {
+    return { healthInsurance: 0, nationalPension: 0 };
+  }
+
+  const nhiPremium = calculateNationalHealthInsurancePremium(
+    calculatePreviousYearIncome(context),
+    context.age,
+    settings.nhiRates ?? DEFAULT_NHI_RATES,
+    settings.householdMembers ?? 1,
+    context.inflationFactor
+  );
+
+  // 退職後2年間は任意継続を選択可能（在職時の給与がある場合のみ）
+  let healthInsurance = nhiPremium;
+  const choice = settings.healthInsurance ?? 'nhi';
+  const isVoluntaryPeriod = context.age - context.retirementAge <= VOLUNTARY_CONTINUATION_YEARS;
+  if (choice !== 'nhi' && isVoluntaryPeriod && context.lastGrossSalary > 0) {
+    const voluntaryPremium = calculateVoluntaryContinuationPremium(context.lastGrossSalary, context.age);
+    healthInsurance = choice === 'voluntary' ? voluntaryPremium : Math.min(voluntaryPremium, nhiPremium);
+  }
+
+  const nationalPension = context.age < NATIONAL_PENSION_END_AGE
+    ? NATIONAL_PENSION_MONTHLY_PREMIUM * 12 * context.inflationFactor
+    : 0;
+
+  return { healthInsurance, nationalPension };
+}
@@ -0,0 +1,120 @@
+import { FireCalculationInput, YearlyDetailData } from './fire-calculator';
+import { ChartDataPoint, FireMetrics, ValueDisplayMode } from './types';
+import { getInflationFactor } from './inflation';
+
+// 金額の表示方法の表示名
+export const VALUE_DISPLAY_MODE_LABELS: Record<ValueDisplayMode, string> = {
+  nominal: '名目額',
+  real: '現在価値',
+};
+
+/**
+ * 名目額を現在価値に換算
+ * @param amount 名目額
+ * @param input 計算入力（インフレ率・インフレ率の推移）
+ * @param yearOffset 現在からの経過年数
+ */
+export function toPresentValue(amount: number, input: FireCalculationInput, yearOffset: number): number {
+  return amount / getInflationFactor(input, yearOffset);
+}
+
+/**
+ * 項目別の金額をまとめて換算
+ */
+function deflateRecord<K extends string>(record: Partial<Record<K, number>>, factor: number): Partial<Record<K, number>> {
+  const deflated: Partial<Record<K, number>> = {};
+  (Object.keys(record) as K[]).forEach(key => {
+    deflated[key] = (record[key] ?? 0) / factor;
+  });
+  return deflated;
+}
+
+/**
+ * チャート用データの資産額を現在価値に換算
+ * expenses は生活費がインフレ調整前の表示用の値のため換算しない
+ * @param data チャート用データ（年齢は本人の年齢）
+ * @param input 計算入力（現在年齢・インフレ率）
+ */
+export function toPresentValueChartData(data: ChartDataPoint[], input: FireCalculationInput): ChartDataPoint[] {
+  return data.map(point => {
+    const factor = getInflationFactor(input, point.age - input.currentAge);
+    return {
+      ...point,
+      assets: point.assets / factor,
+      netWorth: point.netWorth / factor,
+    };
+  });
+}
+
+/**
+ * 年次詳細データの金額を現在価値に換算
+ * @param details 年次詳細データ
+ * @param input 計算入力（現在年齢・インフレ率）
+ */
+export function toPresentValueYearlyDetails(details: YearlyDetailData[], input: FireCalculationInput): YearlyDetailData[] {
+  return details.map(detail => {
+    const factor = getInflationFactor(input, detail.age - input.currentAge);
+    return {
+      ...detail,
+      salaries: deflateRecord(detail.salaries, factor) as Record<string, number>,
+      pensions: deflateRecord(detail.pensions, factor) as Record<string, number>,
+      specialIncomes: deflateRecord(detail.specialIncomes, factor) as Record<string, number>,
+      incomeTax: detail.incomeTax / factor,
+      residentTax: detail.residentTax / factor,
+      healthInsurance: detail.healthInsurance / factor,
+      pensionInsurance: detail.pensionInsurance / factor,
+      employmentInsurance: detail.employmentInsurance / factor,
+      expenses: detail.expenses / factor,
+      expensesByCategory: deflateRecord(detail.expensesByCategory, factor),
+      spendingCut: detail.spendingCut / factor,
+      loanPayments: detail.loanPayments / factor,
+      loanBalances: deflateRecord(detail.loanBalances, factor) as Record<string, number>,
+      specialExpenses: deflateRecord(detail.specialExpenses, factor) as Record<string, number>,
+      annualNetCashFlow: detail.annualNetCashFlow / factor,
+      portfolioWithdrawal: detail.portfolioWithdrawal / factor,
+      capitalGainsTax: detail.capitalGainsTax / factor,
+      cash: detail.cash / factor,
+      assets: deflateRecord(detail.assets, factor) as Record<string, number>,
+      rebalanceTrades: deflateRecord(detail.rebalanceTrades, factor) as Record<string, number>,
+      assetClassBalances: deflateRecord(detail.assetClassBalances, factor),
+      totalAssets: detail.totalAssets / factor,
+    };
+  });
+}
+
+/**
+ * FIRE達成状況の金額を現在価値に換算
+ * FIRE目標額・月間不足額はFIRE達成年齢時点、資産・目標額・相続税は想定寿命時点の名目額として換算し、
+ * FIRE達成率も換算後の目標額に対する割合で計算し直す
+ * @param metrics FIRE達成状況（名目額）
+ * @param input 計算入力（現在年齢・想定寿命・インフレ率）
+ */
+export function toPresentValueMetrics(metrics: FireMetrics, input: FireCalculationInput): FireMetrics {
+  // FIRE達成年齢時点（達成できない場合は換算しない）
+  const toFirePresentValue = (amount: number) =>
+    metrics.yearsToFire < 0 ? amount : toPresentValue(amount, input, metrics.yearsToFire);
+  const requiredAssets = toFirePresentValue(metrics.requiredAssets);
+  // 想定寿命時点（配偶者がいる場合は長い方の想定寿命まで）
+  const terminalYearOffset = Math.max(
+    input.lifeExpectancy - input.currentAge,
+    input.spouse ? input.spouse.lifeExpectancy - input.spouse.currentAge : 0
+  );
+  const toTerminalPresentValue = (amount: number | undefined) =>
+    amount === undefined ? undefined : toPresentValue(amount, input, terminalYearOffset);
+
+  return {
+    ...metrics,
+    requiredAssets,
+    monthlyDeficit: toFirePresentValue(metrics.monthlyDeficit),
+    fireProgress: requiredAssets > 0 ? Math.min((metrics.currentAssets / requiredAssets) * 100, 100) : 0,
+    terminalWealthTarget: toTerminalPresentValue(metrics.terminalWealthTarget),
+    projectedTerminalWealth: toTerminalPresentValue(metrics.projectedTerminalWealth),
+    inheritanceTax: toTerminalPresentValue(metrics.inheritanceTax),
+    variants: metrics.variants?.map(variant => ({
+      ...variant,
+      targetAssets: variant.targetAssets === null || variant.age === null
+        ? variant.targetAssets
+        : toPresentValue(variant.targetAssets, input, variant.age - input.currentAge),
+    })),
+  };
+}
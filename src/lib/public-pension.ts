@@ -0,0 +1,253 @@
+import { PensionIndexationType, PensionKind, PensionPlan } from './types';
+import { compoundRates, createConstantInflationIndex, InflationIndex } from './inflation';
+
+/**
+ * 公的年金（老齢基礎年金・老齢厚生年金）の繰上げ・繰下げ受給と年金額の改定
+ *
+ * 年金プランの年額は65歳で受給を開始した場合の金額とし、受給開始年齢に応じて
+ * 繰上げは1か月あたり0.4%の減額、繰下げは1か月あたり0.7%の増額を行う。
+ * 受給開始年齢は60歳から75歳まで選択できる。
+ *
+ * 受給額の改定は物価連動（米ドル建ては米国のCOLA）、マクロ経済スライド、名目固定から選択する。
+ */
+
+// 年金種別の表示名
+export const PENSION_KIND_LABELS: Record<PensionKind, string> = {
+  'other': 'その他',
+  'basic': '老齢基礎年金',
+  'employees': '老齢厚生年金',
+};
+
+// 年金額の改定方式の表示名
+export const PENSION_INDEXATION_LABELS: Record<PensionIndexationType, string> = {
+  'cpi': '物価連動',
+  'macro-slide': 'マクロ経済スライド',
+  'fixed': '名目固定',
+};
+
+// マクロ経済スライドのスライド調整率の既定値（%/年）
+export const DEFAULT_SLIDE_RATE = 0.4;
+
+// マクロ経済スライドを行う期間の既定値（年）
+export const DEFAULT_SLIDE_YEARS = 20;
+
+// 本来の受給開始年齢
+export const STANDARD_CLAIMING_AGE = 65;
+
+// 繰上げ受給の下限年齢
+export const EARLIEST_CLAIMING_AGE = 60;
+
+// 繰下げ受給の上限年齢
+export const LATEST_CLAIMING_AGE = 75;
+
+// 繰上げ1か月あたりの減額率
+const EARLY_REDUCTION_RATE_PER_MONTH = 0.004;
+
+// 繰下げ1か月あたりの増額率
+const DEFERRAL_INCREASE_RATE_PER_MONTH = 0.007;
+
+// 損益分岐年齢を探索する上限年齢
+const MAX_BREAK_EVEN_AGE = 120;
+
+/**
+ * 繰上げ・繰下げの対象となる公的年金かどうか
+ */
+export function isPublicPension(plan: PensionPlan): boolean {
+  return plan.kind === 'basic' || plan.kind === 'employees';
+}
+
+/**
+ * 受給開始年齢を繰上げ・繰下げ可能な範囲に丸める
+ */
+export function clampClaimingAge(claimingAge: number): number {
+  return Math.min(LATEST_CLAIMING_AGE, Math.max(EARLIEST_CLAIMING_AGE, claimingAge));
+}
+
+/**
+ * 受給開始年齢に応じた年金額の倍率を計算
+ * @param claimingAge 受給開始年齢
+ * @returns 65歳受給開始時の年額に対する倍率（例: 60歳 → 0.76、75歳 → 1.84）
+ */
+export function calculateClaimingAdjustmentRate(claimingAge: number): number {
+  const months = Math.round((clampClaimingAge(claimingAge) - STANDARD_CLAIMING_AGE) * 12);
+  if (months < 0) {
+    return 1 + months * EARLY_REDUCTION_RATE_PER_MONTH;
+  }
+  return 1 + months * DEFERRAL_INCREASE_RATE_PER_MONTH;
+}
+
+/**
+ * 繰上げ・繰下げを反映した年金の年額を取得（通貨単位）
+ * @param plan 年金プラン
+ * @returns 年額。公的年金以外は入力した年額をそのまま返す
+ */
+export function getAdjustedPensionAmount(plan: PensionPlan): number {
+  const amount = plan.annualAmount ?? 0;
+  if (!isPublicPension(plan)) {
+    return amount;
+  }
+  return amount * calculateClaimingAdjustmentRate(plan.startAge);
+}
+
+/**
+ * 年金額の改定率を反映した、現在の年額に対する倍率を計算
+ *
+ * マクロ経済スライドの期間中は物価上昇率からスライド調整率を差し引いて改定する。
+ * ただし名目額を前年より下げない（物価上昇率がスライド調整率より低い場合は据え置き）。
+ *
+ * @param plan 年金プラン
+ * @param years 現在からの経過年数（月次計算では端数を含む）
+ * @param inflation 物価指数
+ * @param usCola 米ドル建て年金の生活費調整率（小数、未指定の場合は物価指数）
+ * @returns 年額の倍率
+ */
+export function calculatePensionIndexFactor(
+  plan: PensionPlan,
+  years: number,
+  inflation: InflationIndex,
+  usCola?: number
+): number {
+  const index = plan.currency === 'USD' && usCola !== undefined ? createConstantInflationIndex(usCola) : inflation;
+
+  switch (plan.indexation?.type) {
+    case 'fixed':
+      return 1;
+
+    case 'macro-slide': {
+      const slideRate = (plan.indexation.slideRate ?? DEFAULT_SLIDE_RATE) / 100;
+      const slideYears = Math.min(years, Math.max(0, plan.indexation.slideYears ?? DEFAULT_SLIDE_YEARS));
+      // 物価下落時はスライド調整を行わず物価に合わせて改定
+      const slide = (rate: number) => rate > 0 ? Math.max(0, rate - slideRate) : rate;
+      return compoundRates(yearIndex => {
+        const rate = index.rateAt(yearIndex);
+        return yearIndex < slideYears ? slide(rate) : rate;
+      }, years);
+    }
+
+    default:
+      return index.factor(years);
+  }
+}
+
+// 受給開始年齢ごとの試算結果
+export interface ClaimingAgeScenario {
+  claimingAge: number;
+  adjustmentRate: number; // 65歳受給開始時の年額に対する倍率
+  annualAmount: number; // 年額（現在価値）
+  totalReceived: number; // 想定寿命までの受給総額（現在価値）
+  presentValue: number; // 運用利回りで割り引いた受給総額の現在価値
+  breakEvenAge: number | null; // 65歳受給開始と受給総額が逆転する年齢（65歳受給開始、または寿命内に逆転しない場合はnull）
+}
+
+// 受給開始年齢の損益分岐分析
+export interface PensionBreakEvenAnalysis {
+  planId: string;
+  planName: string;
+  lifeExpectancy: number;
+  discountRate: number; // 割引率（運用利回りの実質値の想定寿命までの年平均、小数）
+  scenarios: ClaimingAgeScenario[];
+  recommendedClaimingAge: number; // 受給総額の現在価値が最大になる受給開始年齢
+}
+
+interface BreakEvenOptions {
+  currentAge: number;
+  lifeExpectancy: number;
+  portfolioReturn: number; // 運用利回り（パーセント）
+  inflation: InflationIndex; // 物価指数（計算入力のインフレ率・インフレ率の推移）
+}
+
+/**
+ * 指定年齢までの受給総額を計算（年額 × 受給年数）
+ */
+function calculateCumulativeAmount(annualAmount: number, claimingAge: number, age: number): number {
+  return annualAmount * Math.max(0, age - claimingAge + 1);
+}
+
+/**
+ * 65歳受給開始と受給総額が逆転する年齢を求める
+ */
+function findBreakEvenAge(
+  annualAmount: number,
+  claimingAge: number,
+  standardAmount: number
+): number | null {
+  if (claimingAge === STANDARD_CLAIMING_AGE) return null;
+
+  // 早く受け取る側が先行し、遅く受け取る側が追いつく年齢を探す
+  const isEarly = claimingAge < STANDARD_CLAIMING_AGE;
+  const startAge = Math.max(claimingAge, STANDARD_CLAIMING_AGE);
+  for (let age = startAge; age <= MAX_BREAK_EVEN_AGE; age++) {
+    const cumulative = calculateCumulativeAmount(annualAmount, claimingAge, age);
+    const standardCumulative = calculateCumulativeAmount(standardAmount, STANDARD_CLAIMING_AGE, age);
+    if (isEarly ? standardCumulative >= cumulative : cumulative >= standardCumulative) {
+      return age;
+    }
+  }
+  return null;
+}
+
+/**
+ * 受給開始年齢ごとの受給総額と損益分岐年齢を試算し、推奨の受給開始年齢を求める
+ *
+ * 年金の実質額（改定方式による物価との差を反映）を運用利回りの実質値で割り引いて比較する。
+ * 実質値は年ごとのインフレ率から求めるため、インフレ率の推移を設定した場合も資産推移の計算と一致する。
+ * 繰上げで早く受け取った年金は運用に回せるため、運用利回りが高いほど早い受給開始が有利になる。
+ *
+ * @param plan 年金プラン（年額は65歳受給開始時の金額）
+ * @param options 現在の年齢・想定寿命・運用利回り・インフレ率
+ * @returns 損益分岐分析の結果
+ */
+export function analyzePensionClaimingAge(
+  plan: PensionPlan,
+  options: BreakEvenOptions
+): PensionBreakEvenAnalysis {
+  const { currentAge, lifeExpectancy, portfolioReturn, inflation } = options;
+  const baseAmount = plan.annualAmount ?? 0;
+  // 経過年数までの実質の運用成長率（年ごとの運用利回りの実質値を複利で累積）
+  const realGrowth = (years: number) =>
+    compoundRates(yearIndex => (1 + portfolioReturn / 100) / (1 + inflation.rateAt(yearIndex)) - 1, years);
+  const horizon = Math.max(1, lifeExpectancy - currentAge);
+  const discountRate = Math.pow(realGrowth(horizon), 1 / horizon) - 1;
+
+  const scenarios: ClaimingAgeScenario[] = [];
+  for (let claimingAge = EARLIEST_CLAIMING_AGE; claimingAge <= LATEST_CLAIMING_AGE; claimingAge++) {
+    const adjustmentRate = calculateClaimingAdjustmentRate(claimingAge);
+    const annualAmount = baseAmount * adjustmentRate;
+
+    // 改定方式による物価との差（マクロ経済スライドなど）を反映した実質額で集計
+    let totalReceived = 0;
+    let presentValue = 0;
+    for (let age = Math.max(claimingAge, currentAge); age <= lifeExpectancy; age++) {
+      const years = age - currentAge;
+      const realAmount = annualAmount * calculatePensionIndexFactor(plan, years, inflation)
+        / inflation.factor(years);
+      totalReceived += realAmount;
+      presentValue += realAmount / realGrowth(years);
+    }
+
+    scenarios.push({
+      claimingAge,
+      adjustmentRate,
+      annualAmount,
+      totalReceived,
+      presentValue,
+      breakEvenAge: findBreakEvenAge(annualAmount, claimingAge, baseAmount),
+    });
+  }
+
+  // 既に過ぎた年齢からは受給を開始できないため、現在の年齢以降から推奨する
+  const selectable = scenarios.filter(scenario => scenario.claimingAge >= currentAge);
+  const candidates = selectable.length > 0 ? selectable : scenarios.slice(-1);
+  const recommended = candidates.reduce((best, scenario) =>
+    scenario.presentValue > best.presentValue ? scenario : best
+  );
+
+  return {
+    planId: plan.id,
+    planName: plan.name || PENSION_KIND_LABELS[plan.kind ?? 'other'],
+    lifeExpectancy,
+    discountRate,
+    scenarios,
+    recommendedClaimingAge: recommended.claimingAge,
+  };
+}
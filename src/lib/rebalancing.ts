@@ -0,0 +1,274 @@
+import { AssetHolding, AssetType, GlidePathPoint, RebalancingSettings } from './types';
+import {
+  allocateSurplus,
+  calculateCapitalGainsTax,
+  getAccountType,
+  NisaAnnualUsage,
+} from './investment-account';
+
+/**
+ * 目標配分とリバランス
+ *
+ * 目標配分は銘柄ごと（AssetHolding.targetAllocation）または資産クラスごとに指定する。
+ * 銘柄ごとの指定が1つでもあれば銘柄ごとの指定を優先する。
+ * グライドパス（年齢ごとの資産クラス別目標配分）を設定した場合は、それを最優先する。
+ * iDeCoは口座をまたいだ売買ができないため、リバランスの対象外とする。
+ */
+
+// 資産クラスの表示名
+export const ASSET_CLASS_LABELS: Record<AssetType, string> = {
+  [AssetType.STOCK]: '株式',
+  [AssetType.BOND]: '債券',
+  [AssetType.REAL_ESTATE]: '不動産',
+  [AssetType.CASH]: '現金・預金',
+  [AssetType.CRYPTO]: '暗号資産',
+  [AssetType.COMMODITY]: 'コモディティ',
+  [AssetType.OTHER]: 'その他',
+};
+
+// 定期リバランスの既定の間隔（年）
+const DEFAULT_INTERVAL_YEARS = 1;
+
+// 乖離幅リバランスの既定の許容幅（%ポイント）
+const DEFAULT_TOLERANCE_BAND = 5;
+
+/**
+ * リバランスの売買結果
+ */
+export interface RebalanceResult {
+  trades: { [key: string]: number }; // 資産ごとの売買額（key: 資産ID、正数: 購入、負数: 売却）
+  capitalGainsTax: number; // 売却に伴う譲渡益税
+  uninvested: number; // NISAの投資枠超過などで購入できず現金に残った額
+}
+
+/**
+ * 資産クラスを取得（未指定の場合は株式）
+ */
+export function getAssetClass(holding: AssetHolding): AssetType {
+  return holding.assetClass ?? AssetType.STOCK;
+}
+
+/**
+ * リバランスの対象となる資産かどうか
+ */
+function isRebalanceable(holding: AssetHolding): boolean {
+  return getAccountType(holding) !== 'ideco';
+}
+
+/**
+ * 配分比率を合計1に正規化（合計が0以下の場合はnull）
+ */
+function normalizeWeights(weights: { [key: string]: number }): { [key: string]: number } | null {
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return null;
+
+  Object.keys(weights).forEach(id => {
+    weights[id] /= total;
+  });
+  return weights;
+}
+
+/**
+ * 資産クラスごとの目標配分を銘柄ごとの目標配分比率に按分する
+ *
+ * 同じクラスの銘柄間では現在の評価額に応じて按分する（評価額がすべて0の場合は均等に按分）。
+ * 保有銘柄のない資産クラスの配分は無視される。
+ *
+ * @param holdings 銘柄保有情報
+ * @param balances 各資産の評価額（key: 資産ID）
+ * @param classTargets 資産クラスごとの目標配分（%）
+ * @returns 各資産の目標配分比率（合計1、key: 資産ID）。配分できない場合はnull
+ */
+export function resolveClassTargetWeights(
+  holdings: AssetHolding[],
+  balances: { [key: string]: number },
+  classTargets: Partial<Record<AssetType, number>>
+): { [key: string]: number } | null {
+  const weights: { [key: string]: number } = {};
+
+  (Object.keys(classTargets) as AssetType[]).forEach(assetClass => {
+    const target = Math.max(0, classTargets[assetClass] ?? 0);
+    const members = holdings.filter(holding => getAssetClass(holding) === assetClass);
+    const classBalance = members.reduce((sum, holding) => sum + Math.max(0, balances[holding.id] ?? 0), 0);
+
+    members.forEach(holding => {
+      const share = classBalance > 0
+        ? Math.max(0, balances[holding.id] ?? 0) / classBalance
+        : 1 / members.length;
+      weights[holding.id] = (weights[holding.id] ?? 0) + target * share;
+    });
+  });
+
+  return normalizeWeights(weights);
+}
+
+/**
+ * 銘柄ごとの目標配分比率を求める
+ * @param holdings 銘柄保有情報
+ * @param balances 各資産の評価額（key: 資産ID）
+ * @param classTargets 資産クラスごとの目標配分（%）
+ * @returns 各資産の目標配分比率（合計1、key: 資産ID）。目標配分が未設定の場合はnull
+ */
+export function resolveTargetWeights(
+  holdings: AssetHolding[],
+  balances: { [key: string]: number },
+  classTargets?: Partial<Record<AssetType, number>>
+): { [key: string]: number } | null {
+  if (holdings.some(holding => holding.targetAllocation !== undefined)) {
+    // 銘柄ごとの目標配分
+    const weights: { [key: string]: number } = {};
+    holdings.forEach(holding => {
+      weights[holding.id] = Math.max(0, holding.targetAllocation ?? 0);
+    });
+    return normalizeWeights(weights);
+  }
+
+  if (classTargets && Object.values(classTargets).some(target => (target ?? 0) > 0)) {
+    return resolveClassTargetWeights(holdings, balances, classTargets);
+  }
+
+  return null;
+}
+
+/**
+ * グライドパスから指定年齢の資産クラスごとの目標配分を求める
+ *
+ * 節目の間は年齢に応じて線形補間し、最初の節目より前は最初の節目、
+ * 最後の節目より後は最後の節目の配分を使う。
+ *
+ * @param glidePath グライドパスの節目
+ * @param age 年齢
+ * @returns 資産クラスごとの目標配分（%）。グライドパスが未設定の場合はnull
+ */
+export function getGlidePathTargets(
+  glidePath: GlidePathPoint[] | undefined,
+  age: number
+): Partial<Record<AssetType, number>> | null {
+  if (!glidePath || glidePath.length === 0) return null;
+
+  const points = glidePath.slice().sort((a, b) => a.age - b.age);
+  if (age <= points[0].age) return { ...points[0].allocations };
+
+  const last = points[points.length - 1];
+  if (age >= last.age) return { ...last.allocations };
+
+  const nextIndex = points.findIndex(point => point.age > age);
+  const prev = points[nextIndex - 1];
+  const next = points[nextIndex];
+  const progress = (age - prev.age) / (next.age - prev.age);
+
+  const targets: Partial<Record<AssetType, number>> = {};
+  const assetClasses = new Set([
+    ...Object.keys(prev.allocations),
+    ...Object.keys(next.allocations),
+  ] as AssetType[]);
+  assetClasses.forEach(assetClass => {
+    const from = prev.allocations[assetClass] ?? 0;
+    const to = next.allocations[assetClass] ?? 0;
+    targets[assetClass] = from + (to - from) * progress;
+  });
+  return targets;
+}
+
+/**
+ * その年にリバランスを行うかどうか
+ * @param settings リバランス設定
+ * @param yearOffset シミュレーション開始からの経過年数
+ * @param holdings 銘柄保有情報
+ * @param balances 各資産の評価額（key: 資産ID）
+ * @param weights 各資産の目標配分比率（key: 資産ID）
+ */
+export function shouldRebalance(
+  settings: RebalancingSettings | undefined,
+  yearOffset: number,
+  holdings: AssetHolding[],
+  balances: { [key: string]: number },
+  weights: { [key: string]: number }
+): boolean {
+  if (!settings || settings.method === 'none') return false;
+
+  if (settings.method === 'periodic') {
+    const interval = Math.max(1, Math.round(settings.intervalYears ?? DEFAULT_INTERVAL_YEARS));
+    return (yearOffset + 1) % interval === 0;
+  }
+
+  // 乖離幅リバランス：目標配分から許容幅以上ずれた資産があれば実施
+  const band = (settings.toleranceBand ?? DEFAULT_TOLERANCE_BAND) / 100;
+  const participants = holdings.filter(isRebalanceable);
+  const total = participants.reduce((sum, holding) => sum + Math.max(0, balances[holding.id] ?? 0), 0);
+  const totalWeight = participants.reduce((sum, holding) => sum + (weights[holding.id] ?? 0), 0);
+  if (total <= 0 || totalWeight <= 0) return false;
+
+  return participants.some(holding => {
+    const actual = Math.max(0, balances[holding.id] ?? 0) / total;
+    const target = (weights[holding.id] ?? 0) / totalWeight;
+    return Math.abs(actual - target) > band;
+  });
+}
+
+/**
+ * 目標配分に戻すための売買を計算
+ *
+ * 目標を上回る資産を売却し、譲渡益税を差し引いた売却代金で目標を下回る資産を購入する。
+ * NISAの投資枠を超える購入分は特定口座に振り替え、振り替え先もない場合は現金に残す。
+ *
+ * @param holdings 銘柄保有情報
+ * @param balances 各資産の評価額（key: 資産ID）
+ * @param costBases 各資産の取得価額（key: 資産ID）
+ * @param weights 各資産の目標配分比率（key: 資産ID）
+ * @param annualUsage 当年のNISA投資枠使用額
+ * @returns 売買結果
+ */
+export function calculateRebalanceTrades(
+  holdings: AssetHolding[],
+  balances: { [key: string]: number },
+  costBases: { [key: string]: number },
+  weights: { [key: string]: number },
+  annualUsage: NisaAnnualUsage
+): RebalanceResult {
+  const result: RebalanceResult = { trades: {}, capitalGainsTax: 0, uninvested: 0 };
+
+  const participants = holdings.filter(isRebalanceable);
+  const total = participants.reduce((sum, holding) => sum + Math.max(0, balances[holding.id] ?? 0), 0);
+  const totalWeight = participants.reduce((sum, holding) => sum + (weights[holding.id] ?? 0), 0);
+  if (total <= 0 || totalWeight <= 0) return result;
+
+  // 目標額との差（正数: 不足、負数: 超過）
+  const gaps: { [key: string]: number } = {};
+  participants.forEach(holding => {
+    const target = total * (weights[holding.id] ?? 0) / totalWeight;
+    gaps[holding.id] = target - Math.max(0, balances[holding.id] ?? 0);
+  });
+
+  // 超過分を売却
+  let proceeds = 0;
+  participants.forEach(holding => {
+    const excess = -gaps[holding.id];
+    if (excess <= 0) return;
+
+    const tax = calculateCapitalGainsTax(getAccountType(holding), excess, balances[holding.id], costBases[holding.id]);
+    result.trades[holding.id] = -excess;
+    result.capitalGainsTax += tax;
+    proceeds += excess - tax;
+  });
+
+  // 売却代金で不足分を購入（不足額の比率で配分）
+  const shortfalls: { [key: string]: number } = {};
+  participants.forEach(holding => {
+    if (gaps[holding.id] > 0) {
+      shortfalls[holding.id] = gaps[holding.id];
+    }
+  });
+  const allocations = allocateSurplus(proceeds, participants, shortfalls, costBases, annualUsage);
+
+  let invested = 0;
+  Object.keys(allocations).forEach(id => {
+    if (allocations[id] > 0) {
+      result.trades[id] = (result.trades[id] ?? 0) + allocations[id];
+      invested += allocations[id];
+    }
+  });
+  result.uninvested = Math.max(0, proceeds - invested);
+
+  return result;
+}
@@ -0,0 +1,167 @@
+import { calculateSeparateIncomeTax } from './income-tax';
+
+/**
+ * 退職所得（退職金・iDeCo一時金）の課税
+ *
+ * 退職所得 =（収入金額 − 退職所得控除額）× 1/2 を他の所得と分離して課税する。
+ * 同じ年に複数の退職一時金を受け取る場合は合算し、勤続期間（iDeCoは掛金の拠出期間）の
+ * 重複しない期間で退職所得控除を計算する。前年以前に受け取った退職一時金と期間が重なる場合は、
+ * 重複期間に対応する控除額を差し引く。
+ * 金額は円単位
+ */
+
+// 退職一時金の種類（退職金 / iDeCo一時金）
+export type RetirementLumpSumSource = 'allowance' | 'ideco';
+
+// 勤続年数20年以下の部分の1年あたりの退職所得控除額
+const DEDUCTION_PER_YEAR_UP_TO_20 = 400000;
+
+// 勤続年数20年超の部分の1年あたりの退職所得控除額
+const DEDUCTION_PER_YEAR_OVER_20 = 700000;
+
+// 退職所得控除額の最低額
+const MINIMUM_DEDUCTION = 800000;
+
+// 短期退職手当等（勤続5年以下）の判定年数
+const SHORT_SERVICE_YEARS = 5;
+
+// 短期退職手当等で1/2課税が適用される上限（控除後の金額）
+const SHORT_SERVICE_HALF_TAXATION_LIMIT = 3000000;
+
+// 退職所得に対する住民税率（分離課税）
+const RETIREMENT_RESIDENT_TAX_RATE = 0.10;
+
+// 前年以前に受け取った退職一時金と控除を調整する期間（年）
+// 退職金を受け取る場合は前4年内、iDeCo一時金を受け取る場合は前19年内
+const LOOKBACK_YEARS: Record<RetirementLumpSumSource, number> = {
+  'allowance': 4,
+  'ideco': 19,
+};
+
+// 退職一時金
+export interface RetirementLumpSum {
+  source: RetirementLumpSumSource;
+  amount: number; // 収入金額
+  serviceStartAge: number; // 勤続期間（iDeCoは掛金の拠出期間）の開始年齢
+  serviceEndAge: number; // 勤続期間の終了年齢
+}
+
+// 受け取り済みの退職一時金（翌年以降の控除調整に使用）
+export interface RetirementLumpSumReceipt {
+  source: RetirementLumpSumSource;
+  age: number; // 受け取った年齢
+  serviceStartAge: number;
+  serviceEndAge: number;
+}
+
+/**
+ * 退職所得控除額を計算
+ * @param yearsOfService 勤続年数（1年未満の端数は切り上げ）
+ * @returns 退職所得控除額
+ */
+export function calculateRetirementIncomeDeduction(yearsOfService: number): number {
+  const years = Math.ceil(Math.max(0, yearsOfService));
+  const deduction = years <= 20
+    ? DEDUCTION_PER_YEAR_UP_TO_20 * years
+    : DEDUCTION_PER_YEAR_UP_TO_20 * 20 + DEDUCTION_PER_YEAR_OVER_20 * (years - 20);
+  return Math.max(MINIMUM_DEDUCTION, deduction);
+}
+
+/**
+ * 退職所得の金額を計算（1/2課税、勤続5年以下は300万円を超える部分を全額課税）
+ * @param amount 収入金額
+ * @param deduction 退職所得控除額
+ * @param yearsOfService 勤続年数
+ * @returns 退職所得の金額（1,000円未満切り捨て）
+ */
+export function calculateRetirementIncome(amount: number, deduction: number, yearsOfService: number): number {
+  const excess = Math.max(0, amount - deduction);
+  const income = Math.ceil(yearsOfService) <= SHORT_SERVICE_YEARS && excess > SHORT_SERVICE_HALF_TAXATION_LIMIT
+    ? SHORT_SERVICE_HALF_TAXATION_LIMIT / 2 + (excess - SHORT_SERVICE_HALF_TAXATION_LIMIT)
+    : excess / 2;
+  return Math.floor(income / 1000) * 1000;
+}
+
+/**
+ * 期間の和集合の長さ（年）を計算
+ */
+function calculateUnionYears(periods: Array<{ start: number; end: number }>): number {
+  const sorted = periods.filter(p => p.end > p.start).sort((a, b) => a.start - b.start);
+  let total = 0;
+  let coveredUntil = -Infinity;
+  sorted.forEach(({ start, end }) => {
+    const from = Math.max(start, coveredUntil);
+    if (end > from) {
+      total += end - from;
+      coveredUntil = end;
+    }
+  });
+  return total;
+}
+
+/**
+ * 2つの期間の重複する長さ（年）を計算
+ */
+function calculateOverlapYears(
+  a: { start: number; end: number },
+  b: { start: number; end: number }
+): number {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
+
+/**
+ * 同じ年に受け取る退職一時金の税額（所得税・住民税）を計算
+ * @param lumpSums 当年に受け取る退職一時金
+ * @param age 受け取る年齢
+ * @param history 前年以前に受け取った退職一時金
+ * @returns 退職一時金ごとの税額（収入金額で按分、lumpSumsと同じ順序）
+ */
+export function calculateRetirementLumpSumTaxes(
+  lumpSums: RetirementLumpSum[],
+  age: number,
+  history: RetirementLumpSumReceipt[]
+): number[] {
+  const totalAmount = lumpSums.reduce((sum, lumpSum) => sum + lumpSum.amount, 0);
+  if (totalAmount <= 0) return lumpSums.map(() => 0);
+
+  // 重複しない勤続期間で退職所得控除を計算
+  const periods = lumpSums.map(lumpSum => ({ start: lumpSum.serviceStartAge, end: lumpSum.serviceEndAge }));
+  const yearsOfService = calculateUnionYears(periods);
+  let deduction = calculateRetirementIncomeDeduction(yearsOfService);
+
+  // 前年以前に受け取った退職一時金と期間が重なる場合は、重複期間の控除額を差し引く
+  const lookbackYears = Math.max(...lumpSums.map(lumpSum => LOOKBACK_YEARS[lumpSum.source]));
+  const currentPeriod = {
+    start: Math.min(...periods.map(p => p.start)),
+    end: Math.max(...periods.map(p => p.end)),
+  };
+  const overlapYears = history
+    .filter(receipt => receipt.age < age && age - receipt.age <= lookbackYears)
+    .reduce((sum, receipt) =>
+      sum + calculateOverlapYears(currentPeriod, { start: receipt.serviceStartAge, end: receipt.serviceEndAge }), 0
+    );
+  if (overlapYears > 0) {
+    const overlapDeduction = DEDUCTION_PER_YEAR_UP_TO_20 * Math.ceil(Math.min(overlapYears, 20))
+      + DEDUCTION_PER_YEAR_OVER_20 * Math.ceil(Math.max(0, overlapYears - 20));
+    deduction = Math.max(MINIMUM_DEDUCTION, deduction - overlapDeduction);
+  }
+
+  const retirementIncome = calculateRetirementIncome(totalAmount, deduction, yearsOfService);
+  const totalTax = calculateSeparateIncomeTax(retirementIncome) + retirementIncome * RETIREMENT_RESIDENT_TAX_RATE;
+
+  return lumpSums.map(lumpSum => totalTax * lumpSum.amount / totalAmount);
+}
+
+/**
+ * 退職金を単独で受け取る場合の税額（所得税・住民税）を計算
+ * @param amount 収入金額
+ * @param yearsOfService 勤続年数
+ * @returns 税額
+ */
+export function calculateRetirementAllowanceTax(amount: number, yearsOfService: number): number {
+  return calculateRetirementLumpSumTaxes(
+    [{ source: 'allowance', amount, serviceStartAge: 0, serviceEndAge: yearsOfService }],
+    0,
+    []
+  )[0];
+}
@@ -0,0 +1,163 @@
+import { SalaryGrowthModel, SalaryGrowthPoint, SalaryPlan, WageCensusProfile } from './types';
+
+/**
+ * 給与の昇給モデル
+ *
+ * 給与プランの年収は「基準年齢（現在の年齢、または支給開始年齢が先の場合は支給開始年齢）」
+ * 時点の金額とし、各年齢の年収は昇給モデルの倍率を掛けて求める。
+ * 昇給はインフレとは別の実質的な増減で、インフレ率による調整はこの後に掛ける。
+ */
+
+// 昇給モデルの表示名
+export const SALARY_GROWTH_LABELS: Record<SalaryGrowthModel['type'], string> = {
+  'none': 'なし',
+  'fixed': '定率',
+  'table': '年齢別',
+  'wage-census': '賃金統計',
+};
+
+// 賃金カーブの区分の表示名
+export const WAGE_CENSUS_PROFILE_LABELS: Record<WageCensusProfile, string> = {
+  'all': '男女計',
+  'male': '男性',
+  'female': '女性',
+};
+
+// 賃金構造基本統計調査（令和5年、一般労働者）の年齢階級別所定内給与額（千円、概算）
+// 年齢は各年齢階級の中央値
+const WAGE_CENSUS_CURVES: Record<WageCensusProfile, SalaryGrowthPoint[]> = {
+  'all': [
+    { age: 18, index: 190 },
+    { age: 22, index: 227 },
+    { age: 27, index: 261 },
+    { age: 32, index: 294 },
+    { age: 37, index: 325 },
+    { age: 42, index: 348 },
+    { age: 47, index: 366 },
+    { age: 52, index: 384 },
+    { age: 57, index: 385 },
+    { age: 62, index: 309 },
+    { age: 67, index: 265 },
+  ],
+  'male': [
+    { age: 18, index: 195 },
+    { age: 22, index: 231 },
+    { age: 27, index: 270 },
+    { age: 32, index: 312 },
+    { age: 37, index: 353 },
+    { age: 42, index: 385 },
+    { age: 47, index: 411 },
+    { age: 52, index: 441 },
+    { age: 57, index: 444 },
+    { age: 62, index: 344 },
+    { age: 67, index: 286 },
+  ],
+  'female': [
+    { age: 18, index: 185 },
+    { age: 22, index: 221 },
+    { age: 27, index: 248 },
+    { age: 32, index: 264 },
+    { age: 37, index: 276 },
+    { age: 42, index: 287 },
+    { age: 47, index: 293 },
+    { age: 52, index: 296 },
+    { age: 57, index: 292 },
+    { age: 62, index: 248 },
+    { age: 67, index: 216 },
+  ],
+};
+
+/**
+ * 賃金カーブを取得
+ * @param profile 賃金カーブの区分
+ * @returns 年齢別の賃金指数
+ */
+export function getWageCensusCurve(profile: WageCensusProfile = 'all'): SalaryGrowthPoint[] {
+  return WAGE_CENSUS_CURVES[profile];
+}
+
+/**
+ * 年齢別の賃金指数を線形補間で求める（範囲外は端の値）
+ */
+function interpolateIndex(points: SalaryGrowthPoint[], age: number): number {
+  const sorted = points.slice().sort((a, b) => a.age - b.age);
+  if (sorted.length === 0) return 1;
+  if (age <= sorted[0].age) return sorted[0].index;
+
+  const last = sorted[sorted.length - 1];
+  if (age >= last.age) return last.index;
+
+  const nextIndex = sorted.findIndex(point => point.age > age);
+  const prev = sorted[nextIndex - 1];
+  const next = sorted[nextIndex];
+  return prev.index + (next.index - prev.index) * (age - prev.age) / (next.age - prev.age);
+}
+
+/**
+ * 給与プランの基準年齢（年収を入力した時点の年齢）を取得
+ * @param plan 給与プラン
+ * @param currentAge 現在の年齢
+ */
+export function getSalaryBaseAge(plan: SalaryPlan, currentAge: number): number {
+  return Math.max(currentAge, plan.startAge);
+}
+
+/**
+ * 基準年齢に対する指定年齢の年収倍率を計算
+ * @param growth 昇給モデル
+ * @param age 年齢
+ * @param baseAge 基準年齢
+ * @returns 年収倍率（インフレ調整前）
+ */
+export function calculateSalaryGrowthFactor(
+  growth: SalaryGrowthModel | undefined,
+  age: number,
+  baseAge: number
+): number {
+  switch (growth?.type) {
+    case 'fixed':
+      return Math.pow(1 + (growth.annualRaise ?? 0) / 100, age - baseAge);
+
+    case 'table':
+    case 'wage-census': {
+      const points = growth.type === 'table'
+        ? growth.table ?? []
+        : getWageCensusCurve(growth.wageCensusProfile);
+      if (points.length === 0) return 1;
+
+      const baseIndex = interpolateIndex(points, baseAge);
+      return baseIndex > 0 ? Math.max(0, interpolateIndex(points, age) / baseIndex) : 1;
+    }
+
+    default:
+      return 1;
+  }
+}
+
+/**
+ * 昇給を反映した指定年齢の年収を計算（インフレ調整前）
+ * @param plan 給与プラン
+ * @param age 年齢
+ * @param currentAge 現在の年齢
+ * @returns 年収（円）
+ */
+export function projectSalary(plan: SalaryPlan, age: number, currentAge: number): number {
+  const baseAge = getSalaryBaseAge(plan, currentAge);
+  return (plan.annualAmount ?? 0) * calculateSalaryGrowthFactor(plan.growth, age, baseAge);
+}
+
+/**
+ * 支給期間の平均年収を計算（昇給を反映、インフレ調整前）
+ * @param plan 給与プラン
+ * @param currentAge 現在の年齢
+ * @returns 平均年収（円）
+ */
+export function calculateAverageProjectedSalary(plan: SalaryPlan, currentAge: number): number {
+  const startAge = getSalaryBaseAge(plan, currentAge);
+  const endAge = Math.max(startAge, plan.endAge);
+  let total = 0;
+  for (let age = startAge; age <= endAge; age++) {
+    total += projectSalary(plan, age, currentAge);
+  }
+  return total / (endAge - startAge + 1);
+}
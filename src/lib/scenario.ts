@@ -0,0 +1,48 @@
+import { FireCalculationInput, FireCalculationResult, FireCalculator } from './fire-calculator';
+import { Scenario, ScenarioComparison } from './types';
+
+// 同時に比較できるシナリオ数
+export const MIN_COMPARED_SCENARIOS = 2;
+export const MAX_COMPARED_SCENARIOS = 4;
+
+/**
+ * シナリオを作成
+ * @param name シナリオ名
+ * @param input 計算入力（複製元の計画）
+ */
+export function createScenario(name: string, input: FireCalculationInput): Scenario {
+  const now = new Date().toISOString();
+  return {
+    id: Date.now().toString(),
+    name,
+    input,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * FIRE達成年齢の早い順に比較する値（達成できない場合は最も遅い扱い、同じ年齢なら想定寿命時点の資産が多い順）
+ */
+function compareFireResults(a: FireCalculationResult, b: FireCalculationResult): number {
+  const fireAge = (result: FireCalculationResult) => result.yearsToFire < 0 ? Infinity : result.fireAge;
+  if (fireAge(a) !== fireAge(b)) return fireAge(a) - fireAge(b);
+  return b.projectedAssets - a.projectedAssets;
+}
+
+/**
+ * シナリオを比較
+ * @param scenarios 比較するシナリオ
+ * @param inputs シナリオごとの計算入力（為替レート・子供の教育費などを反映済み、scenariosと同じ順）
+ */
+export function compareScenarios(scenarios: Scenario[], inputs: FireCalculationInput[]): ScenarioComparison {
+  const results = FireCalculator.compareScenarios(inputs);
+  const ranked = [...results].sort(compareFireResults);
+  return {
+    scenarios,
+    results,
+    bestCase: ranked[0],
+    worstCase: ranked[ranked.length - 1],
+    averageCase: ranked[Math.floor((ranked.length - 1) / 2)],
+  };
+}
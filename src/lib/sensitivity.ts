@@ -0,0 +1,120 @@
+import { DEFAULT_MAX_WORKING_AGE, FireCalculationInput, FireCalculationResult, FireCalculator } from './fire-calculator';
+import { SensitivityDriver, SensitivityMetric, SensitivityOutcome, SensitivityResult } from './types';
+import { getInflationFactor, shiftInflation } from './inflation';
+
+/**
+ * 感度分析（トルネードチャート用）
+ *
+ * 主要な要因を1つずつ±変化幅だけ動かしてFIRE計算をやり直し、
+ * FIRE達成年齢と想定寿命時点の資産への影響の大きい順に並べる。
+ */
+
+// 要因の表示名
+export const SENSITIVITY_DRIVER_LABELS: Record<SensitivityDriver, string> = {
+  'return': '期待リターン',
+  'inflation': 'インフレ率',
+  'expenses': '生活費',
+  'salary': '年収',
+  'life-expectancy': '想定寿命',
+  'exchange-rate': '為替レート',
+  'pension': '年金額',
+};
+
+// 変化幅の単位
+export const SENSITIVITY_DELTA_UNITS: Record<SensitivityDriver, string> = {
+  'return': '%pt',
+  'inflation': '%pt',
+  'expenses': '%',
+  'salary': '%',
+  'life-expectancy': '年',
+  'exchange-rate': '%',
+  'pension': '%',
+};
+
+// 変化幅の既定値
+export const DEFAULT_SENSITIVITY_DELTAS: Record<SensitivityDriver, number> = {
+  'return': 1,
+  'inflation': 1,
+  'expenses': 10,
+  'salary': 10,
+  'life-expectancy': 5,
+  'exchange-rate': 10,
+  'pension': 10,
+};
+
+// 要因ごとのインパクト分析（変化幅の配列に対する計算結果を返す）
+const DRIVER_ANALYZERS: Record<SensitivityDriver, (input: FireCalculationInput, changes: number[]) => FireCalculationResult[]> = {
+  'return': (input, changes) => FireCalculator.analyzeReturnImpact(input, changes),
+  'inflation': (input, changes) => FireCalculator.analyzeInflationImpact(input, changes),
+  'expenses': (input, changes) => FireCalculator.analyzeExpenseImpact(input, changes),
+  'salary': (input, changes) => FireCalculator.analyzeSavingsRateImpact(input, changes),
+  'life-expectancy': (input, changes) => FireCalculator.analyzeLifeExpectancyImpact(input, changes),
+  'exchange-rate': (input, changes) => FireCalculator.analyzeExchangeRateImpact(input, changes),
+  'pension': (input, changes) => FireCalculator.analyzePensionImpact(input, changes),
+};
+
+/**
+ * FIRE計算結果を感度分析の指標に変換
+ * @param result FIRE計算結果
+ * @param input 計算に使った入力（インフレ率で想定寿命時点の資産を現在価値に換算）
+ */
+export function toSensitivityOutcome(result: FireCalculationResult, input: FireCalculationInput): SensitivityOutcome {
+  const inflationFactor = getInflationFactor(input, result.projections.length - 1);
+  return {
+    fireAge: result.yearsToFire < 0 ? null : result.fireAge,
+    terminalAssets: result.projectedAssets / inflationFactor,
+  };
+}
+
+/**
+ * 要因ごとに±変化幅で感度分析を実行
+ * @param input 計算入力
+ * @param deltas 要因ごとの変化幅（0の要因は分析しない）
+ */
+export function runSensitivityAnalysis(
+  input: FireCalculationInput,
+  deltas: Record<SensitivityDriver, number>
+): SensitivityResult[] {
+  return (Object.keys(DRIVER_ANALYZERS) as SensitivityDriver[])
+    .filter(driver => deltas[driver] > 0)
+    .map(driver => {
+      const delta = deltas[driver];
+      const [lowResult, highResult] = DRIVER_ANALYZERS[driver](input, [-delta, delta]);
+      const inflationOffset = driver === 'inflation' ? delta : 0;
+      return {
+        driver,
+        delta,
+        low: toSensitivityOutcome(lowResult, shiftInflation(input, -inflationOffset)),
+        high: toSensitivityOutcome(highResult, shiftInflation(input, inflationOffset)),
+      };
+    });
+}
+
+/**
+ * 指標の値を取得（FIRE達成年齢は、達成できない場合を働ける上限年齢の翌年として扱う）
+ */
+export function getSensitivityMetricValue(
+  outcome: SensitivityOutcome,
+  metric: SensitivityMetric,
+  maxWorkingAge: number = DEFAULT_MAX_WORKING_AGE
+): number {
+  if (metric === 'terminal-assets') return outcome.terminalAssets;
+  return outcome.fireAge ?? maxWorkingAge + 1;
+}
+
+/**
+ * 指標への影響の大きい順に並べる
+ * @param results 感度分析の結果
+ * @param metric 評価指標
+ * @param maxWorkingAge 働ける上限年齢（FIRE達成できない場合の扱いに使用）
+ */
+export function rankSensitivityResults(
+  results: SensitivityResult[],
+  metric: SensitivityMetric,
+  maxWorkingAge: number = DEFAULT_MAX_WORKING_AGE
+): SensitivityResult[] {
+  const swing = (result: SensitivityResult) => Math.abs(
+    getSensitivityMetricValue(result.high, metric, maxWorkingAge) - getSensitivityMetricValue(result.low, metric, maxWorkingAge)
+  );
+  return [...results].sort((a, b) => swing(b) - swing(a));
+}
@@ -1,6 +1,8 @@
 import { FireCalculationInput } from './fire-calculator';
+import { ScenarioStore } from './types';
 
 const STORAGE_KEY = 'flickercast-data';
+const SCENARIOS_STORAGE_KEY = 'flickercast-scenarios';
 
 /**
  * ローカルストレージにデータを保存
@@ -43,6 +45,36 @@ export function clearLocalStorage(): void {
   }
 }
 
+/**
+ * シナリオの一覧をローカルストレージに保存
+ */
+export function saveScenariosToLocalStorage(store: ScenarioStore): void {
+  try {
+    const serialized = JSON.stringify(store);
+    localStorage.setItem(SCENARIOS_STORAGE_KEY, serialized);
+  } catch (error) {
+    console.error('シナリオの保存に失敗しました:', error);
+  }
+}
+
+/**
+ * ローカルストレージからシナリオの一覧を読み込み
+ */
+export function loadScenariosFromLocalStorage(): ScenarioStore | null {
+  try {
+    const serialized = localStorage.getItem(SCENARIOS_STORAGE_KEY);
+    if (!serialized) {
+      return null;
+    }
+
+    const data = JSON.parse(serialized) as ScenarioStore;
+    return validateScenarioStore(data) ? data : null;
+  } catch (error) {
+    console.error('シナリオの読み込みに失敗しました:', error);
+    return null;
+  }
+}
+
 /**
  * JSONファイルとしてエクスポート
  */
@@ -100,6 +132,37 @@ export function importFromJson(file: File): Promise<FireCalculationInput> {
   });
 }
 
+/**
+ * ScenarioStoreの型バリデーション
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+function validateScenarioStore(data: any): data is ScenarioStore {
+  if (!data || typeof data !== 'object' || typeof data.activeScenarioId !== 'string') {
+    console.error('バリデーションエラー: activeScenarioId は文字列である必要があります', data);
+    return false;
+  }
+  if (!Array.isArray(data.scenarios) || data.scenarios.length === 0) {
+    console.error('バリデーションエラー: scenariosは1件以上の配列である必要があります', data.scenarios);
+    return false;
+  }
+  for (let i = 0; i < data.scenarios.length; i++) {
+    const scenario = data.scenarios[i];
+    if (!scenario || typeof scenario.id !== 'string' || typeof scenario.name !== 'string') {
+      console.error(`バリデーションエラー: scenarios[${i}] の id・name は文字列である必要があります`, scenario);
+      return false;
+    }
+    if (!validateFireCalculationInput(scenario.input)) {
+      console.error(`バリデーションエラー: scenarios[${i}].input が不正です`);
+      return false;
+    }
+  }
+  if (!data.scenarios.some((scenario: { id: string }) => scenario.id === data.activeScenarioId)) {
+    console.error(`バリデーションエラー: activeScenarioId (${data.activeScenarioId}) のシナリオが見つかりません`);
+    return false;
+  }
+  return true;
+}
+
 /**
  * FireCalculationInputの型バリデーション
  */
@@ -192,6 +255,30 @@ function validateFireCalculationInput(data: any): data is FireCalculationInput {
       console.error(`バリデーションエラー: assetHoldings[${i}].currency は 'JPY' または 'USD' である必要があります (実際の値: ${holding.currency})`);
       return false;
     }
+
+    // acquisitionPriceはオプショナル、存在する場合は数値チェック
+    if ('acquisitionPrice' in holding && typeof holding.acquisitionPrice !== 'number') {
+      console.error(`バリデーションエラー: assetHoldings[${i}].acquisitionPrice は数値である必要があります (実際の値: ${holding.acquisitionPrice}, 型: ${typeof holding.acquisitionPrice})`);
+      return false;
+    }
+
+    // accountTypeはオプショナル、存在する場合は値チェック
+    if ('accountType' in holding && !['taxable', 'nisa-tsumitate', 'nisa-growth', 'ideco'].includes(holding.accountType)) {
+      console.error(`バリデーションエラー: assetHoldings[${i}].accountType は 'taxable'、'nisa-tsumitate'、'nisa-growth'、'ideco' のいずれかである必要があります (実際の値: ${holding.accountType})`);
+      return false;
+    }
+
+    // assetClassはオプショナル、存在する場合は値チェック
+    if ('assetClass' in holding && !['STOCK', 'BOND', 'REAL_ESTATE', 'CASH', 'CRYPTO', 'COMMODITY', 'OTHER'].includes(holding.assetClass)) {
+      console.error(`バリデーションエラー: assetHoldings[${i}].assetClass が不正です (実際の値: ${holding.assetClass})`);
+      return false;
+    }
+
+    // targetAllocationはオプショナル、存在する場合は数値チェック
+    if ('targetAllocation' in holding && typeof holding.targetAllocation !== 'number') {
+      console.error(`バリデーションエラー: assetHoldings[${i}].targetAllocation は数値である必要があります (実際の値: ${holding.targetAllocation}, 型: ${typeof holding.targetAllocation})`);
+      return false;
+    }
   }
   
   // loansの配列チェック
@@ -276,6 +363,27 @@ function validateFireCalculationInput(data: any): data is FireCalculationInput {
       console.error(`バリデーションエラー: pensionPlans[${i}].annualAmount は数値である必要があります (実際の値: ${pension.annualAmount}, 型: ${typeof pension.annualAmount})`);
       return false;
     }
+
+    // kindはオプショナル、存在する場合は値チェック
+    if ('kind' in pension && !['other', 'basic', 'employees'].includes(pension.kind)) {
+      console.error(`バリデーションエラー: pensionPlans[${i}].kind は 'other'、'basic'、'employees' のいずれかである必要があります (実際の値: ${pension.kind})`);
+      return false;
+    }
+
+    // indexationはオプショナル、存在する場合は構造チェック
+    if ('indexation' in pension) {
+      const indexation = pension.indexation;
+      if (!indexation || typeof indexation !== 'object' || !['cpi', 'macro-slide', 'fixed'].includes(indexation.type)) {
+        console.error(`バリデーションエラー: pensionPlans[${i}].indexation.type は 'cpi'、'macro-slide'、'fixed' のいずれかである必要があります`, indexation);
+        return false;
+      }
+      for (const field of ['slideRate', 'slideYears']) {
+        if (field in indexation && typeof indexation[field] !== 'number') {
+          console.error(`バリデーションエラー: pensionPlans[${i}].indexation.${field} は数値である必要があります (実際の値: ${indexation[field]})`);
+          return false;
+        }
+      }
+    }
   }
 
   // salaryPlansの配列チェック
@@ -318,6 +426,37 @@ function validateFireCalculationInput(data: any): data is FireCalculationInput {
       console.error(`バリデーションエラー: salaryPlans[${i}].annualAmount は数値である必要があります (実際の値: ${salary.annualAmount}, 型: ${typeof salary.annualAmount})`);
       return false;
     }
+
+    // amountTypeはオプショナル、存在する場合は値チェック
+    if ('amountType' in salary && !['gross', 'net'].includes(salary.amountType)) {
+      console.error(`バリデーションエラー: salaryPlans[${i}].amountType は 'gross' または 'net' である必要があります (実際の値: ${salary.amountType})`);
+      return false;
+    }
+
+    // growthはオプショナル、存在する場合は構造チェック
+    if ('growth' in salary) {
+      const growth = salary.growth;
+      if (!growth || typeof growth !== 'object' || !['none', 'fixed', 'table', 'wage-census'].includes(growth.type)) {
+        console.error(`バリデーションエラー: salaryPlans[${i}].growth.type が不正です`, growth);
+        return false;
+      }
+
+      if ('annualRaise' in growth && typeof growth.annualRaise !== 'number') {
+        console.error(`バリデーションエラー: salaryPlans[${i}].growth.annualRaise は数値である必要があります (実際の値: ${growth.annualRaise}, 型: ${typeof growth.annualRaise})`);
+        return false;
+      }
+
+      if ('table' in growth && (!Array.isArray(growth.table) ||
+        growth.table.some((point: { age?: unknown; index?: unknown }) => typeof point?.age !== 'number' || typeof point?.index !== 'number'))) {
+        console.error(`バリデーションエラー: salaryPlans[${i}].growth.table が不正です`, growth.table);
+        return false;
+      }
+
+      if ('wageCensusProfile' in growth && !['all', 'male', 'female'].includes(growth.wageCensusProfile)) {
+        console.error(`バリデーションエラー: salaryPlans[${i}].growth.wageCensusProfile が不正です (実際の値: ${growth.wageCensusProfile})`);
+        return false;
+      }
+    }
   }
 
   // specialExpensesの配列チェック
@@ -398,6 +537,18 @@ function validateFireCalculationInput(data: any): data is FireCalculationInput {
       console.error(`バリデーションエラー: specialIncomes[${i}].targetAge は数値である必要があります (実際の値: ${income.targetAge}, 型: ${typeof income.targetAge})`);
       return false;
     }
+
+    // kindはオプショナル、存在する場合は値チェック
+    if ('kind' in income && !['other', 'retirement-allowance'].includes(income.kind)) {
+      console.error(`バリデーションエラー: specialIncomes[${i}].kind は 'other'、'retirement-allowance' のいずれかである必要があります (実際の値: ${income.kind})`);
+      return false;
+    }
+
+    // yearsOfServiceはオプショナル、存在する場合は数値チェック
+    if ('yearsOfService' in income && typeof income.yearsOfService !== 'number') {
+      console.error(`バリデーションエラー: specialIncomes[${i}].yearsOfService は数値である必要があります (実際の値: ${income.yearsOfService}, 型: ${typeof income.yearsOfService})`);
+      return false;
+    }
   }
 
   // expenseSegmentsの配列チェック
@@ -434,6 +585,356 @@ function validateFireCalculationInput(data: any): data is FireCalculationInput {
       });
       return false;
     }
+
+    // 費目別の内訳のチェック（オプショナル）
+    if ('components' in segment && segment.components !== undefined) {
+      if (!Array.isArray(segment.components)) {
+        console.error(`バリデーションエラー: expenseSegments[${i}].components は配列である必要があります`, segment.components);
+        return false;
+      }
+
+      for (let j = 0; j < segment.components.length; j++) {
+        const component = segment.components[j];
+        if (!component || typeof component !== 'object' ||
+            typeof component.category !== 'string' ||
+            typeof component.monthlyAmount !== 'number') {
+          console.error(`バリデーションエラー: expenseSegments[${i}].components[${j}]の構造が不正です`, component);
+          return false;
+        }
+      }
+    }
+
+    // 裁量的な支出のチェック（オプショナル）
+    if ('discretionaryExpenses' in segment && segment.discretionaryExpenses !== undefined && typeof segment.discretionaryExpenses !== 'number') {
+      console.error(`バリデーションエラー: expenseSegments[${i}].discretionaryExpenses は数値である必要があります (実際の値: ${segment.discretionaryExpenses}, 型: ${typeof segment.discretionaryExpenses})`);
+      return false;
+    }
+  }
+
+  // expenseInflationDifferentialsのチェック（オプショナル）
+  if ('expenseInflationDifferentials' in data && data.expenseInflationDifferentials !== undefined) {
+    const differentials = data.expenseInflationDifferentials;
+    if (!differentials || typeof differentials !== 'object' ||
+        Object.values(differentials).some(value => typeof value !== 'number')) {
+      console.error('バリデーションエラー: expenseInflationDifferentials の構造が不正です', differentials);
+      return false;
+    }
+  }
+
+  // flexibleSpendingのチェック（オプショナル）
+  if ('flexibleSpending' in data && data.flexibleSpending !== undefined) {
+    const flexibleSpending = data.flexibleSpending;
+    if (!flexibleSpending || typeof flexibleSpending !== 'object' || typeof flexibleSpending.cutRate !== 'number') {
+      console.error('バリデーションエラー: flexibleSpending の構造が不正です', flexibleSpending);
+      return false;
+    }
+
+    for (const field of ['drawdownThreshold', 'withdrawalRateThreshold']) {
+      if (field in flexibleSpending && flexibleSpending[field] !== undefined && typeof flexibleSpending[field] !== 'number') {
+        console.error(`バリデーションエラー: flexibleSpending.${field} は数値である必要があります (実際の値: ${flexibleSpending[field]}, 型: ${typeof flexibleSpending[field]})`);
+        return false;
+      }
+    }
+  }
+
+  // expenseBudgetのチェック（オプショナル）
+  if ('expenseBudget' in data && data.expenseBudget !== undefined) {
+    const budget = data.expenseBudget;
+    if (!budget || typeof budget !== 'object' ||
+        typeof budget.retirementAge !== 'number' ||
+        !Array.isArray(budget.items)) {
+      console.error('バリデーションエラー: expenseBudget の構造が不正です', budget);
+      return false;
+    }
+
+    // 予算から支出区間を作成する前の支出区間のチェック（オプショナル）
+    if ('manualSegments' in budget && budget.manualSegments !== undefined) {
+      if (!Array.isArray(budget.manualSegments)) {
+        console.error('バリデーションエラー: expenseBudget.manualSegments は配列である必要があります', budget.manualSegments);
+        return false;
+      }
+
+      for (let i = 0; i < budget.manualSegments.length; i++) {
+        const segment = budget.manualSegments[i];
+        if (!segment || typeof segment !== 'object' ||
+            typeof segment.id !== 'string' ||
+            typeof segment.startAge !== 'number' ||
+            typeof segment.endAge !== 'number' ||
+            typeof segment.monthlyExpenses !== 'number') {
+          console.error(`バリデーションエラー: expenseBudget.manualSegments[${i}]の構造が不正です`, segment);
+          return false;
+        }
+      }
+    }
+
+    const frequencies = ['MONTHLY', 'QUARTERLY', 'ANNUALLY'];
+    for (let i = 0; i < budget.items.length; i++) {
+      const expense = budget.items[i];
+      if (!expense || typeof expense !== 'object' ||
+          typeof expense.id !== 'string' ||
+          typeof expense.category !== 'string' ||
+          typeof expense.name !== 'string' ||
+          typeof expense.amount !== 'number' ||
+          !frequencies.includes(expense.frequency) ||
+          typeof expense.isEssential !== 'boolean' ||
+          typeof expense.retirementMultiplier !== 'number') {
+        console.error(`バリデーションエラー: expenseBudget.items[${i}]の構造が不正です`, expense);
+        return false;
+      }
+    }
+  }
+
+  // inflationScheduleのチェック（オプショナル）
+  if ('inflationSchedule' in data) {
+    if (!Array.isArray(data.inflationSchedule)) {
+      console.error('バリデーションエラー: inflationScheduleは配列である必要があります', data.inflationSchedule);
+      return false;
+    }
+
+    for (let i = 0; i < data.inflationSchedule.length; i++) {
+      const segment = data.inflationSchedule[i];
+      if (!segment || typeof segment !== 'object' ||
+          typeof segment.id !== 'string' ||
+          typeof segment.startAge !== 'number' ||
+          typeof segment.endAge !== 'number' ||
+          typeof segment.rate !== 'number') {
+        console.error(`バリデーションエラー: inflationSchedule[${i}]の構造が不正です`, segment);
+        return false;
+      }
+    }
+  }
+
+  // withdrawalStrategyのチェック（オプショナル）
+  if ('withdrawalStrategy' in data) {
+    const strategy = data.withdrawalStrategy;
+    const strategyTypes = [
+      'lowest-return-first', 'highest-return-first', 'pro-rata', 'tax-efficient',
+      'constant-percentage', 'guyton-klinger', 'vpw'
+    ];
+    if (!strategy || typeof strategy !== 'object' || !strategyTypes.includes(strategy.type)) {
+      console.error('バリデーションエラー: withdrawalStrategy.type が不正です', strategy);
+      return false;
+    }
+
+    for (const field of ['withdrawalRate', 'guardrailThreshold', 'adjustmentRate']) {
+      if (field in strategy && typeof strategy[field] !== 'number') {
+        console.error(`バリデーションエラー: withdrawalStrategy.${field} は数値である必要があります (実際の値: ${strategy[field]}, 型: ${typeof strategy[field]})`);
+        return false;
+      }
+    }
+  }
+
+  // assetClassTargetsのチェック（オプショナル）
+  if ('assetClassTargets' in data) {
+    const targets = data.assetClassTargets;
+    if (!targets || typeof targets !== 'object') {
+      console.error('バリデーションエラー: assetClassTargets はオブジェクトである必要があります', targets);
+      return false;
+    }
+
+    for (const [assetClass, target] of Object.entries(targets)) {
+      if (!['STOCK', 'BOND', 'REAL_ESTATE', 'CASH', 'CRYPTO', 'COMMODITY', 'OTHER'].includes(assetClass) || typeof target !== 'number') {
+        console.error(`バリデーションエラー: assetClassTargets.${assetClass} が不正です (実際の値: ${target})`);
+        return false;
+      }
+    }
+  }
+
+  // rebalancingのチェック（オプショナル）
+  if ('rebalancing' in data) {
+    const rebalancing = data.rebalancing;
+    if (!rebalancing || typeof rebalancing !== 'object' || !['none', 'periodic', 'threshold'].includes(rebalancing.method)) {
+      console.error('バリデーションエラー: rebalancing.method が不正です', rebalancing);
+      return false;
+    }
+
+    for (const field of ['intervalYears', 'toleranceBand']) {
+      if (field in rebalancing && typeof rebalancing[field] !== 'number') {
+        console.error(`バリデーションエラー: rebalancing.${field} は数値である必要があります (実際の値: ${rebalancing[field]}, 型: ${typeof rebalancing[field]})`);
+        return false;
+      }
+    }
+  }
+
+  // simulationResolutionのチェック（オプショナル）
+  if ('simulationResolution' in data && !['yearly', 'monthly'].includes(data.simulationResolution)) {
+    console.error(`バリデーションエラー: simulationResolution は 'yearly' または 'monthly' である必要があります (実際の値: ${data.simulationResolution})`);
+    return false;
+  }
+
+  // birthMonthのチェック（オプショナル）
+  if ('birthMonth' in data && (typeof data.birthMonth !== 'number' || data.birthMonth < 1 || data.birthMonth > 12)) {
+    console.error(`バリデーションエラー: birthMonth は1〜12の数値である必要があります (実際の値: ${data.birthMonth})`);
+    return false;
+  }
+
+  // idecoLumpSumのチェック（オプショナル）
+  if ('idecoLumpSum' in data) {
+    const idecoLumpSum = data.idecoLumpSum;
+    if (!idecoLumpSum || typeof idecoLumpSum !== 'object' ||
+        typeof idecoLumpSum.age !== 'number' ||
+        typeof idecoLumpSum.enrollmentAge !== 'number') {
+      console.error('バリデーションエラー: idecoLumpSum は age と enrollmentAge を数値で持つオブジェクトである必要があります', idecoLumpSum);
+      return false;
+    }
+  }
+
+  // postRetirementInsuranceのチェック（オプショナル）
+  if ('postRetirementInsurance' in data) {
+    const settings = data.postRetirementInsurance;
+    if (!settings || typeof settings !== 'object' ||
+        typeof settings.enabled !== 'boolean' ||
+        !['nhi', 'voluntary', 'cheaper'].includes(settings.healthInsurance)) {
+      console.error('バリデーションエラー: postRetirementInsurance の enabled は真偽値、healthInsurance は \'nhi\'、\'voluntary\'、\'cheaper\' のいずれかである必要があります', settings);
+      return false;
+    }
+    if ('householdMembers' in settings && typeof settings.householdMembers !== 'number') {
+      console.error(`バリデーションエラー: postRetirementInsurance.householdMembers は数値である必要があります (実際の値: ${settings.householdMembers})`);
+      return false;
+    }
+    if ('nhiRates' in settings) {
+      const rateFields = ['incomeRate', 'perCapitaAmount', 'annualLimit', 'nursingCareIncomeRate', 'nursingCarePerCapitaAmount', 'nursingCareAnnualLimit'];
+      if (!settings.nhiRates || typeof settings.nhiRates !== 'object' ||
+          rateFields.some(field => typeof settings.nhiRates[field] !== 'number')) {
+        console.error('バリデーションエラー: postRetirementInsurance.nhiRates の各料率は数値である必要があります', settings.nhiRates);
+        return false;
+      }
+    }
+  }
+
+  // spouseのチェック（オプショナル）
+  if ('spouse' in data) {
+    const spouse = data.spouse;
+    if (!spouse || typeof spouse !== 'object' ||
+        typeof spouse.currentAge !== 'number' ||
+        typeof spouse.lifeExpectancy !== 'number') {
+      console.error('バリデーションエラー: spouse は currentAge と lifeExpectancy を数値で持つオブジェクトである必要があります', spouse);
+      return false;
+    }
+    for (const field of ['salaryPlans', 'pensionPlans']) {
+      const plans = spouse[field];
+      if (!Array.isArray(plans) || plans.some(plan =>
+        !plan || typeof plan !== 'object' ||
+        typeof plan.id !== 'string' ||
+        typeof plan.startAge !== 'number' ||
+        typeof plan.endAge !== 'number' ||
+        (plan.annualAmount !== undefined && typeof plan.annualAmount !== 'number')
+      )) {
+        console.error(`バリデーションエラー: spouse.${field} の各プランは id・startAge・endAge を持つ必要があります`, plans);
+        return false;
+      }
+    }
+  }
+
+  // lifeInsurancePoliciesのチェック（オプショナル）
+  if ('lifeInsurancePolicies' in data) {
+    if (!Array.isArray(data.lifeInsurancePolicies)) {
+      console.error('バリデーションエラー: lifeInsurancePoliciesは配列である必要があります', data.lifeInsurancePolicies);
+      return false;
+    }
+    for (let i = 0; i < data.lifeInsurancePolicies.length; i++) {
+      const policy = data.lifeInsurancePolicies[i];
+      if (!policy || typeof policy !== 'object' ||
+          typeof policy.id !== 'string' ||
+          typeof policy.name !== 'string' ||
+          typeof policy.payout !== 'number' ||
+          !['primary', 'spouse'].includes(policy.insured)) {
+        console.error(`バリデーションエラー: lifeInsurancePolicies[${i}] は id・name・payout と、insured に 'primary' または 'spouse' を持つ必要があります`, policy);
+        return false;
+      }
+    }
+  }
+
+  // terminalWealthGoalのチェック（オプショナル）
+  if ('terminalWealthGoal' in data) {
+    const goal = data.terminalWealthGoal;
+    if (!goal || typeof goal !== 'object' || !['amount', 'expense-multiple'].includes(goal.type)) {
+      console.error('バリデーションエラー: terminalWealthGoal.type は \'amount\' または \'expense-multiple\' である必要があります', goal);
+      return false;
+    }
+    for (const field of ['amount', 'expenseMultiple']) {
+      if (field in goal && typeof goal[field] !== 'number') {
+        console.error(`バリデーションエラー: terminalWealthGoal.${field} は数値である必要があります (実際の値: ${goal[field]})`);
+        return false;
+      }
+    }
+  }
+
+  // heirsのチェック（オプショナル）
+  if ('heirs' in data && typeof data.heirs !== 'number') {
+    console.error(`バリデーションエラー: heirs は数値である必要があります (実際の値: ${data.heirs}, 型: ${typeof data.heirs})`);
+    return false;
+  }
+
+  // retirementSearchのチェック（オプショナル）
+  if ('retirementSearch' in data) {
+    const search = data.retirementSearch;
+    if (!search || typeof search !== 'object' || typeof search.maxWorkingAge !== 'number') {
+      console.error('バリデーションエラー: retirementSearch.maxWorkingAge は数値である必要があります', search);
+      return false;
+    }
+    if ('plans' in search) {
+      if (!Array.isArray(search.plans)) {
+        console.error('バリデーションエラー: retirementSearch.plans は配列である必要があります', search.plans);
+        return false;
+      }
+      for (let i = 0; i < search.plans.length; i++) {
+        const plan = search.plans[i];
+        if (!plan || !['primary', 'spouse'].includes(plan.owner) || typeof plan.planId !== 'string') {
+          console.error(`バリデーションエラー: retirementSearch.plans[${i}] の owner は 'primary' または 'spouse'、planId は文字列である必要があります`, plan);
+          return false;
+        }
+      }
+    }
+  }
+
+  // fireVariantsのチェック（オプショナル）
+  if ('fireVariants' in data) {
+    const variants = data.fireVariants;
+    if (!variants || typeof variants !== 'object') {
+      console.error('バリデーションエラー: fireVariantsはオブジェクトである必要があります', variants);
+      return false;
+    }
+    for (const field of ['leanExpenseMultiplier', 'fatExpenseMultiplier', 'baristaIncome', 'baristaEndAge', 'coastRetirementAge']) {
+      if (typeof variants[field] !== 'number') {
+        console.error(`バリデーションエラー: fireVariants.${field} は数値である必要があります (実際の値: ${variants[field]})`);
+        return false;
+      }
+    }
+  }
+
+  // usPensionColaのチェック（オプショナル）
+  if ('usPensionCola' in data && typeof data.usPensionCola !== 'number') {
+    console.error(`バリデーションエラー: usPensionCola は数値である必要があります (実際の値: ${data.usPensionCola}, 型: ${typeof data.usPensionCola})`);
+    return false;
+  }
+
+  // glidePathのチェック（オプショナル）
+  if ('glidePath' in data) {
+    if (!Array.isArray(data.glidePath)) {
+      console.error('バリデーションエラー: glidePathは配列である必要があります', data.glidePath);
+      return false;
+    }
+
+    for (let i = 0; i < data.glidePath.length; i++) {
+      const point = data.glidePath[i];
+      if (!point || typeof point !== 'object' || typeof point.id !== 'string' || typeof point.age !== 'number') {
+        console.error(`バリデーションエラー: glidePath[${i}] の id または age が不正です`, point);
+        return false;
+      }
+
+      if (!point.allocations || typeof point.allocations !== 'object') {
+        console.error(`バリデーションエラー: glidePath[${i}].allocations はオブジェクトである必要があります`, point.allocations);
+        return false;
+      }
+
+      for (const [assetClass, target] of Object.entries(point.allocations)) {
+        if (!['STOCK', 'BOND', 'REAL_ESTATE', 'CASH', 'CRYPTO', 'COMMODITY', 'OTHER'].includes(assetClass) || typeof target !== 'number') {
+          console.error(`バリデーションエラー: glidePath[${i}].allocations.${assetClass} が不正です (実際の値: ${target})`);
+          return false;
+        }
+      }
+    }
   }
 
   // childrenの配列チェック（オプショナル）
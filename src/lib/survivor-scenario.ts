@@ -0,0 +1,288 @@
+import { FireCalculationInput, FireCalculationResult, FireCalculator } from './fire-calculator';
+import { projectSalary } from './salary-growth';
+import { getAdjustedPensionAmount } from './public-pension';
+import { getInflationFactor } from './inflation';
+import { Child, HouseholdMember, HouseholdRole, PensionPlan, SpecialIncome, SurvivorScenarioSettings } from './types';
+
+/**
+ * 遺族シナリオ（世帯の一方が早期に死亡した場合の試算）
+ *
+ * 死亡した構成員の給与・年金を死亡年齢で打ち切り、遺された配偶者に遺族基礎年金・遺族厚生年金を、
+ * 世帯に死亡保険金を臨時収入として加えて、FIRE計算をやり直す。
+ * - 遺族基礎年金は18歳未満の子がいる間だけ、子の人数に応じた加算とともに支給する
+ * - 遺族厚生年金は死亡した構成員の老齢厚生年金（報酬比例部分）の3/4とする。
+ *   在職中の死亡は加入期間を300か月とみなし、死亡時の給与から報酬比例部分を概算する
+ * - 遺族が自身の老齢厚生年金を受け取る間は、その金額を遺族厚生年金から差し引く
+ * - 中高齢寡婦加算・受給者の年齢要件・死亡保険金にかかる相続税は考慮しない
+ * 年金額は現在価値とし、他の年金と同様にインフレ率で改定する。
+ */
+
+// 遺族基礎年金の基本額（年額、令和6年度）
+const SURVIVOR_BASIC_PENSION_AMOUNT = 816000;
+
+// 遺族基礎年金の子の加算額（1人目・2人目 / 3人目以降）
+const CHILD_ADDITION_FIRST_TWO = 234800;
+const CHILD_ADDITION_OTHERS = 78300;
+
+// 遺族基礎年金の対象となる子の年齢（この年齢未満）
+const ELIGIBLE_CHILD_AGE_LIMIT = 18;
+
+// 遺族厚生年金の老齢厚生年金（報酬比例部分）に対する割合
+const SURVIVOR_EMPLOYEES_PENSION_RATIO = 0.75;
+
+// 在職中の死亡（短期要件）でみなす最低加入月数
+const MINIMUM_INSURED_MONTHS = 300;
+
+// 報酬比例部分の給付乗率（平成15年4月以降）
+const REMUNERATION_PROPORTION_RATE = 5.481 / 1000;
+
+// 厚生年金の標準報酬月額の上限（円）
+const MAX_STANDARD_MONTHLY_REMUNERATION = 650000;
+
+// 死亡保険金の既定の項目名
+const DEFAULT_LIFE_INSURANCE_NAME = '死亡保険金';
+
+// 遺族シナリオの試算結果
+export interface SurvivorScenarioAnalysis {
+  settings: SurvivorScenarioSettings;
+  input: FireCalculationInput; // 遺族シナリオの計算入力
+  result: FireCalculationResult; // 遺族シナリオのFIRE計算結果
+  survivorPensionPlans: PensionPlan[]; // 遺族に追加した遺族年金（現在価値）
+  remunerationProportion: number; // 遺族厚生年金の算定に使った報酬比例部分（年額）
+  lifeInsurancePayout: number; // 死亡保険金の合計（名目額）
+  survivor: HouseholdRole; // 遺された構成員
+  survivorLifeExpectancy: number; // 遺族の想定寿命
+  depletionAge: number | null; // 資産が枯渇する遺族の年齢（枯渇しない場合はnull）
+  finalAssets: number; // 遺族の想定寿命時点の資産
+  lastsToLifeExpectancy: boolean; // 遺族の想定寿命まで資産が持続するか
+}
+
+/**
+ * 構成員を取得（本人はFireCalculationInputの年齢・寿命・給与・年金を使う）
+ */
+function getMember(input: FireCalculationInput, role: HouseholdRole): HouseholdMember | undefined {
+  return role === 'primary' ? input : input.spouse;
+}
+
+/**
+ * 遺族厚生年金の算定に使う報酬比例部分（年額）を概算
+ * 在職中の死亡は死亡時の給与と加入期間（最低300か月）から、退職後の死亡は老齢厚生年金の年額から求める
+ * @param deceased 死亡する構成員
+ * @param deathAge 死亡年齢
+ * @returns 報酬比例部分の年額（現在価値）
+ */
+export function estimateRemunerationProportion(deceased: HouseholdMember, deathAge: number): number {
+  // 退職後の老齢厚生年金（65歳受給開始時の年額を報酬比例部分とみなす）
+  const employeesPension = deceased.pensionPlans
+    .filter(plan => plan.kind === 'employees')
+    .reduce((sum, plan) => sum + (plan.annualAmount ?? 0), 0);
+
+  // 在職中の死亡は死亡時の給与から平均標準報酬額を求める
+  const activePlans = deceased.salaryPlans.filter(plan =>
+    plan.annualAmount && deathAge >= plan.startAge && deathAge <= plan.endAge
+  );
+  if (activePlans.length === 0) {
+    return employeesPension;
+  }
+  const annualSalary = activePlans.reduce(
+    (sum, plan) => sum + projectSalary(plan, deathAge, deceased.currentAge), 0
+  );
+  const averageRemuneration = Math.min(annualSalary / 12, MAX_STANDARD_MONTHLY_REMUNERATION);
+  const enrollmentAge = Math.min(...deceased.salaryPlans.map(plan => plan.startAge));
+  const insuredMonths = Math.max(MINIMUM_INSURED_MONTHS, (deathAge - enrollmentAge) * 12);
+  return Math.max(employeesPension, averageRemuneration * REMUNERATION_PROPORTION_RATE * insuredMonths);
+}
+
+/**
+ * 遺族基礎年金（年額）を計算
+ * @param eligibleChildren 18歳未満の子の人数
+ * @returns 遺族基礎年金の年額（子がいない場合は0）
+ */
+export function calculateSurvivorBasicPension(eligibleChildren: number): number {
+  if (eligibleChildren <= 0) return 0;
+  const childAddition = Math.min(eligibleChildren, 2) * CHILD_ADDITION_FIRST_TWO
+    + Math.max(0, eligibleChildren - 2) * CHILD_ADDITION_OTHERS;
+  return SURVIVOR_BASIC_PENSION_AMOUNT + childAddition;
+}
+
+/**
+ * 遺族厚生年金（年額）を計算
+ * 遺族が自身の老齢厚生年金を受け取る場合は、①遺族厚生年金 ②①×2/3＋自身の老齢厚生年金×1/2 の
+ * 多い方から自身の老齢厚生年金を差し引いた額を支給する
+ * @param remunerationProportion 死亡した構成員の報酬比例部分（年額）
+ * @param ownEmployeesPension 遺族自身の老齢厚生年金（年額、受給前は0）
+ * @returns 遺族厚生年金の年額
+ */
+export function calculateSurvivorEmployeesPension(remunerationProportion: number, ownEmployeesPension: number): number {
+  const survivorPension = remunerationProportion * SURVIVOR_EMPLOYEES_PENSION_RATIO;
+  if (ownEmployeesPension <= 0) return survivorPension;
+  const combined = survivorPension * 2 / 3 + ownEmployeesPension / 2;
+  return Math.max(0, Math.max(survivorPension, combined) - ownEmployeesPension);
+}
+
+/**
+ * 指定した西暦年に18歳未満の子の人数
+ */
+function countEligibleChildren(children: Child[], year: number): number {
+  return children.filter(child => {
+    const childAge = year - child.birthYear;
+    return childAge >= 0 && childAge < ELIGIBLE_CHILD_AGE_LIMIT;
+  }).length;
+}
+
+/**
+ * 年齢ごとの年額を、金額が同じ期間ごとの年金プランにまとめる
+ */
+function toPensionPlans(idPrefix: string, name: string, amountsByAge: Array<{ age: number; amount: number }>): PensionPlan[] {
+  const plans: PensionPlan[] = [];
+  amountsByAge.forEach(({ age, amount }) => {
+    const last = plans[plans.length - 1];
+    if (last && last.endAge === age - 1 && last.annualAmount === amount) {
+      last.endAge = age;
+    } else if (amount > 0) {
+      plans.push({
+        id: `${idPrefix}-${plans.length + 1}`,
+        name,
+        annualAmount: amount,
+        currency: 'JPY',
+        startAge: age,
+        endAge: age,
+      });
+    }
+  });
+  return plans;
+}
+
+/**
+ * 死亡した構成員の給与・年金プランを死亡年齢の前年で打ち切る
+ */
+function truncatePlans<T extends { startAge: number; endAge: number }>(plans: T[], deathAge: number): T[] {
+  return plans
+    .filter(plan => plan.startAge < deathAge)
+    .map(plan => ({ ...plan, endAge: Math.min(plan.endAge, deathAge - 1) }));
+}
+
+/**
+ * 遺族シナリオの計算入力を作成
+ * @param input 世帯の計算入力（配偶者が必要）
+ * @param settings 死亡する構成員と死亡年齢
+ * @returns 遺族シナリオの計算入力と追加した遺族年金（配偶者が未設定の場合はnull）
+ */
+export function createSurvivorScenario(
+  input: FireCalculationInput,
+  settings: SurvivorScenarioSettings
+): { input: FireCalculationInput; survivorPensionPlans: PensionPlan[]; remunerationProportion: number } | null {
+  const deceased = getMember(input, settings.deceased);
+  const survivorRole: HouseholdRole = settings.deceased === 'primary' ? 'spouse' : 'primary';
+  const survivor = getMember(input, survivorRole);
+  if (!input.spouse || !deceased || !survivor) return null;
+
+  const deathAge = Math.max(settings.deathAge, deceased.currentAge);
+  const deathYearOffset = deathAge - deceased.currentAge;
+  const startYear = new Date().getFullYear();
+  const remunerationProportion = estimateRemunerationProportion(deceased, deathAge);
+
+  // 遺族の年齢ごとの遺族基礎年金・遺族厚生年金
+  const basicAmounts: Array<{ age: number; amount: number }> = [];
+  const employeesAmounts: Array<{ age: number; amount: number }> = [];
+  for (let age = survivor.currentAge + deathYearOffset; age <= survivor.lifeExpectancy; age++) {
+    const year = startYear + age - survivor.currentAge;
+    basicAmounts.push({ age, amount: calculateSurvivorBasicPension(countEligibleChildren(input.children ?? [], year)) });
+    const ownEmployeesPension = survivor.pensionPlans
+      .filter(plan => plan.kind === 'employees' && age >= plan.startAge && age <= plan.endAge)
+      .reduce((sum, plan) => sum + getAdjustedPensionAmount(plan), 0);
+    employeesAmounts.push({ age, amount: calculateSurvivorEmployeesPension(remunerationProportion, ownEmployeesPension) });
+  }
+  const survivorPensionPlans = [
+    ...toPensionPlans('survivor-basic', '遺族基礎年金', basicAmounts),
+    ...toPensionPlans('survivor-employees', '遺族厚生年金', employeesAmounts),
+  ];
+
+  // 死亡保険金（名目額を現在価値に割り戻して、死亡した年の臨時収入に計上）
+  const primaryDeathAge = input.currentAge + deathYearOffset;
+  const inflationFactor = getInflationFactor(input, deathYearOffset);
+  // 臨時収入は名前ごとに集計されるため、同じ名前の保険金には連番を付けて区別する
+  const policies = (input.lifeInsurancePolicies ?? [])
+    .filter(policy => policy.insured === settings.deceased && policy.payout > 0);
+  const policyNames = policies.map(policy => policy.name || DEFAULT_LIFE_INSURANCE_NAME);
+  const lifeInsuranceIncomes: SpecialIncome[] = policies.map((policy, index) => ({
+    id: `life-insurance-${policy.id}`,
+    name: policyNames.filter(name => name === policyNames[index]).length > 1
+      ? `${policyNames[index]}（${index + 1}）`
+      : policyNames[index],
+    amount: policy.payout / inflationFactor,
+    targetAge: primaryDeathAge,
+  }));
+
+  // 死亡した構成員の収入を打ち切り、遺族に遺族年金を加える
+  const updateMember = <T extends HouseholdMember>(member: T, role: HouseholdRole): T => {
+    if (role === settings.deceased) {
+      return {
+        ...member,
+        salaryPlans: truncatePlans(member.salaryPlans, deathAge),
+        pensionPlans: truncatePlans(member.pensionPlans, deathAge),
+        deathAge,
+      };
+    }
+    return { ...member, pensionPlans: [...member.pensionPlans, ...survivorPensionPlans] };
+  };
+
+  // 本人が死亡した場合、死亡後に予定していた退職金は受け取らない
+  const specialIncomes = input.specialIncomes.filter(income =>
+    settings.deceased !== 'primary' ||
+    income.kind !== 'retirement-allowance' ||
+    (income.targetAge ?? 0) < primaryDeathAge
+  );
+
+  return {
+    input: {
+      ...updateMember(input, 'primary'),
+      spouse: updateMember(input.spouse, 'spouse'),
+      specialIncomes: [...specialIncomes, ...lifeInsuranceIncomes],
+    },
+    survivorPensionPlans,
+    remunerationProportion,
+  };
+}
+
+/**
+ * 遺族シナリオでFIRE計算をやり直し、遺族の想定寿命まで資産が持続するかを判定
+ * @param input 世帯の計算入力（配偶者が必要）
+ * @param settings 死亡する構成員と死亡年齢
+ * @returns 遺族シナリオの試算結果（配偶者が未設定の場合はnull）
+ */
+export function analyzeSurvivorScenario(
+  input: FireCalculationInput,
+  settings: SurvivorScenarioSettings
+): SurvivorScenarioAnalysis | null {
+  const scenario = createSurvivorScenario(input, settings);
+  if (!scenario || !input.spouse) return null;
+
+  const result = FireCalculator.calculateFire(scenario.input);
+
+  // 遺族の年齢で資産の推移を確認
+  const survivor: HouseholdRole = settings.deceased === 'primary' ? 'spouse' : 'primary';
+  const ageOffset = survivor === 'spouse' ? input.spouse.currentAge - input.currentAge : 0;
+  const survivorLifeExpectancy = survivor === 'spouse' ? input.spouse.lifeExpectancy : input.lifeExpectancy;
+  const survivorProjections = result.projections
+    .map(projection => ({ age: projection.age + ageOffset, assets: projection.assets }))
+    .filter(projection => projection.age <= survivorLifeExpectancy);
+  const depleted = survivorProjections.find(projection => projection.assets < 1);
+  const finalAssets = survivorProjections[survivorProjections.length - 1]?.assets ?? 0;
+
+  return {
+    settings,
+    input: scenario.input,
+    result,
+    survivorPensionPlans: scenario.survivorPensionPlans,
+    remunerationProportion: scenario.remunerationProportion,
+    lifeInsurancePayout: (input.lifeInsurancePolicies ?? [])
+      .filter(policy => policy.insured === settings.deceased)
+      .reduce((sum, policy) => sum + policy.payout, 0),
+    survivor,
+    survivorLifeExpectancy,
+    depletionAge: depleted?.age ?? null,
+    finalAssets,
+    lastsToLifeExpectancy: !depleted,
+  };
+}
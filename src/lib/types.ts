@@ -1,4 +1,4 @@
-import { FireCalculationResult } from './fire-calculator';
+import { FireCalculationInput, FireCalculationResult } from './fire-calculator';
 
 // ローカル型定義（旧Prisma型の置き換え）
 export enum AssetType {
@@ -74,16 +74,13 @@ export interface LifeEvent {
   updatedAt: Date;
 }
 
+// 名前付きのシナリオ（計画の複製を個別に編集して比較する）
 export interface Scenario {
   id: string;
   name: string;
-  inflationRate: number;
-  expectedReturn: number;
-  currentAge: number;
-  lifeExpectancy: number;
-  isActive: boolean;
-  createdAt: Date;
-  updatedAt: Date;
+  input: FireCalculationInput; // シナリオの計算入力
+  createdAt: string; // 作成日時（ISO 8601、保存のため文字列）
+  updatedAt: string; // 更新日時（ISO 8601）
 }
 
 export interface Projection {
@@ -141,14 +138,26 @@ export interface FireMetrics {
   fireProgress: number; // FIRE達成度（%）
   yearsToFire: number;
   monthlyDeficit: number; // 月間不足額
+  terminalWealthTarget?: number; // 想定寿命時点に残す資産の目標額（円、名目額）
+  projectedTerminalWealth?: number; // 想定寿命時点の資産（円、名目額）
+  inheritanceTax?: number; // 想定寿命時点の資産に対する相続税の概算（円、名目額、相続人の数が未設定の場合は未計算）
+  maxWorkingAge?: number; // FIRE達成年齢の探索で働ける上限年齢
+  adjustedRetirementAges?: Array<{ name: string; endAge: number }>; // FIRE達成年齢の探索で調整した給与プランの退職年齢
+  variants?: FireVariantMilestone[]; // FIREの種類ごとの達成目標
 }
 
 export interface ScenarioComparison {
   scenarios: Scenario[];
-  results: FireCalculationResult[];
-  bestCase: FireCalculationResult;
-  worstCase: FireCalculationResult;
-  averageCase: FireCalculationResult;
+  results: FireCalculationResult[]; // scenariosと同じ順のFIRE計算結果
+  bestCase: FireCalculationResult; // FIRE達成年齢が最も早い結果
+  worstCase: FireCalculationResult; // FIRE達成年齢が最も遅い（または達成できない）結果
+  averageCase: FireCalculationResult; // FIRE達成年齢が中央の結果
+}
+
+// 保存するシナリオの一覧
+export interface ScenarioStore {
+  activeScenarioId: string; // 編集中のシナリオ
+  scenarios: Scenario[];
 }
 
 // API レスポンス型
@@ -221,6 +230,18 @@ export interface AlphaVantageData {
 // 通貨タイプ
 export type Currency = 'JPY' | 'USD';
 
+// 口座種別（特定口座 / 新NISAつみたて投資枠 / 新NISA成長投資枠 / iDeCo）
+export type AccountType = 'taxable' | 'nisa-tsumitate' | 'nisa-growth' | 'ideco';
+
+// 給与金額の種別（額面 / 手取り）
+export type SalaryAmountType = 'gross' | 'net';
+
+// シミュレーションの計算単位（年次 / 月次）
+export type SimulationResolution = 'yearly' | 'monthly';
+
+// 金額の表示方法（名目額 / 現在価値）
+export type ValueDisplayMode = 'nominal' | 'real';
+
 // 複数年教育費（習い事、留学費用など）
 export interface MultiYearEducationExpense {
   id: string;
@@ -251,8 +272,12 @@ export interface AssetHolding {
   symbol?: string; // API用銘柄コード（例: "04313031"）、オプショナル
   quantity: number;
   pricePerUnit: number; // JPY: 円単位, USD: ドル単位
+  acquisitionPrice?: number; // 平均取得単価（pricePerUnitと同じ通貨単位、未指定の場合は現在の単価）
   currency: Currency; // 通貨種別
   expectedReturn?: number; // 期待年利回り（%）
+  accountType?: AccountType; // 口座種別（未指定の場合は口座種別を導入する前のデータとして課税しない）
+  assetClass?: AssetType; // 資産クラス（未指定の場合は株式）
+  targetAllocation?: number; // 目標配分（%、リバランスに使用）
 }
 
 // ローン情報
@@ -275,22 +300,89 @@ export interface SpecialExpense {
   childId?: string; // 子供に紐づく支出の場合、その子供のID
 }
 
+// 臨時収入の種別（その他 / 退職金）
+export type SpecialIncomeKind = 'other' | 'retirement-allowance';
+
 // 臨時収入情報
 export interface SpecialIncome {
   id: string;
   name: string; // 臨時収入名（ボーナス、相続、退職金等）
-  amount: number; // 収入額（円、現在価値）
-  targetAge?: number; // 収入予定年齢
+  kind?: SpecialIncomeKind; // 臨時収入の種別（未指定の場合はその他）
+  amount: number; // 収入額（円、現在価値、退職金は税引前の金額）
+  targetAge?: number; // 収入予定年齢（退職金の場合は退職年齢）
+  yearsOfService?: number; // 勤続年数（退職金の場合、退職所得控除の計算に使用）
+}
+
+// iDeCoの一時金受取設定
+export interface IdecoLumpSumSettings {
+  age: number; // 一時金で受け取る年齢（iDeCoの残高をすべて受け取る）
+  enrollmentAge: number; // 加入年齢（掛金の拠出期間を退職所得控除の計算に使用）
+}
+
+// 年金の種別（その他 / 老齢基礎年金 / 老齢厚生年金）
+export type PensionKind = 'other' | 'basic' | 'employees';
+
+// 年金額の改定方式（物価連動 / マクロ経済スライド / 名目固定）
+export type PensionIndexationType = 'cpi' | 'macro-slide' | 'fixed';
+
+// 年金額の改定設定
+export interface PensionIndexation {
+  type: PensionIndexationType;
+  slideRate?: number; // スライド調整率（%/年、マクロ経済スライドの場合）
+  slideYears?: number; // スライド調整を行う期間（年、マクロ経済スライドの場合）
 }
 
 // 年金プラン情報
 export interface PensionPlan {
   id: string;
   name: string; // 年金名（国民年金、厚生年金、企業年金等）
-  annualAmount?: number; // 年間受給額（通貨単位）
+  kind?: PensionKind; // 年金の種別（未指定の場合はその他）
+  annualAmount?: number; // 年間受給額（通貨単位、老齢基礎年金・老齢厚生年金は65歳受給開始時の年額）
   currency: Currency; // 通貨種別
-  startAge: number; // 受給開始年齢
+  startAge: number; // 受給開始年齢（老齢基礎年金・老齢厚生年金は繰上げ・繰下げを反映）
   endAge: number; // 受給終了年齢
+  indexation?: PensionIndexation; // 年金額の改定方式（未指定の場合は物価連動）
+}
+
+// 退職後の健康保険（国民健康保険 / 任意継続 / 保険料の安い方）
+export type PostRetirementHealthInsurance = 'nhi' | 'voluntary' | 'cheaper';
+
+// 国民健康保険料の料率（市区町村ごとに異なる）
+export interface NationalHealthInsuranceRates {
+  incomeRate: number; // 所得割率（%、医療分＋後期高齢者支援金分）
+  perCapitaAmount: number; // 均等割額（円/人、医療分＋後期高齢者支援金分）
+  annualLimit: number; // 賦課限度額（円、医療分＋後期高齢者支援金分）
+  nursingCareIncomeRate: number; // 介護分の所得割率（%、40〜64歳）
+  nursingCarePerCapitaAmount: number; // 介護分の均等割額（円/人、40〜64歳）
+  nursingCareAnnualLimit: number; // 介護分の賦課限度額（円）
+}
+
+// 退職後（最後の給与プラン終了後）の社会保険料の設定
+export interface PostRetirementInsuranceSettings {
+  enabled: boolean; // 国民健康保険料・国民年金保険料を計上するかどうか
+  healthInsurance: PostRetirementHealthInsurance; // 退職後2年間の健康保険の選択
+  nhiRates?: NationalHealthInsuranceRates; // 国民健康保険料の料率（未指定の場合は標準的な料率）
+  householdMembers?: number; // 国民健康保険の加入人数（均等割の計算に使用、未指定の場合は1人、配偶者がいる場合は各自1人として計算）
+}
+
+// 昇給モデルの種別（なし / 定率昇給 / 年齢別テーブル / 賃金構造基本統計調査）
+export type SalaryGrowthType = 'none' | 'fixed' | 'table' | 'wage-census';
+
+// 賃金構造基本統計調査の賃金カーブの区分
+export type WageCensusProfile = 'all' | 'male' | 'female';
+
+// 年齢別昇給テーブルの節目
+export interface SalaryGrowthPoint {
+  age: number; // 年齢
+  index: number; // 賃金指数（基準年齢の値との比で年収を増減）
+}
+
+// 昇給モデル（インフレ率とは別の実質的な昇給）
+export interface SalaryGrowthModel {
+  type: SalaryGrowthType;
+  annualRaise?: number; // 実質昇給率（%/年、定率昇給）
+  table?: SalaryGrowthPoint[]; // 年齢別の賃金指数（年齢別テーブル）
+  wageCensusProfile?: WageCensusProfile; // 賃金カーブの区分（賃金構造基本統計調査）
 }
 
 // 給与プラン情報
@@ -298,16 +390,196 @@ export interface SalaryPlan {
   id: string;
   name: string; // 給与名（基本給、副業等）
   annualAmount?: number; // 年間支給額（円）
+  amountType?: SalaryAmountType; // 金額の種別（未指定の場合は手取り）
+  growth?: SalaryGrowthModel; // 昇給モデル（未指定の場合は昇給なし、年収は現在または支給開始時点の金額）
   startAge: number; // 支給開始年齢
   endAge: number; // 支給終了年齢
 }
 
+// 世帯の構成員（配偶者）の情報
+// 給与・年金プランの年齢はこの構成員自身の年齢で指定する
+export interface HouseholdMember {
+  currentAge: number;
+  lifeExpectancy: number;
+  salaryPlans: SalaryPlan[]; // 給与プラン情報
+  pensionPlans: PensionPlan[]; // 年金プラン情報
+  deathAge?: number; // 死亡年齢（遺族シナリオで設定、この年齢以降は収入・社会保険料を計上しない）
+}
+
+// 世帯の構成員の区分（本人 / 配偶者）
+export type HouseholdRole = 'primary' | 'spouse';
+
+// 生命保険（死亡保険金）
+export interface LifeInsurancePolicy {
+  id: string;
+  name: string; // 保険名
+  insured: HouseholdRole; // 被保険者
+  payout: number; // 死亡保険金（円、名目額）
+}
+
+// 想定寿命時点に残す資産の目標の指定方法（金額 / 年間支出の倍数）
+export type TerminalWealthGoalType = 'amount' | 'expense-multiple';
+
+// 想定寿命時点に残す資産の目標（遺産・予備資金）
+export interface TerminalWealthGoal {
+  type: TerminalWealthGoalType;
+  amount?: number; // 目標額（円、現在価値）
+  expenseMultiple?: number; // 想定寿命時点の年間支出に対する倍数
+}
+
+// FIRE達成年齢の探索で退職年齢を調整する給与プラン
+export interface RetirementSearchPlan {
+  owner: HouseholdRole; // 給与プランの所有者
+  planId: string; // 給与プランのID
+}
+
+// FIRE達成年齢の探索設定
+export interface RetirementSearchSettings {
+  maxWorkingAge: number; // 働ける上限年齢（各構成員の年齢）
+  plans?: RetirementSearchPlan[]; // 退職年齢を調整する給与プラン（未指定の場合は本人の最も高い手取り年収の給与プラン）
+}
+
+// FIREの種類（リーン / 通常 / ファット / バリスタ / コースト）
+export type FireVariantType = 'lean' | 'regular' | 'fat' | 'barista' | 'coast';
+
+// FIREの種類ごとの設定
+export interface FireVariantSettings {
+  leanExpenseMultiplier: number; // リーンFIREの退職後の生活費の倍率（例: 0.7）
+  fatExpenseMultiplier: number; // ファットFIREの退職後の生活費の倍率（例: 1.5）
+  baristaIncome: number; // バリスタFIREの退職後のパート収入（円/年、手取り・現在価値）
+  baristaEndAge: number; // バリスタFIREのパート収入を得る最後の年齢
+  coastRetirementAge: number; // コーストFIREで完全に退職する年齢（それまでは生活費・税金・社会保険料などの支出を収入で賄う）
+}
+
+// FIREの種類ごとの達成目標
+export interface FireVariantMilestone {
+  type: FireVariantType;
+  targetAssets: number | null; // 達成に必要な資産額（円、達成年齢時点の名目額、達成できない場合はnull）
+  age: number | null; // 資産推移上で達成する年齢（働ける上限年齢までに達成できない場合はnull）
+}
+
+// 感度分析で変化させる要因（期待リターン / インフレ率 / 生活費 / 年収 / 想定寿命 / 為替レート / 年金額）
+export type SensitivityDriver = 'return' | 'inflation' | 'expenses' | 'salary' | 'life-expectancy' | 'exchange-rate' | 'pension';
+
+// 感度分析の評価指標（FIRE達成年齢 / 想定寿命時点の資産）
+export type SensitivityMetric = 'fire-age' | 'terminal-assets';
+
+// 感度分析の1つの計算結果
+export interface SensitivityOutcome {
+  fireAge: number | null; // FIRE達成年齢（達成できない場合はnull）
+  terminalAssets: number; // 想定寿命時点の資産（円、現在価値）
+}
+
+// 要因ごとの感度分析の結果
+export interface SensitivityResult {
+  driver: SensitivityDriver;
+  delta: number; // 変化幅（期待リターン・インフレ率は%ポイント、想定寿命は年、それ以外は%）
+  low: SensitivityOutcome; // 要因を変化幅だけ下げた場合
+  high: SensitivityOutcome; // 要因を変化幅だけ上げた場合
+}
+
+// 逆算で固定する目標（FIRE達成年齢 / 想定寿命時点の資産 / 成功確率）
+export type GoalSeekTargetType = 'fire-age' | 'terminal-wealth' | 'success-probability';
+
+// 逆算で求める変数（月間支出 / 年収 / 追加の積立 / 期待リターン）
+export type GoalSeekVariable = 'monthly-expenses' | 'salary' | 'extra-savings' | 'expected-return';
+
+// 逆算（ゴールシーク）の設定
+export interface GoalSeekSettings {
+  targetType: GoalSeekTargetType;
+  targetValue: number; // FIRE達成年齢（歳）/ 想定寿命時点の資産（円、現在価値）/ 成功確率（%）
+  variable: GoalSeekVariable;
+  expenseSegmentId?: string; // 月間支出を求める支出区間（未指定の場合は現在の年齢の区間）
+  salaryPlanId?: string; // 年収を求める給与プラン（未指定の場合は最初の給与プラン）
+}
+
+// 遺族シナリオの設定
+export interface SurvivorScenarioSettings {
+  deceased: HouseholdRole; // 死亡する構成員
+  deathAge: number; // 死亡年齢（死亡する構成員の年齢）
+}
+
 // 支出区間情報（年齢別月間支出）
 export interface ExpenseSegment {
   id: string;
   startAge: number; // 開始年齢
   endAge: number; // 終了年齢
   monthlyExpenses: number; // 月間支出額（円単位）
+  components?: ExpenseComponent[]; // 費目別の内訳（設定時は月間支出額は内訳の合計）
+  discretionaryExpenses?: number; // 月間支出額のうち裁量的な支出（円単位、支出の柔軟な調整で削減する対象、未指定の場合は0）
+}
+
+// 支出区間の費目別の内訳
+export interface ExpenseComponent {
+  category: ExpenseCategory;
+  monthlyAmount: number; // 月額（円単位）
+}
+
+// 支出の柔軟な調整（相場が悪い年に裁量的な支出を削減）
+export interface FlexibleSpendingSettings {
+  drawdownThreshold?: number; // 運用リターンのピークからの下落率（%）がこの値以上で削減を始め、ピークまで回復するまで続ける（未指定の場合は判定しない）
+  withdrawalRateThreshold?: number; // 前年の取り崩し率（%）がこの値を超える間は削減する（未指定の場合は判定しない）
+  cutRate: number; // 裁量的な支出の削減率（%）
+}
+
+// 支出の柔軟な調整の分析結果
+export interface FlexibleSpendingAnalysis {
+  cutYears: number; // 裁量的な支出を削減した年数
+  totalCut: number; // 削減額の合計（現在価値）
+  maxCut: number; // 1年あたりの最大の削減額（現在価値）
+  successProbability: number; // 調整を行う場合の成功確率（%）
+  successProbabilityWithoutCuts: number; // 調整を行わない場合の成功確率（%）
+  averageCutYears: number; // モンテカルロシミュレーションで削減した年数の平均
+}
+
+// 費目別の予算（支出項目を積み上げて支出区間を作成）
+export interface ExpenseBudget {
+  items: Expense[]; // 支出項目（金額は円単位）
+  retirementAge: number; // 退職後の支出倍率を適用する年齢（本人の年齢）
+  manualSegments?: ExpenseSegment[]; // 予算から支出区間を作成する前に入力していた支出区間（予算の設定をやめたときに戻す）
+}
+
+// インフレ率の区間（年齢別インフレ率）
+export interface InflationSegment {
+  id: string;
+  startAge: number; // 開始年齢（本人の年齢）
+  endAge: number; // 終了年齢（本人の年齢）
+  rate: number; // インフレ率（パーセント）
+}
+
+// 取り崩し戦略の種別
+export type WithdrawalStrategyType =
+  | 'lowest-return-first' // 利回りの低い順
+  | 'highest-return-first' // 利回りの高い順
+  | 'pro-rata' // 評価額で按分
+  | 'tax-efficient' // 税効率順（特定口座 → iDeCo → NISA）
+  | 'constant-percentage' // 定率取り崩し
+  | 'guyton-klinger' // ガイトン・クリンガーのガードレール
+  | 'vpw'; // VPW（Variable Percentage Withdrawal）
+
+// 取り崩し戦略情報
+export interface WithdrawalStrategy {
+  type: WithdrawalStrategyType;
+  withdrawalRate?: number; // 取り崩し率（%、定率取り崩し・ガイトン・クリンガーの初年度）
+  guardrailThreshold?: number; // ガードレール幅（%、ガイトン・クリンガー）
+  adjustmentRate?: number; // ガードレール到達時の増減率（%、ガイトン・クリンガー）
+}
+
+// リバランス方法（なし / 定期 / 乖離幅）
+export type RebalancingMethod = 'none' | 'periodic' | 'threshold';
+
+// リバランス設定
+export interface RebalancingSettings {
+  method: RebalancingMethod;
+  intervalYears?: number; // リバランス間隔（年、定期リバランス）
+  toleranceBand?: number; // 許容乖離幅（%ポイント、乖離幅リバランス）
+}
+
+// グライドパスの節目（指定年齢での資産クラスごとの目標配分）
+export interface GlidePathPoint {
+  id: string;
+  age: number; // 年齢
+  allocations: Partial<Record<AssetType, number>>; // 資産クラスごとの目標配分（%）
 }
 
 // チャート用データ型
@@ -324,6 +596,8 @@ export interface MonteCarloResult {
   percentile: number;
   projections: ChartDataPoint[];
   successProbability: number;
+  successProbabilityWithoutCuts?: number; // 支出の柔軟な調整を行わない場合の成功確率（調整を設定した場合のみ）
+  averageCutYears?: number; // 裁量的な支出を削減した年数の平均（調整を設定した場合のみ）
 }
 
 // 通知・アラート型
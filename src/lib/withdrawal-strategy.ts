@@ -0,0 +1,244 @@
+import { WithdrawalStrategy, WithdrawalStrategyType } from './types';
+import { calculateCapitalGainsTax, calculateGrossSaleAmount, HoldingAccountType } from './investment-account';
+
+/**
+ * 取り崩し戦略
+ *
+ * 売却順序を決める戦略（利回りの低い順・高い順・按分・税効率順）は、その年の不足額を取り崩す。
+ * 取り崩し額を決める戦略（定率・ガードレール・VPW）は、ポートフォリオの評価額から
+ * その年の取り崩し額を決め、各資産から評価額に応じて按分して売却する。
+ * 取り崩し額が不足額に満たない場合、差額は現金のマイナス（賄えなかった支出）として残る。
+ */
+
+// 戦略の表示名
+export const WITHDRAWAL_STRATEGY_LABELS: Record<WithdrawalStrategyType, string> = {
+  'lowest-return-first': '利回りの低い順',
+  'highest-return-first': '利回りの高い順',
+  'pro-rata': '評価額で按分',
+  'tax-efficient': '税効率順',
+  'constant-percentage': '定率取り崩し',
+  'guyton-klinger': 'ガイトン・クリンガー',
+  'vpw': 'VPW',
+};
+
+// 定率取り崩し・ガイトン・クリンガーの既定の取り崩し率（%）
+const DEFAULT_WITHDRAWAL_RATE = 4;
+
+// ガイトン・クリンガーの既定のガードレール幅（%）と増減率（%）
+const DEFAULT_GUARDRAIL_THRESHOLD = 20;
+const DEFAULT_ADJUSTMENT_RATE = 10;
+
+// ガイトン・クリンガーで減額ルールを適用する残り年数の下限
+const CAPITAL_PRESERVATION_MIN_YEARS = 15;
+
+/**
+ * 取り崩し対象の資産
+ */
+export interface WithdrawalCandidate {
+  id: string;
+  accountType: HoldingAccountType;
+  returnRate: number; // 期待年利回り（小数）
+  balance: number; // 評価額
+  costBasis: number; // 取得価額
+}
+
+/**
+ * 資産ごとの売却結果
+ */
+export interface WithdrawalSale {
+  id: string;
+  amount: number; // 売却額
+  tax: number; // 譲渡益税
+}
+
+/**
+ * 年をまたいで引き継ぐ取り崩し戦略の状態（ガイトン・クリンガー用）
+ */
+export interface WithdrawalState {
+  initialRate?: number; // 初年度の取り崩し率（小数）
+  previousWithdrawal?: number; // 前年の取り崩し額
+}
+
+/**
+ * 取り崩し額の決定に使う年次の状況
+ */
+export interface WithdrawalContext {
+  deficit: number; // その年の不足額
+  portfolioValue: number; // 取り崩し可能な資産の評価額
+  expectedReturn: number; // 取り崩し可能な資産の加重平均利回り（小数）
+  inflationRate: number; // 前年からのインフレ率（小数）
+  yearsRemaining: number; // 想定寿命までの残り年数（当年を含む）
+}
+
+/**
+ * 戦略の種別を取得（未指定の場合は利回りの低い順）
+ */
+export function getWithdrawalStrategyType(strategy?: WithdrawalStrategy): WithdrawalStrategyType {
+  return strategy?.type ?? 'lowest-return-first';
+}
+
+/**
+ * 取り崩し額を決める戦略かどうか
+ */
+export function isAmountBasedStrategy(type: WithdrawalStrategyType): boolean {
+  return type === 'constant-percentage' || type === 'guyton-klinger' || type === 'vpw';
+}
+
+/**
+ * その年に取り崩す税引後の金額を決定
+ * @param strategy 取り崩し戦略
+ * @param state 前年から引き継ぐ状態（ガイトン・クリンガーで更新される）
+ * @param context 年次の状況
+ * @returns 取り崩す税引後の金額
+ */
+export function determineWithdrawalAmount(
+  strategy: WithdrawalStrategy | undefined,
+  state: WithdrawalState,
+  context: WithdrawalContext
+): number {
+  const type = getWithdrawalStrategyType(strategy);
+  const { deficit, portfolioValue, expectedReturn, inflationRate, yearsRemaining } = context;
+
+  switch (type) {
+    case 'constant-percentage': {
+      const rate = (strategy?.withdrawalRate ?? DEFAULT_WITHDRAWAL_RATE) / 100;
+      return portfolioValue * rate;
+    }
+
+    case 'guyton-klinger': {
+      if (portfolioValue <= 0) return 0;
+
+      // 初年度は指定の取り崩し率で開始
+      if (state.initialRate === undefined || state.previousWithdrawal === undefined) {
+        state.initialRate = (strategy?.withdrawalRate ?? DEFAULT_WITHDRAWAL_RATE) / 100;
+        state.previousWithdrawal = portfolioValue * state.initialRate;
+        return state.previousWithdrawal;
+      }
+
+      const threshold = (strategy?.guardrailThreshold ?? DEFAULT_GUARDRAIL_THRESHOLD) / 100;
+      const adjustment = (strategy?.adjustmentRate ?? DEFAULT_ADJUSTMENT_RATE) / 100;
+      const currentRate = state.previousWithdrawal / portfolioValue;
+
+      // インフレ調整ルール: 取り崩し率が初年度を上回る年はインフレ調整を見送る
+      let withdrawal = currentRate > state.initialRate
+        ? state.previousWithdrawal
+        : state.previousWithdrawal * (1 + inflationRate);
+      const adjustedRate = withdrawal / portfolioValue;
+
+      if (adjustedRate > state.initialRate * (1 + threshold) && yearsRemaining > CAPITAL_PRESERVATION_MIN_YEARS) {
+        // 資産保全ルール: 上側のガードレールを超えたら減額
+        withdrawal *= 1 - adjustment;
+      } else if (adjustedRate < state.initialRate * (1 - threshold)) {
+        // 繁栄ルール: 下側のガードレールを下回ったら増額
+        withdrawal *= 1 + adjustment;
+      }
+
+      state.previousWithdrawal = withdrawal;
+      return withdrawal;
+    }
+
+    case 'vpw': {
+      // 残り年数で使い切る年金現価係数の逆数（実質利回りベース）
+      const realReturn = (1 + expectedReturn) / (1 + inflationRate) - 1;
+      const years = Math.max(1, yearsRemaining);
+      const rate = Math.abs(realReturn) < 1e-9
+        ? 1 / years
+        : realReturn / (1 - Math.pow(1 + realReturn, -years));
+      return portfolioValue * Math.min(1, rate);
+    }
+
+    default:
+      return deficit;
+  }
+}
+
+/**
+ * 資産の売却順序を決定
+ */
+function sortCandidates(
+  type: WithdrawalStrategyType,
+  candidates: WithdrawalCandidate[]
+): WithdrawalCandidate[] {
+  const sorted = candidates.slice();
+
+  switch (type) {
+    case 'highest-return-first':
+      return sorted.sort((a, b) => b.returnRate - a.returnRate);
+
+    case 'tax-efficient': {
+      // 特定口座（含み益の割合が小さい順）→ iDeCo → 口座種別が未指定 → NISA の順に売却し、非課税の運用を長く残す
+      const accountOrder: Record<HoldingAccountType, number> = {
+        'taxable': 0,
+        'ideco': 1,
+        'unspecified': 2,
+        'nisa-growth': 3,
+        'nisa-tsumitate': 4,
+      };
+      const gainRatio = (c: WithdrawalCandidate) => c.balance > 0 ? 1 - c.costBasis / c.balance : 0;
+      return sorted.sort((a, b) =>
+        accountOrder[a.accountType] - accountOrder[b.accountType] ||
+        gainRatio(a) - gainRatio(b)
+      );
+    }
+
+    default:
+      return sorted.sort((a, b) => a.returnRate - b.returnRate);
+  }
+}
+
+/**
+ * 税引後の手取りが指定額になるよう資産を売却する
+ * 売却順序・按分方法は戦略に従う。特定口座は譲渡益税分をグロスアップする
+ * @param strategy 取り崩し戦略
+ * @param candidates 取り崩し可能な資産（残高があるもの）
+ * @param netAmount 必要な税引後の手取り額
+ * @returns 資産ごとの売却結果
+ */
+export function executeWithdrawal(
+  strategy: WithdrawalStrategy | undefined,
+  candidates: WithdrawalCandidate[],
+  netAmount: number
+): WithdrawalSale[] {
+  const type = getWithdrawalStrategyType(strategy);
+  const balances = new Map(candidates.map(c => [c.id, c.balance]));
+  const costBases = new Map(candidates.map(c => [c.id, c.costBasis]));
+  const sales = new Map<string, WithdrawalSale>();
+  let remaining = netAmount;
+
+  const sell = (candidate: WithdrawalCandidate, net: number) => {
+    const balance = balances.get(candidate.id) ?? 0;
+    const costBasis = costBases.get(candidate.id) ?? 0;
+    if (balance <= 0 || net <= 0) return;
+
+    const amount = calculateGrossSaleAmount(candidate.accountType, net, balance, costBasis);
+    const tax = calculateCapitalGainsTax(candidate.accountType, amount, balance, costBasis);
+
+    balances.set(candidate.id, balance - amount);
+    costBases.set(candidate.id, costBasis - costBasis * (amount / balance));
+    remaining -= amount - tax;
+
+    const sale = sales.get(candidate.id) ?? { id: candidate.id, amount: 0, tax: 0 };
+    sale.amount += amount;
+    sale.tax += tax;
+    sales.set(candidate.id, sale);
+  };
+
+  if (type === 'pro-rata' || isAmountBasedStrategy(type)) {
+    // 評価額に応じて按分（売り切った資産があれば残りの資産で再按分）
+    for (let pass = 0; pass < candidates.length && remaining > 1e-6; pass++) {
+      const active = candidates.filter(c => (balances.get(c.id) ?? 0) > 0);
+      const total = active.reduce((sum, c) => sum + (balances.get(c.id) ?? 0), 0);
+      if (total <= 0) break;
+
+      const target = remaining;
+      active.forEach(c => sell(c, target * (balances.get(c.id) ?? 0) / total));
+    }
+  } else {
+    for (const candidate of sortCandidates(type, candidates)) {
+      if (remaining <= 0) break;
+      sell(candidate, remaining);
+    }
+  }
+
+  return Array.from(sales.values());
+}